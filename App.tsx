@@ -1,7 +1,38 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { TargetFormat, ConversionState, SUPPORTED_FILE_TYPES, BatchFileItem } from './types';
-import { convertContent } from './services/geminiService';
+import { TargetFormat, ConversionState, SUPPORTED_FILE_TYPES, BatchFileItem, ProviderId, HistoryEntry, ConversionPreset, ResultVersion, TokenUsage } from './types';
+import { convertDocument, ConversionCancelledError, estimateConversion, inspectConversion, PromptInspection } from './services/conversionService';
+import { getMimeType, isTextFile } from './services/prompt';
+import { ConversionProvider, createProvider, DEFAULT_PROVIDER_SETTINGS, PROVIDER_OPTIONS } from './services/providers';
+import { buildBatchArchive, buildOutputData, getOutputFileType, MANIFEST_FILENAME, saveBlob, ZIP_MIME_TYPE } from './services/outputFiles';
+import {
+  DEFAULT_BATCH_TEMPLATE,
+  DEFAULT_TEXT_FILENAME,
+  FILENAME_PLACEHOLDERS,
+  resolveBatchFilenames,
+  resolveTextFilename
+} from './services/filenameTemplate';
+import { BatchQueue, createBatchQueue, DEFAULT_CONCURRENCY, MAX_CONCURRENCY } from './services/batchQueue';
+import { addHistoryEntry } from './services/historyStore';
+import { computeCacheKey, getCachedResult, putCachedResult } from './services/resultCache';
+import { JsonSchema, parseJsonSchema } from './services/jsonSchema';
+import { createPreset, loadPresets, mergePresets, savePresets } from './services/presets';
+import { DEFAULT_TEMPERATURE } from './services/prompt';
+import { DEFAULT_SQL_OPTIONS } from './services/sqlDialect';
+import { DEFAULT_CSV_OPTIONS } from './services/csvDialect';
+import { DEFAULT_REDACTION_OPTIONS } from './services/redaction';
+import { detectFileEncoding } from './services/textEncoding';
+import { addUsage, EMPTY_USAGE, estimateCost, formatCost, formatTokens, getBudgetUsd, setBudgetUsd } from './services/usage';
+import OutputPreview, { hasPreview } from './components/OutputPreview';
+import HistorySidebar from './components/HistorySidebar';
+import CacheSidebar from './components/CacheSidebar';
+import SchemaEditor from './components/SchemaEditor';
+import PresetBar from './components/PresetBar';
+import OverrideFields, { FileOverrides } from './components/OverrideFields';
+import PromptInspector from './components/PromptInspector';
+import SqlOptionsFields from './components/SqlOptionsFields';
+import CsvOptionsFields from './components/CsvOptionsFields';
+import RedactionFields from './components/RedactionFields';
 import { 
   FileText, 
   Upload, 
@@ -16,7 +47,22 @@ import {
   File as FileIcon,
   Trash2,
   RefreshCw,
-  Plus
+  Plus,
+  ShieldCheck,
+  ShieldAlert,
+  Square,
+  Ban,
+  Code,
+  Eye,
+  Pause,
+  Play,
+  FileArchive,
+  History,
+  SlidersHorizontal,
+  Calculator,
+  EyeOff,
+  Database,
+  Zap
 } from 'lucide-react';
 
 const App: React.FC = () => {
@@ -27,37 +73,151 @@ const App: React.FC = () => {
     activeFileId: null,
     targetFormat: TargetFormat.JSON,
     status: 'idle',
+    concurrency: DEFAULT_CONCURRENCY,
     textResult: '',
+    textValidation: null,
+    textRedaction: null,
     error: null,
     additionalInstructions: '',
+    jsonSchema: '',
+    sqlOptions: DEFAULT_SQL_OPTIONS,
+    csvOptions: DEFAULT_CSV_OPTIONS,
+    redaction: DEFAULT_REDACTION_OPTIONS,
     customFilename: '',
+    provider: DEFAULT_PROVIDER_SETTINGS,
+    temperature: DEFAULT_TEMPERATURE,
   });
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const outputRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const queueRef = useRef<BatchQueue | null>(null);
+  // Queue jobs look files up here so files added mid-run can be retried too
+  const batchFilesRef = useRef(state.batchFiles);
+  batchFilesRef.current = state.batchFiles;
+  // Files whose next conversion must call the model even on a cache hit
+  const skipCacheRef = useRef(new Set<string>());
   const [copied, setCopied] = useState(false);
+  const [viewMode, setViewMode] = useState<'source' | 'preview'>('source');
+  const [queuePaused, setQueuePaused] = useState(false);
+  const [archiving, setArchiving] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [cacheOpen, setCacheOpen] = useState(false);
+  const [cacheVersion, setCacheVersion] = useState(0);
+  const [presets, setPresets] = useState<ConversionPreset[]>(loadPresets);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
+  const [editingFileId, setEditingFileId] = useState<string | null>(null);
+  const [bulkOverrides, setBulkOverrides] = useState<FileOverrides>({});
+  const [versionView, setVersionView] = useState<{ fileId: string; index: number } | null>(null);
+  const [estimating, setEstimating] = useState(false);
+  const [textEstimate, setTextEstimate] = useState<TokenUsage | null>(null);
+  // Tokens and USD spent since the page was opened; unpriced marks usage of models without a known price
+  const [sessionUsage, setSessionUsage] = useState({ usage: EMPTY_USAGE, cost: 0, unpriced: false });
+  const sessionCostRef = useRef(0);
+  const [budgetUsd, setBudgetUsdState] = useState<number | null>(getBudgetUsd);
+  const budgetRef = useRef(budgetUsd);
+  budgetRef.current = budgetUsd;
+  const [dryRun, setDryRun] = useState(false);
+  const [inspection, setInspection] = useState<{ data: PromptInspection; sourceName: string } | null>(null);
 
   // Expanded accept string to include extensions for better OS file picker support
   const ACCEPT_STRING = [
     ...SUPPORTED_FILE_TYPES,
-    '.pdf', '.docx', '.doc', '.csv', '.txt', '.md', '.json', '.xml', '.html', '.yaml', '.yml'
+    '.pdf', '.docx', '.doc', '.xlsx', '.ods', '.pptx', '.epub', '.csv', '.txt', '.md', '.json', '.xml', '.html', '.yaml', '.yml'
   ].join(',');
 
   const handleInputModeChange = (mode: 'text' | 'file') => {
     setState(prev => ({ ...prev, inputMode: mode, error: null }));
   };
 
+  const handleProviderChange = (id: ProviderId) => {
+    const option = PROVIDER_OPTIONS.find(p => p.id === id);
+    setState(prev => ({
+      ...prev,
+      provider: { ...prev.provider, id, model: option?.defaultModel || prev.provider.model }
+    }));
+  };
+
+  const updatePresets = (next: ConversionPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const applyPreset = (preset: ConversionPreset | null) => {
+    if (!preset) {
+      setSelectedPresetId('');
+      return;
+    }
+    const option = PROVIDER_OPTIONS.find(p => p.id === preset.provider);
+    // Presets are shared, so one must not send the stored key to a different endpoint
+    const baseUrl = preset.baseUrl || DEFAULT_PROVIDER_SETTINGS.baseUrl;
+    const endpointChanged = baseUrl !== state.provider.baseUrl;
+    if (endpointChanged && preset.provider === 'openai'
+      && !window.confirm(`预设「${preset.name}」会将接口地址改为 ${baseUrl}${state.provider.apiKey ? '，已填写的 API Key 将被清空' : ''}。确定应用吗？`)) return;
+    setSelectedPresetId(preset.id);
+    setState(prev => ({
+      ...prev,
+      targetFormat: preset.targetFormat,
+      additionalInstructions: preset.instructions,
+      customFilename: preset.filenamePattern,
+      jsonSchema: preset.jsonSchema || '',
+      sqlOptions: preset.sqlOptions || prev.sqlOptions,
+      csvOptions: preset.csvOptions || prev.csvOptions,
+      redaction: preset.redaction || prev.redaction,
+      temperature: preset.temperature,
+      provider: {
+        ...prev.provider,
+        id: preset.provider,
+        model: preset.model || option?.defaultModel || prev.provider.model,
+        baseUrl,
+        apiKey: endpointChanged ? '' : prev.provider.apiKey,
+      },
+      error: null
+    }));
+  };
+
+  const handleSavePreset = (name: string) => {
+    const preset = createPreset({
+      name,
+      targetFormat: state.targetFormat,
+      instructions: state.additionalInstructions,
+      filenamePattern: state.customFilename,
+      provider: state.provider.id,
+      model: state.provider.model,
+      baseUrl: state.provider.id === 'openai' ? state.provider.baseUrl : undefined,
+      temperature: state.temperature,
+      jsonSchema: state.targetFormat === TargetFormat.JSON && state.jsonSchema.trim() ? state.jsonSchema : undefined,
+      sqlOptions: state.targetFormat === TargetFormat.SQL ? state.sqlOptions : undefined,
+      csvOptions: state.targetFormat === TargetFormat.CSV ? state.csvOptions : undefined,
+      redaction: state.redaction.enabled ? state.redaction : undefined,
+    });
+    const next = mergePresets(presets, [preset]);
+    updatePresets(next);
+    setSelectedPresetId(next.find(p => p.name === name)!.id);
+  };
+
+  const handleImportPresets = (imported: ConversionPreset[]) => {
+    updatePresets(mergePresets(presets, imported));
+    setState(prev => ({ ...prev, error: null }));
+  };
+
   // Helper to generate unique IDs
   const generateId = () => Math.random().toString(36).substr(2, 9);
 
   const processFiles = (files: FileList | File[]) => {
     const newFiles: BatchFileItem[] = [];
     let errorMsg = null;
-    const MAX_SIZE = 5 * 1024 * 1024; // 5MB
+    const MAX_SIZE = 5 * 1024 * 1024; // 5MB, for files sent in a single request
+    const MAX_CHUNKED_SIZE = 50 * 1024 * 1024; // 50MB, for text and PDFs that are split into chunks
 
     Array.from(files).forEach(file => {
       // 1. Size Check
-      if (file.size > MAX_SIZE) {
-        errorMsg = `文件 ${file.name} 过大 (${(file.size / 1024 / 1024).toFixed(1)}MB)。请上传 5MB 以内的文件。`;
+      const chunkable = isTextFile(file) || getMimeType(file) === 'application/pdf';
+      const limit = chunkable ? MAX_CHUNKED_SIZE : MAX_SIZE;
+      if (file.size > limit) {
+        errorMsg = `文件 ${file.name} 过大 (${(file.size / 1024 / 1024).toFixed(1)}MB)。请上传 ${limit / 1024 / 1024}MB 以内的文件。`;
         return;
       }
 
@@ -90,6 +250,11 @@ const App: React.FC = () => {
     });
 
     if (fileInputRef.current) fileInputRef.current.value = '';
+
+    // Shown next to each file and used when no encoding is chosen
+    newFiles.filter(f => isTextFile(f.file)).forEach(async f => {
+      updateFile(f.id, { detectedEncoding: await detectFileEncoding(f.file) });
+    });
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -109,8 +274,107 @@ const App: React.FC = () => {
     e.preventDefault();
   };
 
+  /**
+   * Saves a finished conversion to the local history. Failures only cost the
+   * history entry, never the conversion itself.
+   */
+  const recordHistory = (entry: Omit<HistoryEntry, 'id' | 'createdAt' | 'size'>) => {
+    addHistoryEntry({ ...entry, id: generateId(), createdAt: Date.now() })
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.warn('Failed to save history entry:', err));
+  };
+
+  /**
+   * Adds a finished conversion's tokens to the session total and returns its
+   * cost, or null when the model's price is unknown.
+   */
+  const recordUsage = (usage: TokenUsage | undefined, providerId: ProviderId, model: string): number | null => {
+    if (!usage) return 0;
+    const cost = estimateCost(usage, providerId, model);
+    sessionCostRef.current += cost ?? 0;
+    setSessionUsage(prev => ({
+      usage: addUsage(prev.usage, usage),
+      cost: prev.cost + (cost ?? 0),
+      unpriced: prev.unpriced || cost === null,
+    }));
+    return cost;
+  };
+
+  const handleBudgetChange = (value: string) => {
+    const usd = Number(value) > 0 ? Number(value) : null;
+    setBudgetUsdState(usd);
+    setBudgetUsd(usd);
+  };
+
+  const historyEntryToFile = (entry: HistoryEntry): File =>
+    entry.inputFile instanceof File
+      ? entry.inputFile
+      : new File([entry.inputFile!], entry.inputName || 'file', { type: entry.inputFile!.type });
+
+  /**
+   * Loads a history entry's input and settings. With restoreResult the stored
+   * output is shown as well; otherwise the input is ready to be converted again.
+   */
+  const loadHistoryEntry = (entry: HistoryEntry, restoreResult: boolean) => {
+    if (state.status === 'processing') {
+      setState(prev => ({ ...prev, error: '请等待当前转换完成后再载入历史记录。' }));
+      return;
+    }
+    const settings = {
+      targetFormat: entry.targetFormat,
+      additionalInstructions: entry.instructions,
+      error: null,
+      // Re-running starts from the provider and model that produced the entry
+      ...(restoreResult ? {} : { provider: { ...state.provider, id: entry.provider, model: entry.model } }),
+    };
+
+    if (entry.inputFile) {
+      const item: BatchFileItem = {
+        id: generateId(),
+        file: historyEntryToFile(entry),
+        status: restoreResult ? 'success' : 'idle',
+        ...(restoreResult ? {
+          result: entry.output,
+          validation: entry.validation,
+          targetFormat: entry.targetFormat,
+          instructions: entry.instructions,
+          completedAt: entry.createdAt,
+        } : {}),
+      };
+      setState(prev => ({
+        ...prev,
+        ...settings,
+        inputMode: 'file',
+        batchFiles: [...prev.batchFiles, item],
+        activeFileId: item.id,
+      }));
+    } else {
+      setState(prev => ({
+        ...prev,
+        ...settings,
+        inputMode: 'text',
+        inputText: entry.inputText || '',
+        status: restoreResult ? 'success' : 'idle',
+        textResult: restoreResult ? entry.output : '',
+        textValidation: restoreResult ? entry.validation ?? null : null,
+        textRedaction: null,
+      }));
+    }
+    setHistoryOpen(false);
+  };
+
+  const updateFile = (id: string, changes: Partial<BatchFileItem>) => {
+    setState(prev => ({
+      ...prev,
+      batchFiles: prev.batchFiles.map(f => f.id === id ? { ...f, ...changes } : f)
+    }));
+  };
+
   const removeFile = (id: string, e?: React.MouseEvent) => {
     e?.stopPropagation();
+    queueRef.current?.remove(id);
+    skipCacheRef.current.delete(id);
+    setSelectedFileIds(prev => prev.filter(selectedId => selectedId !== id));
     setState(prev => {
       const newFiles = prev.batchFiles.filter(f => f.id !== id);
       let newActiveId = prev.activeFileId;
@@ -128,6 +392,91 @@ const App: React.FC = () => {
     });
   };
 
+  /**
+   * Parses the schema editor contents. Only JSON output uses a schema.
+   */
+  const resolveSchema = (): { schema?: JsonSchema; error?: string } => {
+    if (state.targetFormat !== TargetFormat.JSON || !state.jsonSchema.trim()) return {};
+    try {
+      return { schema: parseJsonSchema(state.jsonSchema) };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  };
+
+  /**
+   * Pre-flight token estimate for the text input with the current settings,
+   * shared by the estimate button and the budget check so both agree.
+   */
+  const estimateText = (provider: ConversionProvider, schema?: JsonSchema): Promise<TokenUsage> =>
+    estimateConversion(state.inputText, state.targetFormat, state.additionalInstructions, { provider, schema, sql: state.sqlOptions, csv: state.csvOptions, redaction: state.redaction });
+
+  /**
+   * Pre-flight token estimates for batch files with their current settings.
+   * Files are counted one at a time to stay clear of rate limits.
+   */
+  const estimateFiles = async (ids: string[], provider: ConversionProvider, schema?: JsonSchema): Promise<Map<string, TokenUsage>> => {
+    const estimates = new Map<string, TokenUsage>();
+    for (const id of ids) {
+      const fileItem = batchFilesRef.current.find(f => f.id === id);
+      if (!fileItem) continue;
+      const estimate = await estimateConversion(
+        fileItem.file,
+        fileItem.formatOverride ?? state.targetFormat,
+        fileItem.instructionsOverride ?? state.additionalInstructions,
+        { provider, schema, sql: state.sqlOptions, csv: state.csvOptions, encoding: fileItem.encodingOverride, redaction: state.redaction }
+      );
+      estimates.set(id, estimate);
+      updateFile(id, { estimate });
+    }
+    return estimates;
+  };
+
+  const handleEstimate = async () => {
+    const { schema, error: schemaError } = resolveSchema();
+    if (schemaError) {
+      setState(prev => ({ ...prev, error: schemaError }));
+      return;
+    }
+    const provider = createProvider(state.provider);
+    setEstimating(true);
+    try {
+      if (state.inputMode === 'text') {
+        setTextEstimate(await estimateText(provider, schema));
+      } else {
+        await estimateFiles(state.batchFiles.filter(f => f.status !== 'success').map(f => f.id), provider, schema);
+      }
+      setState(prev => ({ ...prev, error: null }));
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: `估算失败：${err.message}` }));
+    } finally {
+      setEstimating(false);
+    }
+  };
+
+  /**
+   * Dry run: shows the request the active file (or the text input) would
+   * send, without sending it.
+   */
+  const handleInspect = async (schema?: JsonSchema) => {
+    const provider = createProvider(state.provider);
+    const fileItem = state.batchFiles.find(f => f.id === state.activeFileId) || state.batchFiles[0];
+    try {
+      const data = state.inputMode === 'text'
+        ? await inspectConversion(state.inputText, state.targetFormat, state.additionalInstructions, { provider, schema, temperature: state.temperature, sql: state.sqlOptions, csv: state.csvOptions, redaction: state.redaction })
+        : await inspectConversion(
+            fileItem.file,
+            fileItem.formatOverride ?? state.targetFormat,
+            fileItem.instructionsOverride ?? state.additionalInstructions,
+            { provider, schema, temperature: state.temperature, sql: state.sqlOptions, csv: state.csvOptions, encoding: fileItem.encodingOverride, redaction: state.redaction }
+          );
+      setInspection({ data, sourceName: state.inputMode === 'text' ? '粘贴文本' : fileItem.file.name });
+      setState(prev => ({ ...prev, error: null }));
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: `无法生成请求预览：${err.message}` }));
+    }
+  };
+
   const handleConvert = async () => {
     // Validation
     if (state.inputMode === 'text' && !state.inputText.trim()) {
@@ -140,75 +489,368 @@ const App: React.FC = () => {
       return;
     }
 
-    setState(prev => ({ ...prev, status: 'processing', error: null }));
+    const { schema, error: schemaError } = resolveSchema();
+    if (schemaError) {
+      setState(prev => ({ ...prev, error: schemaError }));
+      return;
+    }
 
-    if (state.inputMode === 'text') {
-      try {
-        const result = await convertContent(
-          state.inputText, 
-          state.targetFormat, 
-          state.additionalInstructions
-        );
-        setState(prev => ({ ...prev, status: 'success', textResult: result }));
-      } catch (err: any) {
+    if (dryRun) {
+      await handleInspect(schema);
+      return;
+    }
+    setInspection(null);
+
+    if (state.inputMode === 'file') {
+      // Already converted files are skipped to save API calls
+      await startQueue(state.batchFiles.filter(f => f.status !== 'success').map(f => f.id));
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const provider = createProvider(state.provider);
+
+    setState(prev => ({ ...prev, status: 'processing', error: null, textResult: '', textValidation: null, textRedaction: null }));
+    try {
+      if (budgetUsd !== null) {
+        const estimate = await estimateText(provider, schema);
+        setTextEstimate(estimate);
+        const expected = estimateCost(estimate, state.provider.id, provider.model) ?? 0;
+        if (sessionCostRef.current + expected > budgetUsd) {
+          throw new Error(`预计费用 ${formatCost(expected)} 将超出预算上限 ${formatCost(budgetUsd)} (本次会话已用 ${formatCost(sessionCostRef.current)})。`);
+        }
+      }
+      const result = await convertDocument(
+        state.inputText, 
+        state.targetFormat, 
+        state.additionalInstructions,
+        {
+          provider,
+          schema,
+          temperature: state.temperature,
+          sql: state.sqlOptions,
+          csv: state.csvOptions,
+          redaction: state.redaction,
+          signal: controller.signal,
+          onProgress: partial => setState(prev => ({ ...prev, textResult: partial }))
+        }
+      );
+      setState(prev => ({
+        ...prev,
+        status: 'success',
+        textResult: result.text,
+        textValidation: result.validation,
+        textRedaction: result.redaction ?? null
+      }));
+      recordUsage(result.usage, state.provider.id, provider.model);
+      recordHistory({
+        inputText: state.inputText,
+        targetFormat: state.targetFormat,
+        instructions: state.additionalInstructions,
+        provider: state.provider.id,
+        model: provider.model,
+        output: result.text,
+        validation: result.validation
+      });
+    } catch (err: any) {
+      if (err instanceof ConversionCancelledError) {
+        // Keep whatever was streamed so far
+        setState(prev => ({ ...prev, status: 'cancelled' }));
+      } else {
         setState(prev => ({ 
           ...prev, 
           status: 'error', 
           error: err.message || '发生意外错误。' 
         }));
       }
-    } else {
-      // BATCH MODE: Sequential Processing
-      const filesToProcess = state.batchFiles;
-      
-      for (let i = 0; i < filesToProcess.length; i++) {
-        const fileItem = filesToProcess[i];
-        
-        // Skip already successful files unless we want to re-process (ignoring for now to save API calls)
-        if (fileItem.status === 'success') continue;
+    }
 
-        // Update current file status to processing
-        setState(prev => ({
-          ...prev,
-          activeFileId: fileItem.id, // Auto switch view to processing file
-          batchFiles: prev.batchFiles.map(f => 
-            f.id === fileItem.id ? { ...f, status: 'processing', error: undefined } : f
-          )
-        }));
+    abortControllerRef.current = null;
+  };
+
+  /**
+   * Starts a queue run over the given files with the current settings. With a
+   * budget set, files are estimated first and the queue pauses itself before
+   * a file would take the session over the budget.
+   */
+  const startQueue = async (ids: string[]) => {
+    const { schema, error: schemaError } = resolveSchema();
+    if (schemaError) {
+      setState(prev => ({ ...prev, error: schemaError }));
+      return;
+    }
+    const provider = createProvider(state.provider);
+    const providerId = state.provider.id;
+    let estimates = new Map<string, TokenUsage>();
+    if (budgetUsd !== null) {
+      setEstimating(true);
+      try {
+        estimates = await estimateFiles(ids, provider, schema);
+      } catch (err: any) {
+        setState(prev => ({ ...prev, error: `无法估算费用，队列未启动：${err.message}` }));
+        return;
+      } finally {
+        setEstimating(false);
+      }
+    }
+    // Expected cost of files in flight, so parallel jobs cannot jointly overshoot the budget
+    const reserved = new Map<string, number>();
+    const { targetFormat, additionalInstructions, temperature, sqlOptions, csvOptions, redaction } = state;
+    // Overrides are read when a job runs, so edits made while a file is queued still apply
+    const settingsFor = (id: string) => {
+      const fileItem = batchFilesRef.current.find(f => f.id === id);
+      return {
+        format: fileItem?.formatOverride ?? targetFormat,
+        instructions: fileItem?.instructionsOverride ?? additionalInstructions,
+      };
+    };
 
+    const queue = createBatchQueue({
+      concurrency: state.concurrency,
+      run: async (id, _attempt, signal) => {
+        const fileItem = batchFilesRef.current.find(f => f.id === id);
+        const { format, instructions } = settingsFor(id);
         try {
-          const result = await convertContent(
+          if (!fileItem) return;
+          // Cache problems (no IndexedDB, unreadable file) only cost the cache, never the conversion
+          const cacheKey = await computeCacheKey(fileItem.file, {
+            targetFormat: format,
+            instructions,
+            provider: providerId,
+            model: provider.model,
+            temperature,
+            schema,
+            sql: sqlOptions,
+            csv: csvOptions,
+            encoding: fileItem.encodingOverride,
+            redaction
+          }).catch(err => {
+            console.warn('Failed to compute cache key:', err);
+            return null;
+          });
+          const cached = cacheKey && !skipCacheRef.current.has(id)
+            ? await getCachedResult(cacheKey).catch(err => {
+                console.warn('Failed to read result cache:', err);
+                return null;
+              })
+            : null;
+          if (cached) {
+            updateFile(id, {
+              status: 'success',
+              result: cached.output,
+              validation: cached.validation,
+              redaction: cached.redaction,
+              cachedAt: cached.createdAt,
+              targetFormat: format,
+              instructions,
+              completedAt: Date.now()
+            });
+            setCacheVersion(v => v + 1);
+            return;
+          }
+          const result = await convertDocument(
             fileItem.file,
-            state.targetFormat,
-            state.additionalInstructions
+            format,
+            instructions,
+            {
+              provider,
+              schema,
+              temperature,
+              sql: sqlOptions,
+              csv: csvOptions,
+              encoding: fileItem.encodingOverride,
+              redaction,
+              signal,
+              onProgress: partial => updateFile(id, { result: partial }),
+              onChunkProgress: chunkProgress => updateFile(id, { chunkProgress })
+            }
           );
-
-          // Update success status
-          setState(prev => ({
-            ...prev,
-            batchFiles: prev.batchFiles.map(f => 
-              f.id === fileItem.id ? { ...f, status: 'success', result } : f
-            )
-          }));
-        } catch (err: any) {
-          // Update error status but continue queue
-          setState(prev => ({
-            ...prev,
-            batchFiles: prev.batchFiles.map(f => 
-              f.id === fileItem.id ? { ...f, status: 'error', error: err.message } : f
-            )
-          }));
+          updateFile(id, {
+            status: 'success',
+            result: result.text,
+            validation: result.validation,
+            redaction: result.redaction,
+            usage: result.usage,
+            cost: recordUsage(result.usage, providerId, provider.model),
+            targetFormat: format,
+            instructions,
+            completedAt: Date.now()
+          });
+          skipCacheRef.current.delete(id);
+          // Invalid output is not kept, so a later run gets another chance at it
+          if (cacheKey && result.validation.valid) {
+            putCachedResult({
+              key: cacheKey,
+              fileName: fileItem.file.name,
+              targetFormat: format,
+              instructions,
+              provider: providerId,
+              model: provider.model,
+              output: result.text,
+              validation: result.validation,
+              redaction: result.redaction
+            })
+              .then(() => setCacheVersion(v => v + 1))
+              .catch(err => console.warn('Failed to cache result:', err));
+          }
+          recordHistory({
+            inputFile: fileItem.file,
+            inputName: fileItem.file.name,
+            targetFormat: format,
+            instructions,
+            provider: state.provider.id,
+            model: provider.model,
+            output: result.text,
+            validation: result.validation
+          });
+        } finally {
+          reserved.delete(id);
         }
+      },
+      onStart: (id, attempt) => setState(prev => ({
+        ...prev,
+        // Follow the newest file unless the one on screen is still converting
+        activeFileId: prev.batchFiles.find(f => f.id === prev.activeFileId)?.status === 'processing' ? prev.activeFileId : id,
+        batchFiles: prev.batchFiles.map(f =>
+          f.id === id
+            ? {
+                ...f,
+                status: 'processing',
+                attempts: attempt,
+                retryAt: undefined,
+                error: undefined,
+                result: undefined,
+                validation: undefined,
+                redaction: undefined,
+                cachedAt: undefined,
+                chunkProgress: undefined,
+                usage: undefined,
+                cost: undefined,
+                // The streamed output is shown and previewed in the format being produced
+                targetFormat: f.formatOverride ?? targetFormat,
+                instructions: f.instructionsOverride ?? additionalInstructions
+              }
+            : f
+        )
+      })),
+      onRetry: (id, _attempt, delayMs, error) => updateFile(id, { status: 'idle', error: error.message, result: undefined, retryAt: Date.now() + delayMs }),
+      onError: (id, error) => {
+        const { format, instructions } = settingsFor(id);
+        updateFile(id, {
+          status: 'error',
+          error: error.message,
+          targetFormat: format,
+          instructions,
+          completedAt: Date.now()
+        });
+      },
+      onCancel: id => updateFile(id, { status: 'cancelled', retryAt: undefined }),
+      canStart: id => {
+        const budget = budgetRef.current;
+        if (budget === null) return true;
+        const estimate = estimates.get(id) ?? batchFilesRef.current.find(f => f.id === id)?.estimate;
+        const expected = (estimate && estimateCost(estimate, providerId, provider.model)) || 0;
+        const committed = sessionCostRef.current + Array.from(reserved.values()).reduce((sum, cost) => sum + cost, 0);
+        if (committed + expected > budget) return false;
+        reserved.set(id, expected);
+        return true;
+      },
+      onBlocked: id => {
+        const name = batchFilesRef.current.find(f => f.id === id)?.file.name;
+        setQueuePaused(true);
+        setState(prev => ({
+          ...prev,
+          error: `队列已暂停：继续转换 ${name} 预计将超出预算上限 ${formatCost(budgetRef.current)}。请调高预算后点击“继续”。`
+        }));
+      },
+      onIdle: () => {
+        if (queueRef.current === queue) queueRef.current = null;
+        setQueuePaused(false);
+        setState(prev => ({ ...prev, status: 'idle' }));
       }
+    });
 
-      // Final status check
-      setState(prev => ({ ...prev, status: 'idle' })); // Queue finished
+    queueRef.current = queue;
+    setState(prev => ({ ...prev, status: 'processing', error: null }));
+    queue.add(ids);
+  };
+
+  /**
+   * Queues one file again. With skipCache the model is called even when a
+   * cached result for the current settings exists.
+   */
+  const handleRetryFile = (id: string, e: React.MouseEvent, skipCache = false) => {
+    e.stopPropagation();
+    if (skipCache) skipCacheRef.current.add(id);
+    setState(prev => ({
+      ...prev,
+      batchFiles: prev.batchFiles.map(f => {
+        if (f.id !== id) return f;
+        // A successful result is kept as an earlier version before converting again
+        const previous: ResultVersion | null = f.status === 'success' && f.result
+          ? { result: f.result, validation: f.validation, targetFormat: f.targetFormat ?? prev.targetFormat, instructions: f.instructions ?? '', completedAt: f.completedAt ?? Date.now() }
+          : null;
+        return {
+          ...f,
+          status: 'idle',
+          error: undefined,
+          result: undefined,
+          validation: undefined,
+          redaction: undefined,
+          attempts: undefined,
+          retryAt: undefined,
+          versions: previous ? [...(f.versions || []), previous] : f.versions
+        };
+      })
+    }));
+    if (queueRef.current) {
+      queueRef.current.add([id]);
+    } else {
+      startQueue([id]);
+    }
+  };
+
+  const applyOverrides = (ids: string[], overrides: FileOverrides) => {
+    setState(prev => ({
+      ...prev,
+      batchFiles: prev.batchFiles.map(f => ids.includes(f.id) ? { ...f, ...overrides } : f)
+    }));
+  };
+
+  const toggleFileSelection = (id: string) => {
+    setSelectedFileIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const handleTogglePause = () => {
+    // Resuming may pause again right away when the budget still blocks the next file
+    setQueuePaused(!queuePaused);
+    if (queuePaused) {
+      setState(prev => ({ ...prev, error: null }));
+      queueRef.current?.resume();
+    } else {
+      queueRef.current?.pause();
+    }
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    const concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, value || 1));
+    setState(prev => ({ ...prev, concurrency }));
+    queueRef.current?.setConcurrency(concurrency);
+  };
+
+  const handleCancel = () => {
+    if (state.inputMode === 'file') {
+      queueRef.current?.cancelAll();
+    } else {
+      abortControllerRef.current?.abort();
     }
   };
 
   // Helper to get currently displayed content
   const getCurrentResult = () => {
     if (state.inputMode === 'text') return state.textResult;
+    if (viewedVersion) return viewedVersion.result;
     if (state.activeFileId) {
       const file = state.batchFiles.find(f => f.id === state.activeFileId);
       return file?.result || '';
@@ -224,56 +866,83 @@ const App: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     const content = getCurrentResult();
     if (!content) return;
-    
-    let extension = 'txt';
-    let mimeType = 'text/plain';
-
-    switch (state.targetFormat) {
-      case TargetFormat.JSON: extension = 'json'; mimeType = 'application/json'; break;
-      case TargetFormat.CSV: extension = 'csv'; mimeType = 'text/csv'; break;
-      case TargetFormat.HTML: extension = 'html'; mimeType = 'text/html'; break;
-      case TargetFormat.MARKDOWN: extension = 'md'; mimeType = 'text/markdown'; break;
-      case TargetFormat.XML: extension = 'xml'; mimeType = 'text/xml'; break;
-      case TargetFormat.SQL: extension = 'sql'; mimeType = 'text/plain'; break;
-      case TargetFormat.YAML: extension = 'yaml'; mimeType = 'text/yaml'; break;
-      case TargetFormat.DOCX: 
-        extension = 'doc'; 
-        mimeType = 'application/msword'; 
-        break;
+
+    // Batch results are saved in the format they were converted to
+    const format = displayedFormat;
+    const sqlErrors = format === TargetFormat.SQL ? currentValidation?.sqlCheck?.errors.length : 0;
+    if (sqlErrors && !window.confirm(`SQLite 检查发现 ${sqlErrors} 处错误，导入数据库时可能失败。仍要下载吗？`)) return;
+    const codeErrors = currentValidation?.codeCheck?.errors.length;
+    if (codeErrors && !window.confirm(`类型检查发现 ${codeErrors} 处错误，代码可能无法编译。仍要下载吗？`)) return;
+    const { extension, mimeType } = getOutputFileType(format);
+
+    // Batch items use the same deduplicated names as the ZIP archive
+    let filename = state.inputMode === 'file' && activeFileItem
+      ? batchFilenames.get(activeFileItem.id)!
+      : resolveTextFilename(state.customFilename, format, presetName);
+    if (viewedVersion && versionView) {
+      filename = `${filename.replace(/\.[^.]+$/, '')}_v${versionView.index + 1}.${extension}`;
     }
 
-    // Determine filename
-    let filename = 'convert-result';
-    if (state.inputMode === 'text') {
-      filename = state.customFilename.trim() || 'text-convert';
-    } else if (state.activeFileId) {
-      const fileItem = state.batchFiles.find(f => f.id === state.activeFileId);
-      if (fileItem) {
-        const originalName = fileItem.file.name.substring(0, fileItem.file.name.lastIndexOf('.')) || fileItem.file.name;
-        // In batch mode, we ignore customFilename to avoid conflicts, or we could append it. 
-        // For safety, let's use original filename + format
-        filename = `${originalName}_converted`;
-      }
+    try {
+      const data = await buildOutputData(content, format, filename.slice(0, -extension.length - 1), state.csvOptions.bom);
+      saveBlob(new Blob([data as BlobPart], { type: mimeType }), filename);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: `生成 ${filename} 失败：${err.message}` }));
     }
+  };
 
-    const safeName = filename.replace(/[^a-z0-9\u4e00-\u9fa5_\-\s]/gi, '_');
-    
-    const blob = new Blob([content], { type: mimeType });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${safeName}.${extension}`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleDownloadAll = async () => {
+    setArchiving(true);
+    try {
+      const archive = await buildBatchArchive(state.batchFiles, batchFilenames, state.targetFormat, state.csvOptions.bom);
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+      saveBlob(new Blob([archive as BlobPart], { type: ZIP_MIME_TYPE }), `uniconvert_${stamp}.zip`);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: `打包下载失败：${err.message}` }));
+    } finally {
+      setArchiving(false);
+    }
   };
 
   const activeFileItem = state.batchFiles.find(f => f.id === state.activeFileId);
+  // An earlier version of the active file chosen in the output toolbar, if any
+  const viewedVersion = state.inputMode === 'file' && activeFileItem && versionView?.fileId === activeFileItem.id
+    ? activeFileItem.versions?.[versionView.index]
+    : undefined;
+  const displayedFormat = state.inputMode === 'text'
+    ? state.targetFormat
+    : viewedVersion?.targetFormat ?? activeFileItem?.targetFormat ?? activeFileItem?.formatOverride ?? state.targetFormat;
+  const presetName = presets.find(p => p.id === selectedPresetId)?.name || '';
+  // Estimate of what is left to convert: the text input, or every file not yet converted
+  const pendingFiles = state.batchFiles.filter(f => f.status !== 'success');
+  const pendingCount = pendingFiles.length;
+  const estimatedCount = pendingFiles.filter(f => f.estimate).length;
+  const pendingEstimate = state.inputMode === 'text'
+    ? textEstimate
+    : estimatedCount > 0 ? pendingFiles.reduce((sum, f) => addUsage(sum, f.estimate), EMPTY_USAGE) : null;
+  const batchFilenames = resolveBatchFilenames(state.batchFiles, state.customFilename, state.targetFormat, presetName, [MANIFEST_FILENAME]);
+  const filenamePreview = state.inputMode === 'text'
+    ? [resolveTextFilename(state.customFilename, state.targetFormat, presetName)]
+    : Array.from(batchFilenames.values());
   const currentDisplayedResult = getCurrentResult();
+  const currentValidation = state.inputMode === 'text' ? state.textValidation : viewedVersion ? viewedVersion.validation : activeFileItem?.validation;
+  // Earlier versions do not keep their redaction report
+  const currentRedaction = state.inputMode === 'text' ? state.textRedaction : viewedVersion ? null : activeFileItem?.redaction;
+  const isStreaming = state.inputMode === 'text'
+    ? state.status === 'processing'
+    : activeFileItem?.status === 'processing';
+  // Partial output usually does not parse, so previews wait for the stream to finish
+  const showPreview = viewMode === 'preview' && hasPreview(displayedFormat) && !isStreaming;
+
+  // Keep the newest streamed output in view
+  useEffect(() => {
+    if (isStreaming && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [currentDisplayedResult, isStreaming]);
 
   return (
     <div className="min-h-screen flex flex-col md:flex-row bg-slate-50 text-slate-900 font-sans">
@@ -290,6 +959,20 @@ const App: React.FC = () => {
             <h1 className="text-2xl font-bold tracking-tight text-slate-900">UniConvert AI</h1>
             <p className="text-sm text-slate-500 font-medium">万能格式转换专家</p>
           </div>
+          <button
+            onClick={() => setHistoryOpen(true)}
+            className="ml-auto px-3 py-2 text-sm text-slate-600 hover:text-indigo-700 hover:bg-indigo-50 rounded-lg flex items-center gap-1.5 transition-colors"
+            title="查看历史记录"
+          >
+            <History size={18} /> 历史
+          </button>
+          <button
+            onClick={() => setCacheOpen(true)}
+            className="px-3 py-2 text-sm text-slate-600 hover:text-indigo-700 hover:bg-indigo-50 rounded-lg flex items-center gap-1.5 transition-colors"
+            title="管理结果缓存"
+          >
+            <Database size={18} /> 缓存
+          </button>
         </div>
 
         {/* Input Mode Tabs */}
@@ -323,7 +1006,10 @@ const App: React.FC = () => {
               className="w-full h-full p-4 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all resize-none font-mono text-sm"
               placeholder="在此粘贴您的内容 (JSON, XML, CSV, 纯文本, 代码...)"
               value={state.inputText}
-              onChange={(e) => setState(prev => ({ ...prev, inputText: e.target.value, error: null }))}
+              onChange={(e) => {
+                setTextEstimate(null);
+                setState(prev => ({ ...prev, inputText: e.target.value, error: null }));
+              }}
             />
           ) : (
             <div className="flex flex-col h-full gap-4">
@@ -331,56 +1017,171 @@ const App: React.FC = () => {
               {state.batchFiles.length > 0 ? (
                 <div className="flex-1 border border-slate-200 rounded-xl overflow-hidden flex flex-col bg-slate-50">
                    <div className="p-3 bg-slate-100 border-b border-slate-200 flex justify-between items-center text-xs font-semibold text-slate-500 uppercase">
-                      <span>文件列表 ({state.batchFiles.length})</span>
-                      <button 
-                        onClick={() => fileInputRef.current?.click()}
-                        className="text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
-                      >
-                        <Plus size={14} /> 添加
-                      </button>
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="accent-indigo-600"
+                          checked={selectedFileIds.length === state.batchFiles.length}
+                          onChange={(e) => setSelectedFileIds(e.target.checked ? state.batchFiles.map(f => f.id) : [])}
+                          title="全选"
+                        />
+                        文件列表 ({state.batchFiles.length})
+                      </label>
+                      <div className="flex items-center gap-4">
+                        <label className="flex items-center gap-1.5 normal-case" title="同时转换的文件数">
+                          并发
+                          <input
+                            type="number"
+                            min={1}
+                            max={MAX_CONCURRENCY}
+                            className="w-12 px-1.5 py-0.5 bg-white border border-slate-200 rounded text-slate-700 font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                            value={state.concurrency}
+                            onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                          />
+                        </label>
+                        <button 
+                          onClick={() => fileInputRef.current?.click()}
+                          className="text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
+                        >
+                          <Plus size={14} /> 添加
+                        </button>
+                      </div>
                    </div>
+                   {selectedFileIds.length > 0 && (
+                     <div className="p-3 bg-indigo-50 border-b border-indigo-100 space-y-2">
+                       <p className="text-xs text-indigo-700 font-medium">为已选的 {selectedFileIds.length} 个文件批量设置</p>
+                       <OverrideFields value={bulkOverrides} onChange={setBulkOverrides} />
+                       <div className="flex justify-end gap-2 text-xs">
+                         <button
+                           onClick={() => applyOverrides(selectedFileIds, { formatOverride: undefined, instructionsOverride: undefined, encodingOverride: undefined })}
+                           className="px-2.5 py-1 text-slate-500 hover:text-red-600 rounded-md"
+                         >
+                           清除覆盖
+                         </button>
+                         <button
+                           onClick={() => applyOverrides(selectedFileIds, bulkOverrides)}
+                           className="px-2.5 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md"
+                         >
+                           应用到所选
+                         </button>
+                       </div>
+                     </div>
+                   )}
                    <div className="overflow-y-auto flex-1 p-2 space-y-2">
                       {state.batchFiles.map(file => (
-                        <div 
+                        <div
                           key={file.id}
-                          onClick={() => setState(prev => ({ ...prev, activeFileId: file.id }))}
-                          className={`p-3 rounded-lg flex items-center justify-between cursor-pointer transition-all border ${
+                          className={`rounded-lg transition-all border ${
                             state.activeFileId === file.id 
                             ? 'bg-white border-indigo-300 shadow-sm ring-1 ring-indigo-100' 
                             : 'bg-white/50 border-slate-200 hover:border-indigo-200'
                           }`}
                         >
-                          <div className="flex items-center gap-3 overflow-hidden">
-                            <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${
-                              file.status === 'success' ? 'bg-green-100 text-green-600' :
-                              file.status === 'error' ? 'bg-red-100 text-red-600' :
-                              file.status === 'processing' ? 'bg-indigo-100 text-indigo-600' :
-                              'bg-slate-100 text-slate-500'
-                            }`}>
-                              {file.status === 'success' ? <Check size={16} /> :
-                               file.status === 'error' ? <AlertCircle size={16} /> :
-                               file.status === 'processing' ? <Loader2 size={16} className="animate-spin" /> :
-                               <FileIcon size={16} />}
+                          <div 
+                            onClick={() => setState(prev => ({ ...prev, activeFileId: file.id }))}
+                            className="p-3 flex items-center justify-between cursor-pointer"
+                          >
+                            <div className="flex items-center gap-3 overflow-hidden">
+                              <input
+                                type="checkbox"
+                                className="accent-indigo-600 shrink-0"
+                                checked={selectedFileIds.includes(file.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={() => toggleFileSelection(file.id)}
+                              />
+                              <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${
+                                file.status === 'success' ? 'bg-green-100 text-green-600' :
+                                file.status === 'error' ? 'bg-red-100 text-red-600' :
+                                file.status === 'processing' ? 'bg-indigo-100 text-indigo-600' :
+                                file.status === 'cancelled' ? 'bg-amber-100 text-amber-600' :
+                                'bg-slate-100 text-slate-500'
+                              }`}>
+                                {file.status === 'success' ? <Check size={16} /> :
+                                 file.status === 'error' ? <AlertCircle size={16} /> :
+                                 file.status === 'processing' ? <Loader2 size={16} className="animate-spin" /> :
+                                 file.status === 'cancelled' ? <Ban size={16} /> :
+                                 <FileIcon size={16} />}
+                              </div>
+                              <div className="min-w-0">
+                                <p className={`text-sm font-medium truncate ${state.activeFileId === file.id ? 'text-indigo-900' : 'text-slate-700'}`}>
+                                  {file.file.name}
+                                </p>
+                                <p className="text-xs text-slate-400">
+                                  {(file.file.size / 1024).toFixed(0)} KB • {
+                                    file.status === 'idle' ? (file.retryAt ? `等待重试 (已尝试 ${file.attempts} 次)` : '等待中') : 
+                                    file.status === 'processing'
+                                      ? (file.chunkProgress ? `处理中 (分块 ${file.chunkProgress.completed}/${file.chunkProgress.total})` : '处理中...') +
+                                        (file.attempts && file.attempts > 1 ? ` 第 ${file.attempts} 次尝试` : '') :
+                                    file.status === 'success' ? (file.cachedAt ? '完成 (缓存)' : '完成') :
+                                    file.status === 'cancelled' ? '已取消' :
+                                    `失败${file.attempts && file.attempts > 1 ? ` (已尝试 ${file.attempts} 次)` : ''}`
+                                  }
+                                  {file.status === 'success' && file.cachedAt && (
+                                    <span className="text-emerald-600" title={`结果取自 ${new Date(file.cachedAt).toLocaleString('zh-CN')} 的转换缓存，未调用模型`}> • 缓存命中</span>
+                                  )}
+                                  {file.formatOverride && <span className="text-indigo-500"> • → {file.formatOverride}</span>}
+                                  {file.instructionsOverride && <span className="text-indigo-500"> • 自定义指令</span>}
+                                  {file.encodingOverride
+                                    ? <span className="text-indigo-500"> • {file.encodingOverride.toUpperCase()}</span>
+                                    : file.detectedEncoding && file.detectedEncoding !== 'utf-8' && ` • ${file.detectedEncoding.toUpperCase()}`}
+                                  {file.versions && file.versions.length > 0 && ` • ${file.versions.length} 个旧版本`}
+                                  {file.usage
+                                    ? ` • ${formatTokens(file.usage.inputTokens + file.usage.outputTokens)} tokens · ${formatCost(file.cost ?? null)}`
+                                    : file.estimate && ` • 预计 ${formatTokens(file.estimate.inputTokens + file.estimate.outputTokens)} tokens`}
+                                </p>
+                              </div>
                             </div>
-                            <div className="min-w-0">
-                              <p className={`text-sm font-medium truncate ${state.activeFileId === file.id ? 'text-indigo-900' : 'text-slate-700'}`}>
-                                {file.file.name}
-                              </p>
-                              <p className="text-xs text-slate-400">
-                                {(file.file.size / 1024).toFixed(0)} KB • {
-                                  file.status === 'idle' ? '等待中' : 
-                                  file.status === 'processing' ? '处理中...' :
-                                  file.status === 'success' ? '完成' : '失败'
-                                }
-                              </p>
+                            <div className="flex items-center shrink-0">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setEditingFileId(editingFileId === file.id ? null : file.id);
+                                }}
+                                className={`p-1.5 rounded-md transition-colors ${
+                                  editingFileId === file.id || file.formatOverride || file.instructionsOverride || file.encodingOverride
+                                    ? 'text-indigo-600 bg-indigo-50'
+                                    : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'
+                                }`}
+                                title="单独设置此文件的格式、编码与指令"
+                              >
+                                <SlidersHorizontal size={16} />
+                              </button>
+                              {file.status === 'success' && file.cachedAt && (
+                                <button
+                                  onClick={(e) => handleRetryFile(file.id, e, true)}
+                                  className="p-1.5 text-emerald-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                                  title="忽略缓存，强制调用模型重新转换"
+                                >
+                                  <Zap size={16} />
+                                </button>
+                              )}
+                              {(file.status === 'error' || file.status === 'cancelled' || file.status === 'success') && (
+                                <button
+                                  onClick={(e) => handleRetryFile(file.id, e)}
+                                  className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                                  title={file.status === 'success' ? '按当前设置重新转换 (保留旧版本)' : '重试此文件'}
+                                >
+                                  <RefreshCw size={16} />
+                                </button>
+                              )}
+                              <button 
+                                onClick={(e) => removeFile(file.id, e)}
+                                className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                              >
+                                <X size={16} />
+                              </button>
                             </div>
                           </div>
-                          <button 
-                            onClick={(e) => removeFile(file.id, e)}
-                            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
-                          >
-                            <X size={16} />
-                          </button>
+                          {editingFileId === file.id && (
+                            <div className="px-3 pb-3">
+                              <OverrideFields
+                                value={{ formatOverride: file.formatOverride, instructionsOverride: file.instructionsOverride, encodingOverride: file.encodingOverride }}
+                                onChange={(overrides) => applyOverrides([file.id], overrides)}
+                                showEncoding={isTextFile(file.file)}
+                                detectedEncoding={file.detectedEncoding}
+                              />
+                            </div>
+                          )}
                         </div>
                       ))}
                    </div>
@@ -398,7 +1199,8 @@ const App: React.FC = () => {
                   <p className="text-slate-900 font-medium mb-1">点击上传或拖拽文件</p>
                   <p className="text-xs text-slate-500 max-w-[240px] text-center">
                     支持多文件批量处理<br/>
-                    PDF, DOCX, 文本, 图片, CSV (最大 5MB)
+                    PDF, DOCX, Excel/ODS, PPTX, EPUB, 文本, 图片, CSV<br/>
+                    长文本与 PDF 自动分块 (最大 50MB)，其他文件最大 5MB
                   </p>
                 </div>
               )}
@@ -419,7 +1221,21 @@ const App: React.FC = () => {
         <div className="space-y-4 shrink-0">
           {/* Target Format */}
           <div>
-            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">目标格式</label>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">目标格式</label>
+              <PresetBar
+                presets={presets}
+                selectedId={selectedPresetId}
+                onSelect={applyPreset}
+                onSave={handleSavePreset}
+                onDelete={id => {
+                  updatePresets(presets.filter(p => p.id !== id));
+                  setSelectedPresetId('');
+                }}
+                onImport={handleImportPresets}
+                onError={message => setState(prev => ({ ...prev, error: message }))}
+              />
+            </div>
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
               {Object.values(TargetFormat).map((format) => (
                 <button
@@ -440,19 +1256,31 @@ const App: React.FC = () => {
           {/* Settings */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
-                {state.inputMode === 'file' ? '文件名 (批量模式使用原名)' : '输出文件名 (可选)'}
-              </label>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">输出文件名模板 (可选)</label>
               <input
                 type="text"
-                disabled={state.inputMode === 'file'}
-                className={`w-full p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm ${
-                  state.inputMode === 'file' ? 'opacity-50 cursor-not-allowed text-slate-400' : ''
-                }`}
-                placeholder={state.inputMode === 'file' ? "自动使用原文件名" : "默认为 'convert-result'"}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm"
+                placeholder={state.inputMode === 'file' ? `默认为 '${DEFAULT_BATCH_TEMPLATE}'` : `默认为 '${DEFAULT_TEXT_FILENAME}'`}
                 value={state.customFilename}
                 onChange={(e) => setState(prev => ({ ...prev, customFilename: e.target.value }))}
               />
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {FILENAME_PLACEHOLDERS.map(({ token, description }) => (
+                  <button
+                    key={token}
+                    onClick={() => setState(prev => ({ ...prev, customFilename: prev.customFilename + token }))}
+                    className="px-1.5 py-0.5 bg-slate-100 hover:bg-indigo-50 hover:text-indigo-600 text-slate-500 rounded text-[11px] font-mono transition-colors"
+                    title={description}
+                  >
+                    {token}
+                  </button>
+                ))}
+              </div>
+              {filenamePreview.length > 0 && (
+                <p className="mt-1 text-xs text-slate-400 truncate" title={filenamePreview.join('\n')}>
+                  预览：{filenamePreview.slice(0, 3).join('，')}{filenamePreview.length > 3 && ` 等 ${filenamePreview.length} 个`}
+                </p>
+              )}
             </div>
             <div>
               <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">特殊指令 (可选)</label>
@@ -465,6 +1293,97 @@ const App: React.FC = () => {
               />
             </div>
           </div>
+
+          {state.targetFormat === TargetFormat.JSON && (
+            <SchemaEditor
+              value={state.jsonSchema}
+              onChange={jsonSchema => setState(prev => ({ ...prev, jsonSchema }))}
+              sampleOutput={currentDisplayedResult}
+            />
+          )}
+
+          {state.targetFormat === TargetFormat.CSV && (
+            <CsvOptionsFields
+              value={state.csvOptions}
+              onChange={csvOptions => setState(prev => ({ ...prev, csvOptions }))}
+            />
+          )}
+
+          {state.targetFormat === TargetFormat.SQL && (
+            <SqlOptionsFields
+              value={state.sqlOptions}
+              onChange={sqlOptions => setState(prev => ({ ...prev, sqlOptions }))}
+            />
+          )}
+
+          <RedactionFields
+            value={state.redaction}
+            onChange={redaction => setState(prev => ({ ...prev, redaction }))}
+          />
+
+          {/* Provider */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">转换服务</label>
+              <select
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm"
+                value={state.provider.id}
+                onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              >
+                {PROVIDER_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">模型</label>
+              <input
+                type="text"
+                disabled={state.provider.id === 'mock' || state.provider.id === 'proxy'}
+                className={`w-full p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm font-mono ${
+                  state.provider.id === 'mock' || state.provider.id === 'proxy' ? 'opacity-50 cursor-not-allowed text-slate-400' : ''
+                }`}
+                value={state.provider.model}
+                onChange={(e) => setState(prev => ({ ...prev, provider: { ...prev.provider, model: e.target.value } }))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">温度 ({state.temperature.toFixed(1)})</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.1}
+                className="w-full accent-indigo-600"
+                value={state.temperature}
+                onChange={(e) => setState(prev => ({ ...prev, temperature: Number(e.target.value) }))}
+              />
+            </div>
+            {state.provider.id === 'openai' && (
+              <>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">接口地址</label>
+                  <input
+                    type="text"
+                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm font-mono"
+                    placeholder="http://localhost:11434/v1"
+                    value={state.provider.baseUrl}
+                    onChange={(e) => setState(prev => ({ ...prev, provider: { ...prev.provider, baseUrl: e.target.value } }))}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">API Key (可选)</label>
+                  <input
+                    type="password"
+                    className="w-full p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm font-mono"
+                    placeholder="本地服务通常无需填写"
+                    value={state.provider.apiKey}
+                    onChange={(e) => setState(prev => ({ ...prev, provider: { ...prev.provider, apiKey: e.target.value } }))}
+                  />
+                </div>
+              </>
+            )}
+          </div>
         </div>
 
         {/* Action Button */}
@@ -476,26 +1395,110 @@ const App: React.FC = () => {
             </div>
           )}
 
-          <button
-            onClick={handleConvert}
-            disabled={state.status === 'processing'}
-            className="w-full py-4 bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-700 hover:to-blue-700 text-white rounded-xl font-semibold shadow-lg shadow-indigo-200 flex items-center justify-center gap-2 transition-all active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed"
-          >
-            {state.status === 'processing' ? (
-              <>
-                <Loader2 className="animate-spin" size={20} />
-                {state.inputMode === 'file' ? '队列处理中...' : '转换中...'}
-              </>
-            ) : (
-              <>
-                {state.inputMode === 'file' && state.batchFiles.some(f => f.status === 'success' || f.status === 'error') ? '重新开始 / 继续' : '开始转换'}
-                <ArrowRight size={20} />
-              </>
+          <div className="flex items-center justify-between gap-3 text-xs text-slate-500">
+            <div className="flex items-center gap-2 min-w-0">
+              <button
+                onClick={handleEstimate}
+                disabled={estimating || state.status === 'processing' || (state.inputMode === 'text' ? !state.inputText.trim() : state.batchFiles.length === 0)}
+                className="px-2.5 py-1 border border-slate-200 hover:border-indigo-300 hover:text-indigo-600 rounded-md flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+                title="按当前设置统计输入 token 并估算费用 (假设输出与输入等长)"
+              >
+                {estimating ? <Loader2 size={12} className="animate-spin" /> : <Calculator size={12} />} 估算费用
+              </button>
+              {pendingEstimate && (
+                <span className="truncate">
+                  预计 ≈ {formatTokens(pendingEstimate.inputTokens + pendingEstimate.outputTokens)} tokens · {formatCost(estimateCost(pendingEstimate, state.provider.id, state.provider.model))}
+                  {estimatedCount < pendingCount && ` (已估算 ${estimatedCount}/${pendingCount} 个文件)`}
+                </span>
+              )}
+            </div>
+            <label className="flex items-center gap-1.5 shrink-0 cursor-pointer" title="只组装并显示将要发送的请求，不调用模型">
+              <input
+                type="checkbox"
+                className="accent-indigo-600"
+                checked={dryRun}
+                onChange={(e) => {
+                  setDryRun(e.target.checked);
+                  if (!e.target.checked) setInspection(null);
+                }}
+              />
+              仅预览请求
+            </label>
+            <label className="flex items-center gap-1.5 shrink-0" title="本次会话的费用上限，超出前将暂停队列；留空表示不限制">
+              预算上限 $
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                className="w-20 px-1.5 py-0.5 bg-white border border-slate-200 rounded text-slate-700 font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                placeholder="不限"
+                value={budgetUsd ?? ''}
+                onChange={(e) => handleBudgetChange(e.target.value)}
+              />
+            </label>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleConvert}
+              disabled={state.status === 'processing' || estimating}
+              className="flex-1 py-4 bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-700 hover:to-blue-700 text-white rounded-xl font-semibold shadow-lg shadow-indigo-200 flex items-center justify-center gap-2 transition-all active:scale-[0.98] disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {state.status === 'processing' ? (
+                <>
+                  {queuePaused ? <Pause size={20} /> : <Loader2 className="animate-spin" size={20} />}
+                  {state.inputMode === 'file' ? (queuePaused ? '队列已暂停' : '队列处理中...') : '转换中...'}
+                </>
+              ) : dryRun ? (
+                <>
+                  预览请求 (不发送)
+                  <Eye size={20} />
+                </>
+              ) : (
+                <>
+                  {state.inputMode === 'file' && state.batchFiles.some(f => f.status === 'success' || f.status === 'error' || f.status === 'cancelled') ? '重新开始 / 继续' : '开始转换'}
+                  <ArrowRight size={20} />
+                </>
+              )}
+            </button>
+            {state.status === 'processing' && state.inputMode === 'file' && (
+              <button
+                onClick={handleTogglePause}
+                className="px-5 py-4 bg-white border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50 text-slate-600 hover:text-indigo-600 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all active:scale-[0.98]"
+                title={queuePaused ? '继续处理队列' : '暂停启动新的文件，进行中的文件会继续完成'}
+              >
+                {queuePaused ? <Play size={16} /> : <Pause size={16} />}
+                {queuePaused ? '继续' : '暂停'}
+              </button>
             )}
-          </button>
+            {state.status === 'processing' && (
+              <button
+                onClick={handleCancel}
+                className="px-5 py-4 bg-white border border-slate-200 hover:border-red-300 hover:bg-red-50 text-slate-600 hover:text-red-600 rounded-xl font-semibold flex items-center justify-center gap-2 transition-all active:scale-[0.98]"
+                title="取消转换"
+              >
+                <Square size={16} />
+                {state.inputMode === 'file' ? '全部取消' : '取消'}
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
+      <HistorySidebar
+        open={historyOpen}
+        refreshKey={historyVersion}
+        onClose={() => setHistoryOpen(false)}
+        onRestore={entry => loadHistoryEntry(entry, true)}
+        onRerun={entry => loadHistoryEntry(entry, false)}
+      />
+
+      <CacheSidebar
+        open={cacheOpen}
+        refreshKey={cacheVersion}
+        onClose={() => setCacheOpen(false)}
+      />
+
       {/* RIGHT PANEL: OUTPUT */}
       <div className="w-full md:w-1/2 bg-slate-900 text-slate-100 p-6 md:p-8 flex flex-col h-screen overflow-hidden">
         {/* Toolbar */}
@@ -509,6 +1512,46 @@ const App: React.FC = () => {
             )}
           </div>
           <div className="flex gap-2">
+            {state.inputMode === 'file' && activeFileItem?.versions && activeFileItem.versions.length > 0 && (
+              <select
+                className="mr-2 px-2 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-xs text-slate-300 outline-none"
+                value={viewedVersion ? versionView!.index : -1}
+                onChange={(e) => {
+                  const index = Number(e.target.value);
+                  setVersionView(index < 0 ? null : { fileId: activeFileItem.id, index });
+                }}
+                title="查看此文件的历史版本"
+              >
+                <option value={-1}>当前结果</option>
+                {activeFileItem.versions.map((version, i) => (
+                  <option key={i} value={i}>
+                    v{i + 1} · {version.targetFormat} · {new Date(version.completedAt).toLocaleTimeString('zh-CN')}
+                  </option>
+                ))}
+              </select>
+            )}
+            {hasPreview(displayedFormat) && (
+              <div className="flex p-0.5 bg-slate-800 rounded-lg mr-2">
+                <button
+                  onClick={() => setViewMode('source')}
+                  className={`px-2.5 py-1.5 rounded-md text-xs font-medium flex items-center gap-1 transition-colors ${
+                    viewMode === 'source' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+                  }`}
+                  title="查看源码"
+                >
+                  <Code size={14} /> 源码
+                </button>
+                <button
+                  onClick={() => setViewMode('preview')}
+                  className={`px-2.5 py-1.5 rounded-md text-xs font-medium flex items-center gap-1 transition-colors ${
+                    viewMode === 'preview' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+                  }`}
+                  title="渲染预览"
+                >
+                  <Eye size={14} /> 预览
+                </button>
+              </div>
+            )}
             <button
               onClick={handleCopy}
               disabled={!currentDisplayedResult}
@@ -525,35 +1568,141 @@ const App: React.FC = () => {
             >
               <Download size={20} />
             </button>
+            {state.inputMode === 'file' && (
+              <button
+                onClick={handleDownloadAll}
+                disabled={archiving || !state.batchFiles.some(f => f.status === 'success')}
+                className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title="全部下载 (ZIP，含 manifest.json)"
+              >
+                {archiving ? <Loader2 size={20} className="animate-spin" /> : <FileArchive size={20} />}
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Validation Status */}
+        {currentDisplayedResult && currentValidation && (
+          <div className={`mb-3 px-3 py-2 rounded-lg text-xs flex items-start gap-2 shrink-0 ${
+            currentValidation.valid ? 'bg-green-500/10 text-green-400' : 'bg-amber-500/10 text-amber-400'
+          }`}>
+            {currentValidation.valid ? <ShieldCheck size={14} className="mt-0.5 shrink-0" /> : <ShieldAlert size={14} className="mt-0.5 shrink-0" />}
+            <div className="min-w-0">
+              {currentValidation.valid ? '格式校验通过' : `格式校验未通过：${currentValidation.error}`}
+              {currentValidation.repairAttempts > 0 && ` (已自动修复 ${currentValidation.repairAttempts} 次)`}
+              {currentValidation.fieldErrors && (
+                <ul className="mt-1 max-h-24 overflow-y-auto font-mono space-y-0.5">
+                  {currentValidation.fieldErrors.map((fieldError, i) => (
+                    <li key={i}><span className="text-amber-200">{fieldError.path}</span> {fieldError.message}</li>
+                  ))}
+                </ul>
+              )}
+              {currentValidation.sqlCheck && (
+                <p className="mt-1 text-slate-400">
+                  SQLite 试运行：{currentValidation.sqlCheck.statements} 条语句
+                  {currentValidation.sqlCheck.tables.map(t => `，${t.name} ${t.rows} 行`).join('')}
+                  {currentValidation.sqlCheck.translated && '（已将方言语法转换为 SQLite 后运行）'}
+                </p>
+              )}
+              {currentValidation.sqlCheck && currentValidation.sqlCheck.errors.length > 1 && (
+                <ul className="mt-1 max-h-24 overflow-y-auto font-mono space-y-0.5">
+                  {currentValidation.sqlCheck.errors.map((sqlError, i) => (
+                    <li key={i}><span className="text-amber-200">#{sqlError.statement} L{sqlError.line}</span> {sqlError.message}</li>
+                  ))}
+                </ul>
+              )}
+              {currentValidation.checkSkipped && (
+                <p className="mt-1 text-amber-300">{currentValidation.checkSkipped}</p>
+              )}
+              {currentValidation.codeCheck && (
+                <p className="mt-1 text-slate-400">
+                  {currentValidation.codeCheck.checker} 类型检查：
+                  {currentValidation.codeCheck.errors.length > 0 ? `${currentValidation.codeCheck.errors.length} 处错误` : '无错误'}
+                </p>
+              )}
+              {currentValidation.codeCheck && currentValidation.codeCheck.errors.length > 1 && (
+                <ul className="mt-1 max-h-24 overflow-y-auto font-mono space-y-0.5">
+                  {currentValidation.codeCheck.errors.map((codeError, i) => (
+                    <li key={i}><span className="text-amber-200">L{codeError.line}:{codeError.column}</span> {codeError.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Redaction audit */}
+        {currentDisplayedResult && currentRedaction && (
+          <div className="mb-3 px-3 py-2 rounded-lg text-xs flex items-start gap-2 shrink-0 bg-indigo-500/10 text-indigo-300">
+            <EyeOff size={14} className="mt-0.5 shrink-0" />
+            <div className="min-w-0">
+              {currentRedaction.entries.length === 0
+                ? '已开启脱敏，未发现需要替换的个人信息'
+                : `已脱敏 ${currentRedaction.entries.length} 个值（${Object.entries(
+                    currentRedaction.entries.reduce<Record<string, number>>((counts, e) => ({ ...counts, [e.rule]: (counts[e.rule] || 0) + 1 }), {})
+                  ).map(([rule, count]) => `${rule} ${count}`).join('，')}），结果中已还原`}
+              {currentRedaction.missing.length > 0 && `；${currentRedaction.missing.length} 个占位符未出现在结果中`}
+              {currentRedaction.entries.length > 0 && (
+                <ul className="mt-1 max-h-24 overflow-y-auto font-mono space-y-0.5">
+                  {currentRedaction.entries.map(entry => (
+                    <li key={entry.placeholder} className={currentRedaction.missing.includes(entry.placeholder) ? 'text-amber-400' : ''}>
+                      <span className="text-indigo-200">{entry.placeholder}</span> {entry.rule} {entry.preview}
+                      {entry.occurrences > 1 && ` ×${entry.occurrences}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Output Area */}
         <div className="flex-1 relative rounded-xl bg-slate-950/50 border border-slate-800 overflow-hidden shadow-inner">
-          {/* Case 1: Active File is Processing */}
-          {state.inputMode === 'file' && activeFileItem?.status === 'processing' ? (
+          {/* Case 0: Dry-run request preview */}
+          {inspection ? (
+            <PromptInspector inspection={inspection.data} sourceName={inspection.sourceName} onClose={() => setInspection(null)} />
+          ) :
+          /* Case 1: Active File is Processing (nothing streamed yet) */
+          state.inputMode === 'file' && activeFileItem?.status === 'processing' && !activeFileItem.result ? (
              <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 gap-4">
                <Loader2 size={40} className="animate-spin text-indigo-500" />
                <p className="animate-pulse font-medium">正在分析文件...</p>
-               <p className="text-xs">文件越大，处理时间越长</p>
+               <p className="text-xs">
+                 {activeFileItem.chunkProgress
+                   ? `长文档分块处理中：已完成 ${activeFileItem.chunkProgress.completed}/${activeFileItem.chunkProgress.total}`
+                   : '文件越大，处理时间越长'}
+               </p>
              </div>
           ) : 
-          /* Case 2: Text Mode Processing */
-          state.inputMode === 'text' && state.status === 'processing' ? (
+          /* Case 2: Text Mode Processing (nothing streamed yet) */
+          state.inputMode === 'text' && state.status === 'processing' && !state.textResult ? (
             <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 gap-4">
               <Loader2 size={40} className="animate-spin text-indigo-500" />
               <p className="animate-pulse font-medium">正在转换...</p>
             </div>
           ) :
-          /* Case 3: Show Result */
+          /* Case 3: Show Result (live while streaming) */
           currentDisplayedResult ? (
-            <textarea
-              readOnly
-              className="w-full h-full p-6 bg-transparent outline-none resize-none font-mono text-sm leading-relaxed text-slate-300 selection:bg-indigo-500/30"
-              value={currentDisplayedResult}
-            />
+            showPreview ? (
+              <OutputPreview content={currentDisplayedResult} format={displayedFormat} />
+            ) : (
+              <textarea
+                ref={outputRef}
+                readOnly
+                className="w-full h-full p-6 bg-transparent outline-none resize-none font-mono text-sm leading-relaxed text-slate-300 selection:bg-indigo-500/30"
+                value={currentDisplayedResult}
+              />
+            )
           ) :
-          /* Case 4: File Error */
+          /* Case 4: File waiting for a retry */
+          state.inputMode === 'file' && activeFileItem?.status === 'idle' && activeFileItem.retryAt ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-amber-400 gap-4 p-8 text-center">
+              <RefreshCw size={40} />
+              <p className="font-medium">等待自动重试 (已尝试 {activeFileItem.attempts} 次)</p>
+              <p className="text-xs opacity-70">{activeFileItem.error}</p>
+            </div>
+          ) :
+          /* Case 5: File Error */
           state.inputMode === 'file' && activeFileItem?.status === 'error' ? (
             <div className="absolute inset-0 flex flex-col items-center justify-center text-red-500 gap-4 p-8 text-center">
               <AlertCircle size={40} />
@@ -561,7 +1710,14 @@ const App: React.FC = () => {
               <p className="text-xs opacity-70">{activeFileItem.error || '未知错误'}</p>
             </div>
           ) :
-          /* Case 5: Idle / Empty */
+          /* Case 6: Cancelled before any output */
+          (state.inputMode === 'file' ? activeFileItem?.status === 'cancelled' : state.status === 'cancelled') ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-amber-500 gap-4 p-8 text-center">
+              <Ban size={40} />
+              <p className="font-medium">转换已取消</p>
+            </div>
+          ) :
+          /* Case 7: Idle / Empty */
           (
             <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-600 gap-4 p-8 text-center">
               <div className="w-16 h-16 rounded-2xl border-2 border-dashed border-slate-700 flex items-center justify-center">
@@ -579,8 +1735,13 @@ const App: React.FC = () => {
         
         {/* Footer Info */}
         <div className="mt-4 flex justify-between items-center text-xs text-slate-600 font-mono shrink-0">
-          <span>{currentDisplayedResult ? `${currentDisplayedResult.length} 字符` : '0 字符'}</span>
-          <span>由 Gemini 2.5 Flash 驱动</span>
+          <span title={`输入 ${sessionUsage.usage.inputTokens} tokens，输出 ${sessionUsage.usage.outputTokens} tokens`}>
+            {currentDisplayedResult ? `${currentDisplayedResult.length} 字符` : '0 字符'}
+            {' · '}会话 {formatTokens(sessionUsage.usage.inputTokens + sessionUsage.usage.outputTokens)} tokens · {formatCost(sessionUsage.cost)}
+            {sessionUsage.unpriced && ' + 未计价用量'}
+            {budgetUsd !== null && ` / 预算 ${formatCost(budgetUsd)}`}
+          </span>
+          <span>由 {PROVIDER_OPTIONS.find(p => p.id === state.provider.id)?.label} · {state.provider.model} 驱动</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,79 @@
+import { readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Minimal glob expansion so quoted patterns work the same on every shell,
+ * including Windows. Supports *, ?, ** and {a,b}; hidden files and
+ * node_modules are skipped unless named explicitly.
+ */
+
+const MAGIC = /[*?{]/;
+
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches zero directories
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end < 0) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, end).split(',');
+      source += `(?:${options.map(o => o.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')).join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\}]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string, prefix: string, depth: number, out: string[]) => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory() && depth > 1) await walk(join(dir, entry.name), relative, depth - 1, out);
+    else if (entry.isFile()) out.push(relative);
+  }
+};
+
+/**
+ * Files matching the pattern, sorted. A pattern without wildcards is
+ * returned as-is when the file exists.
+ */
+export const expandGlob = async (pattern: string): Promise<string[]> => {
+  const normalized = pattern.replace(/\\/g, '/');
+  if (!MAGIC.test(normalized)) {
+    const info = await stat(normalized).catch(() => null);
+    return info?.isFile() ? [normalized] : [];
+  }
+
+  // Only walk below the part of the pattern that has no wildcards
+  const segments = normalized.split('/');
+  const firstMagic = segments.findIndex(s => MAGIC.test(s));
+  const base = segments.slice(0, firstMagic).join('/');
+  const rest = segments.slice(firstMagic).join('/');
+  const matcher = globToRegExp(rest);
+  const depth = rest.includes('**') ? Infinity : segments.length - firstMagic;
+
+  const files: string[] = [];
+  const root = base || '.';
+  const info = await stat(root).catch(() => null);
+  if (!info?.isDirectory()) return [];
+  await walk(root, '', depth, files);
+  return files
+    .filter(file => matcher.test(file))
+    .map(file => (base ? `${base}/${file}` : file))
+    .sort();
+};
@@ -0,0 +1,335 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { parseArgs } from "node:util";
+import { CsvOptions, ProviderId, RedactionOptions, TargetFormat, TextEncodingId, TokenUsage } from "../types";
+import { convertDocument, estimateConversion } from "../services/conversionService";
+import { createBatchQueue, DEFAULT_CONCURRENCY, MAX_CONCURRENCY } from "../services/batchQueue";
+import { CSV_QUOTE_OPTIONS, DEFAULT_CSV_OPTIONS, normalizeCsvOptions } from "../services/csvDialect";
+import { DEFAULT_BATCH_TEMPLATE, dedupeFilename, renderFilenameTemplate, splitFilename } from "../services/filenameTemplate";
+import { JsonSchema, parseJsonSchema } from "../services/jsonSchema";
+import { buildOutputData, getOutputFileType } from "../services/outputFiles";
+import { DEFAULT_TEMPERATURE } from "../services/prompt";
+import { compileRedactionPattern, DEFAULT_REDACTION_OPTIONS, REDACTION_RULE_OPTIONS } from "../services/redaction";
+import { DEFAULT_SQL_OPTIONS, normalizeSqlOptions, SQL_DIALECT_OPTIONS } from "../services/sqlDialect";
+import { TEXT_ENCODINGS } from "../services/textEncoding";
+import { createProvider, DEFAULT_PROVIDER_SETTINGS, PROVIDER_OPTIONS } from "../services/providers";
+import { addUsage, EMPTY_USAGE, estimateCost } from "../services/usage";
+import { expandGlob } from "./glob";
+
+/**
+ * Headless converter for build pipelines, running the same conversion logic
+ * as the web app. Progress is written to stdout as JSON lines.
+ *
+ *   npm run cli -- convert "docs/*.pdf" --to json --out dist/
+ */
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // At least one file failed or produced invalid output
+const EXIT_USAGE = 2;
+const EXIT_INTERRUPTED = 130;
+
+// The server proxy needs the web app's origin, so the CLI calls models directly
+const LOCAL_PROVIDERS = PROVIDER_OPTIONS.filter(p => p.id !== 'proxy');
+
+const USAGE = `用法: uniconvert convert <文件或通配符...> --to <格式> [选项]
+
+选项:
+  --to <格式>             目标格式: ${Object.keys(TargetFormat).map(k => k.toLowerCase()).join(', ')}
+  --instructions <文本>   特殊指令
+  --out <目录>            输出目录 (默认为当前目录)
+  --template <模板>       输出文件名模板 (默认为 '${DEFAULT_BATCH_TEMPLATE}')
+  --concurrency <n>       同时转换的文件数 (默认为 ${DEFAULT_CONCURRENCY})
+  --provider <服务>       ${LOCAL_PROVIDERS.map(p => p.id).join(' | ')} (默认为 gemini)
+  --model <模型>          模型名称
+  --base-url <地址>       OpenAI 兼容接口地址
+  --api-key <密钥>        OpenAI 兼容接口密钥 (也可用 OPENAI_API_KEY)
+  --temperature <t>       采样温度 (默认为 ${DEFAULT_TEMPERATURE})
+  --schema <文件>         JSON 输出需遵循的 JSON Schema
+  --sql-dialect <方言>    SQL 方言: ${SQL_DIALECT_OPTIONS.map(d => d.id).join(' | ')} (默认为 ${DEFAULT_SQL_OPTIONS.dialect})
+  --sql-table <表名>      SQL 表名 (默认为 ${DEFAULT_SQL_OPTIONS.tableName})
+  --sql-batch <n>         每条 INSERT 的行数 (默认为 ${DEFAULT_SQL_OPTIONS.batchSize})
+  --sql-no-create         不生成 CREATE TABLE 语句
+  --csv-delimiter <d>     CSV 分隔符: comma | semicolon | tab | pipe (默认为 comma)
+  --csv-quote <方式>      CSV 引号: ${CSV_QUOTE_OPTIONS.map(q => q.id).join(' | ')} (默认为 minimal)
+  --csv-crlf              CSV 使用 CRLF 换行
+  --csv-bom               CSV 文件开头写入 UTF-8 BOM，便于 Excel 识别中文
+  --encoding <编码>       文本输入的编码: ${TEXT_ENCODINGS.map(e => e.id).join(' | ')} (默认自动检测)
+  --redact                发送前在本地将个人信息替换为占位符，并在输出中还原
+  --redact-rules <规则>   脱敏规则，逗号分隔: ${REDACTION_RULE_OPTIONS.map(r => r.id).join(', ')} (默认为 ${DEFAULT_REDACTION_OPTIONS.rules.join(', ')})
+  --redact-pattern <正则> 额外的脱敏正则表达式，可重复指定
+  --redact-terms <文件>   脱敏词典，每行一个词 (如姓名、公司名)
+  --dry-run               只列出待转换文件、输出路径与预计 token 用量，不进行转换
+  -h, --help              显示帮助
+
+Gemini 使用环境变量 GEMINI_API_KEY。
+退出码: 0 全部成功，1 有文件失败或输出未通过校验，2 参数错误，130 被中断。`;
+
+// Extra spellings accepted by --to besides the enum key names
+const FORMAT_ALIASES: Record<string, TargetFormat> = {
+  md: TargetFormat.MARKDOWN,
+  tex: TargetFormat.LATEX,
+  yml: TargetFormat.YAML,
+  word: TargetFormat.DOCX,
+  excel: TargetFormat.XLSX,
+  ts: TargetFormat.TYPESCRIPT,
+  jsonschema: TargetFormat.JSON_SCHEMA,
+  text: TargetFormat.PLAIN_TEXT,
+  txt: TargetFormat.PLAIN_TEXT,
+  mmd: TargetFormat.MERMAID,
+};
+
+// Delimiters by name, since a literal tab or pipe is awkward to pass in a shell
+const CSV_DELIMITERS: Record<string, CsvOptions['delimiter']> = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  pipe: '|',
+};
+
+class UsageError extends Error {}
+
+const parseTargetFormat = (value: string | undefined): TargetFormat => {
+  if (!value) throw new UsageError("缺少 --to 目标格式。");
+  const key = value.toLowerCase().replace(/[\s-]/g, '_');
+  const match = (Object.keys(TargetFormat) as (keyof typeof TargetFormat)[]).find(k => k.toLowerCase() === key);
+  const format = match ? TargetFormat[match] : FORMAT_ALIASES[key];
+  if (!format) throw new UsageError(`不支持的目标格式 "${value}"。`);
+  return format;
+};
+
+const parseNumber = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (isNaN(number)) throw new UsageError(`${name} 必须是数字。`);
+  return number;
+};
+
+const emit = (event: Record<string, unknown>) => {
+  process.stdout.write(`${JSON.stringify(event)}\n`);
+};
+
+const loadFile = async (path: string): Promise<File> =>
+  // No MIME type is given; getMimeType infers it from the extension
+  new File([await readFile(path)], basename(path));
+
+/**
+ * Output filename for every input, unique within the run.
+ */
+const resolveOutputNames = (paths: string[], template: string, format: TargetFormat): string[] => {
+  const taken = new Set<string>();
+  const date = new Date();
+  return paths.map((path, i) => {
+    const base = renderFilenameTemplate(template.trim() || DEFAULT_BATCH_TEMPLATE, {
+      ...splitFilename(basename(path)),
+      format,
+      index: i + 1,
+      date,
+      preset: '',
+    });
+    return dedupeFilename(`${base}.${getOutputFileType(format).extension}`, taken);
+  });
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      to: { type: 'string' },
+      instructions: { type: 'string' },
+      out: { type: 'string' },
+      template: { type: 'string' },
+      concurrency: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      'api-key': { type: 'string' },
+      temperature: { type: 'string' },
+      schema: { type: 'string' },
+      'sql-dialect': { type: 'string' },
+      'sql-table': { type: 'string' },
+      'sql-batch': { type: 'string' },
+      'sql-no-create': { type: 'boolean' },
+      'csv-delimiter': { type: 'string' },
+      'csv-quote': { type: 'string' },
+      'csv-crlf': { type: 'boolean' },
+      'csv-bom': { type: 'boolean' },
+      encoding: { type: 'string' },
+      redact: { type: 'boolean' },
+      'redact-rules': { type: 'string' },
+      'redact-pattern': { type: 'string', multiple: true },
+      'redact-terms': { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  const [command, ...patterns] = positionals;
+  if (command !== 'convert') throw new UsageError(command ? `未知命令 "${command}"。` : "缺少命令。");
+  if (patterns.length === 0) throw new UsageError("请至少指定一个输入文件。");
+
+  const targetFormat = parseTargetFormat(values.to);
+  const instructions = values.instructions || '';
+  const outDir = values.out || '.';
+  const concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, parseNumber(values.concurrency, '--concurrency', DEFAULT_CONCURRENCY)));
+  const temperature = parseNumber(values.temperature, '--temperature', DEFAULT_TEMPERATURE);
+
+  const providerId = (values.provider || 'gemini') as ProviderId;
+  const option = LOCAL_PROVIDERS.find(p => p.id === providerId);
+  if (!option) throw new UsageError(`未知的转换服务 "${values.provider}"。`);
+  // The SDK reads the key from API_KEY, which the web build injects from GEMINI_API_KEY
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+  const provider = createProvider({
+    id: providerId,
+    model: values.model || option.defaultModel,
+    baseUrl: values['base-url'] || DEFAULT_PROVIDER_SETTINGS.baseUrl,
+    apiKey: values['api-key'] || process.env.OPENAI_API_KEY || '',
+  });
+
+  let schema: JsonSchema | undefined;
+  if (values.schema) {
+    schema = parseJsonSchema(await readFile(values.schema, 'utf8'));
+  }
+
+  const dialect = values['sql-dialect'] || DEFAULT_SQL_OPTIONS.dialect;
+  if (!SQL_DIALECT_OPTIONS.some(d => d.id === dialect)) throw new UsageError(`不支持的 SQL 方言 "${dialect}"。`);
+  const sql = normalizeSqlOptions({
+    dialect,
+    tableName: values['sql-table'],
+    batchSize: parseNumber(values['sql-batch'], '--sql-batch', DEFAULT_SQL_OPTIONS.batchSize),
+    createTable: !values['sql-no-create'],
+  });
+
+  const delimiter = CSV_DELIMITERS[values['csv-delimiter'] || 'comma'];
+  if (!delimiter) throw new UsageError(`不支持的 CSV 分隔符 "${values['csv-delimiter']}"。`);
+  const quoteStyle = values['csv-quote'] || DEFAULT_CSV_OPTIONS.quoteStyle;
+  if (!CSV_QUOTE_OPTIONS.some(q => q.id === quoteStyle)) throw new UsageError(`不支持的 CSV 引号方式 "${quoteStyle}"。`);
+  const csv = normalizeCsvOptions({ delimiter, quoteStyle, lineEnding: values['csv-crlf'] ? 'crlf' : 'lf', bom: !!values['csv-bom'] });
+
+  const encoding = values.encoding?.toLowerCase() as TextEncodingId | undefined;
+  if (encoding && !TEXT_ENCODINGS.some(e => e.id === encoding)) throw new UsageError(`不支持的编码 "${values.encoding}"。`);
+
+  // Choosing rules, patterns or terms implies --redact
+  let redaction: RedactionOptions | undefined;
+  if (values.redact || values['redact-rules'] || values['redact-pattern'] || values['redact-terms']) {
+    const rules = values['redact-rules']?.split(',').map(r => r.trim()).filter(Boolean) ?? DEFAULT_REDACTION_OPTIONS.rules;
+    const unknown = rules.find(r => !REDACTION_RULE_OPTIONS.some(o => o.id === r));
+    if (unknown) throw new UsageError(`未知的脱敏规则 "${unknown}"。`);
+    const patterns = values['redact-pattern'] ?? [];
+    try {
+      patterns.forEach(compileRedactionPattern);
+    } catch (error: any) {
+      throw new UsageError(error.message);
+    }
+    const terms = values['redact-terms'] ? (await readFile(values['redact-terms'], 'utf8')).split(/\r?\n/).map(t => t.trim()).filter(Boolean) : [];
+    redaction = { enabled: true, rules: rules as RedactionOptions['rules'], patterns, terms };
+  }
+
+  const paths = Array.from(new Set((await Promise.all(patterns.map(expandGlob))).flat()));
+  if (paths.length === 0) throw new UsageError(`没有找到匹配的文件: ${patterns.join(' ')}`);
+  const outputs = resolveOutputNames(paths, values.template || '', targetFormat).map(name => join(outDir, name));
+
+  if (values['dry-run']) {
+    let total: TokenUsage = EMPTY_USAGE;
+    for (let i = 0; i < paths.length; i++) {
+      try {
+        const estimate = await estimateConversion(await loadFile(paths[i]), targetFormat, instructions, { provider, schema, temperature, sql, csv, encoding, redaction });
+        total = addUsage(total, estimate);
+        emit({ event: 'plan', file: paths[i], output: outputs[i], format: targetFormat, estimate, cost: estimateCost(estimate, providerId, provider.model) });
+      } catch (error: any) {
+        emit({ event: 'plan', file: paths[i], output: outputs[i], format: targetFormat, estimateError: error.message });
+      }
+    }
+    emit({ event: 'summary', dryRun: true, total: paths.length, estimate: total, cost: estimateCost(total, providerId, provider.model) });
+    return EXIT_OK;
+  }
+
+  await mkdir(outDir, { recursive: true });
+  let succeeded = 0;
+  let invalid = 0;
+  let failed = 0;
+  let cancelled = 0;
+  let usage: TokenUsage = EMPTY_USAGE;
+
+  let resolveIdle = () => {};
+  const finished = new Promise<void>(resolve => { resolveIdle = resolve; });
+  const queue = createBatchQueue({
+    concurrency,
+    run: async (id, _attempt, signal) => {
+      const index = Number(id);
+      const result = await convertDocument(await loadFile(paths[index]), targetFormat, instructions, {
+        provider,
+        schema,
+        temperature,
+        sql,
+        csv,
+        encoding,
+        redaction,
+        signal,
+        onChunkProgress: progress => emit({ event: 'chunk', file: paths[index], ...progress }),
+      });
+      const title = basename(outputs[index]).replace(/\.[^.]+$/, '');
+      await writeFile(outputs[index], await buildOutputData(result.text, targetFormat, title, csv.bom));
+      usage = addUsage(usage, result.usage);
+      if (result.validation.valid) succeeded++;
+      else invalid++;
+      emit({
+        event: 'done',
+        file: paths[index],
+        output: outputs[index],
+        valid: result.validation.valid,
+        validationError: result.validation.error ?? null,
+        checkSkipped: result.validation.checkSkipped ?? null,
+        repairAttempts: result.validation.repairAttempts,
+        usage: result.usage ?? null,
+        redaction: result.redaction ?? null,
+      });
+    },
+    onStart: (id, attempt) => emit({ event: 'start', file: paths[Number(id)], attempt }),
+    onRetry: (id, attempt, delayMs, error) => emit({ event: 'retry', file: paths[Number(id)], attempt, delayMs, error: error.message }),
+    onError: (id, error, attempts) => {
+      failed++;
+      emit({ event: 'error', file: paths[Number(id)], attempts, error: error.message });
+    },
+    onCancel: id => {
+      cancelled++;
+      emit({ event: 'cancelled', file: paths[Number(id)] });
+    },
+    onIdle: () => resolveIdle(),
+  });
+
+  let interrupted = false;
+  process.once('SIGINT', () => {
+    interrupted = true;
+    queue.cancelAll();
+  });
+  queue.add(paths.map((_, i) => String(i)));
+  await finished;
+
+  emit({
+    event: 'summary',
+    total: paths.length,
+    succeeded,
+    invalid,
+    failed,
+    cancelled,
+    usage,
+    cost: estimateCost(usage, providerId, provider.model),
+  });
+  if (interrupted) return EXIT_INTERRUPTED;
+  return failed > 0 || invalid > 0 ? EXIT_FAILED : EXIT_OK;
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    // parseArgs reports unknown or malformed options as TypeError
+    const usageError = error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS');
+    console.error(usageError ? `${error.message}\n\n${USAGE}` : `错误: ${error.message || error}`);
+    process.exitCode = usageError ? EXIT_USAGE : EXIT_FAILED;
+  }
+);
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Search, Trash2, Loader2, Database } from 'lucide-react';
+import { CacheEntry } from '../types';
+import {
+  clearCache,
+  deleteCacheEntry,
+  getCacheQuotaMb,
+  listCache,
+  pruneCache,
+  setCacheQuotaMb,
+} from '../services/resultCache';
+
+interface CacheSidebarProps {
+  open: boolean;
+  refreshKey: number; // Bumped by the parent whenever an entry was stored or used
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Slide-over panel listing cached conversion results, with the storage
+ * quota and delete actions.
+ */
+const CacheSidebar: React.FC<CacheSidebarProps> = ({ open, refreshKey, onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [quotaMb, setQuotaMb] = useState(getCacheQuotaMb);
+
+  const reload = async () => {
+    setLoading(true);
+    try {
+      setEntries(await listCache());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || '读取结果缓存失败。');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) reload();
+  }, [open, refreshKey]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(e =>
+      [e.fileName, e.targetFormat, e.instructions, e.model]
+        .some(field => field.toLowerCase().includes(q))
+    );
+  }, [entries, query]);
+
+  const usedBytes = entries.reduce((sum, e) => sum + e.size, 0);
+  const totalHits = entries.reduce((sum, e) => sum + e.hits, 0);
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key);
+    setEntries(prev => prev.filter(e => e.key !== key));
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定要清空全部缓存结果吗？之后相同的文件将重新调用模型转换。')) return;
+    await clearCache();
+    setEntries([]);
+  };
+
+  const handleQuotaChange = async (value: number) => {
+    if (!(value > 0)) return;
+    setQuotaMb(value);
+    setCacheQuotaMb(value);
+    if (await pruneCache(value * 1024 * 1024)) reload();
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/30" onClick={onClose}>
+      <div
+        className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col text-slate-900"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="font-bold">结果缓存</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-md">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-200 space-y-3">
+          <p className="text-xs text-slate-500">
+            相同内容的文件以相同格式、指令、模型和选项再次转换时，直接使用缓存结果，不再调用模型。
+          </p>
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+              placeholder="搜索文件名、格式、指令或模型"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span>{entries.length} 条 • 已命中 {totalHits} 次 • 已用 {formatSize(usedBytes)} / {quotaMb} MB</span>
+            <label className="flex items-center gap-1.5">
+              存储上限
+              <input
+                type="number"
+                min={1}
+                className="w-16 px-1.5 py-0.5 border border-slate-200 rounded font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                value={quotaMb}
+                onChange={e => handleQuotaChange(Number(e.target.value))}
+              />
+              MB
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {loading && entries.length === 0 ? (
+            <div className="flex justify-center py-10 text-slate-400"><Loader2 className="animate-spin" /></div>
+          ) : error ? (
+            <p className="p-4 text-sm text-red-600">{error}</p>
+          ) : filtered.length === 0 ? (
+            <p className="p-4 text-sm text-slate-400 text-center">{entries.length === 0 ? '暂无缓存结果' : '没有匹配的记录'}</p>
+          ) : filtered.map(entry => (
+            <div key={entry.key} className="p-3 rounded-lg border border-slate-200 hover:border-indigo-200 bg-white">
+              <div className="flex items-start gap-2">
+                <div className="w-7 h-7 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center shrink-0">
+                  <Database size={14} />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{entry.fileName}</p>
+                  <p className="text-xs text-slate-400 truncate">
+                    {entry.targetFormat} • {entry.model} • {formatSize(entry.size)} • 命中 {entry.hits} 次
+                  </p>
+                  <p className="text-xs text-slate-400 truncate">
+                    转换于 {new Date(entry.createdAt).toLocaleString('zh-CN')}，最近使用 {new Date(entry.lastUsedAt).toLocaleString('zh-CN')}
+                  </p>
+                  {entry.instructions && <p className="text-xs text-slate-500 truncate mt-0.5">指令：{entry.instructions}</p>}
+                </div>
+                <button
+                  onClick={() => handleDelete(entry.key)}
+                  className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md shrink-0"
+                  title="删除此缓存结果"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {entries.length > 0 && (
+          <div className="p-3 border-t border-slate-200 flex justify-end">
+            <button onClick={handleClear} className="text-xs text-slate-500 hover:text-red-600">清空全部</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CacheSidebar;
@@ -0,0 +1,73 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { parseCsvRows } from '../services/localConverter';
+
+/**
+ * Compares cells numerically when both parse as numbers, otherwise by locale.
+ */
+const compareCells = (a: string, b: string): number => {
+  const na = Number(a);
+  const nb = Number(b);
+  if (a.trim() !== '' && b.trim() !== '' && !isNaN(na) && !isNaN(nb)) return na - nb;
+  return a.localeCompare(b, 'zh-CN');
+};
+
+/**
+ * Table grid for CSV output with click-to-sort column headers.
+ */
+const CsvGrid: React.FC<{ content: string }> = ({ content }) => {
+  const [sort, setSort] = useState<{ column: number; ascending: boolean } | null>(null);
+  const [header, ...body] = useMemo(() => {
+    try {
+      return parseCsvRows(content);
+    } catch {
+      return [];
+    }
+  }, [content]);
+
+  const rows = useMemo(() => {
+    if (!sort) return body;
+    const sorted = [...body].sort((a, b) => compareCells(a[sort.column] ?? '', b[sort.column] ?? ''));
+    return sort.ascending ? sorted : sorted.reverse();
+  }, [body, sort]);
+
+  const toggleSort = (column: number) => {
+    setSort(prev => prev?.column === column ? { column, ascending: !prev.ascending } : { column, ascending: true });
+  };
+
+  if (!header) return <p className="p-6 text-sm text-slate-500">CSV 内容为空</p>;
+
+  return (
+    <div className="overflow-auto h-full">
+      <table className="min-w-full text-sm text-slate-300 border-collapse">
+        <thead className="sticky top-0 bg-slate-900">
+          <tr>
+            {header.map((cell, i) => (
+              <th
+                key={i}
+                onClick={() => toggleSort(i)}
+                className="px-3 py-2 text-left font-semibold text-slate-200 border-b border-slate-700 cursor-pointer select-none whitespace-nowrap hover:bg-slate-800"
+              >
+                <span className="inline-flex items-center gap-1">
+                  {cell}
+                  {sort?.column === i && (sort.ascending ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, r) => (
+            <tr key={r} className="odd:bg-slate-900/40 hover:bg-slate-800/60">
+              {header.map((_, c) => (
+                <td key={c} className="px-3 py-1.5 border-b border-slate-800 whitespace-pre-wrap">{row[c]}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CsvGrid;
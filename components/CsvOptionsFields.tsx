@@ -0,0 +1,62 @@
+import React from 'react';
+import { CsvOptions } from '../types';
+import { CSV_DELIMITER_OPTIONS, CSV_QUOTE_OPTIONS } from '../services/csvDialect';
+
+const selectClass = 'mt-1 w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+/**
+ * Delimiter, quoting, line endings and BOM of CSV output.
+ */
+const CsvOptionsFields: React.FC<{ value: CsvOptions; onChange: (value: CsvOptions) => void }> = ({ value, onChange }) => (
+  <div>
+    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">CSV 选项</label>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+      <label className="text-xs text-slate-500">
+        分隔符
+        <select
+          className={selectClass}
+          value={value.delimiter}
+          onChange={e => onChange({ ...value, delimiter: e.target.value as CsvOptions['delimiter'] })}
+        >
+          {CSV_DELIMITER_OPTIONS.map(d => (
+            <option key={d.id} value={d.id}>{d.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-xs text-slate-500">
+        引号
+        <select
+          className={selectClass}
+          value={value.quoteStyle}
+          onChange={e => onChange({ ...value, quoteStyle: e.target.value as CsvOptions['quoteStyle'] })}
+        >
+          {CSV_QUOTE_OPTIONS.map(q => (
+            <option key={q.id} value={q.id}>{q.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-xs text-slate-500">
+        换行符
+        <select
+          className={selectClass}
+          value={value.lineEnding}
+          onChange={e => onChange({ ...value, lineEnding: e.target.value as CsvOptions['lineEnding'] })}
+        >
+          <option value="lf">LF (Unix / macOS)</option>
+          <option value="crlf">CRLF (Windows)</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer pb-2" title="下载的 CSV 以 UTF-8 BOM 开头，Excel 打开时中文不会乱码">
+        <input
+          type="checkbox"
+          className="accent-indigo-600"
+          checked={value.bom}
+          onChange={e => onChange({ ...value, bom: e.target.checked })}
+        />
+        UTF-8 BOM (Excel)
+      </label>
+    </div>
+  </div>
+);
+
+export default CsvOptionsFields;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+
+interface TreeNodeProps {
+  name?: string;
+  value: unknown;
+  depth: number;
+}
+
+const formatScalar = (value: unknown): { text: string; className: string } => {
+  if (value === null || value === undefined) return { text: 'null', className: 'text-slate-500' };
+  if (typeof value === 'string') return { text: JSON.stringify(value), className: 'text-emerald-300' };
+  if (typeof value === 'number') return { text: String(value), className: 'text-sky-300' };
+  if (typeof value === 'boolean') return { text: String(value), className: 'text-amber-300' };
+  return { text: String(value), className: 'text-slate-300' };
+};
+
+const TreeNode: React.FC<TreeNodeProps> = ({ name, value, depth }) => {
+  const isCollection = value !== null && typeof value === 'object';
+  const [expanded, setExpanded] = useState(depth < 2);
+
+  const label = name !== undefined && <span className="text-indigo-300">{name}: </span>;
+
+  if (!isCollection) {
+    const { text, className } = formatScalar(value);
+    return (
+      <div className="pl-5 py-0.5 break-all">
+        {label}<span className={className}>{text}</span>
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((v, i) => [String(i), v] as const)
+    : Object.entries(value as Record<string, unknown>);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(e => !e)}
+        className="flex items-center gap-1 py-0.5 hover:bg-slate-800/60 rounded w-full text-left"
+      >
+        {expanded ? <ChevronDown size={14} className="text-slate-500 shrink-0" /> : <ChevronRight size={14} className="text-slate-500 shrink-0" />}
+        {label}
+        <span className="text-slate-500">{summary}</span>
+      </button>
+      {expanded && (
+        <div className="ml-2 border-l border-slate-800 pl-2">
+          {entries.map(([key, child]) => (
+            <TreeNode key={key} name={key} value={child} depth={depth + 1} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Collapsible tree view for parsed JSON/YAML/XML data.
+ */
+const DataTree: React.FC<{ data: unknown }> = ({ data }) => (
+  <div className="p-4 font-mono text-sm text-slate-300 overflow-auto h-full">
+    <TreeNode value={data} depth={0} />
+  </div>
+);
+
+export default DataTree;
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Search, Trash2, RotateCcw, Eye, FileText, File as FileIcon, Loader2 } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  getHistoryQuotaMb,
+  listHistory,
+  pruneHistory,
+  setHistoryQuotaMb,
+} from '../services/historyStore';
+
+interface HistorySidebarProps {
+  open: boolean;
+  refreshKey: number; // Bumped by the parent whenever a new entry was saved
+  onClose: () => void;
+  onRestore: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const describeInput = (entry: HistoryEntry): string =>
+  entry.inputName || entry.inputText?.slice(0, 80).replace(/\s+/g, ' ') || '(空)';
+
+/**
+ * Slide-over panel listing stored conversions with search, restore, re-run
+ * and delete actions.
+ */
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ open, refreshKey, onClose, onRestore, onRerun }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [quotaMb, setQuotaMb] = useState(getHistoryQuotaMb);
+
+  const reload = async () => {
+    setLoading(true);
+    try {
+      setEntries(await listHistory());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || '读取历史记录失败。');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) reload();
+  }, [open, refreshKey]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return entries;
+    return entries.filter(e =>
+      [e.inputName, e.inputText, e.output, e.targetFormat, e.instructions, e.model]
+        .some(field => field?.toLowerCase().includes(q))
+    );
+  }, [entries, query]);
+
+  const usedBytes = entries.reduce((sum, e) => sum + e.size, 0);
+
+  const handleDelete = async (id: string) => {
+    await deleteHistoryEntry(id);
+    setEntries(prev => prev.filter(e => e.id !== id));
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定要清空全部历史记录吗？')) return;
+    await clearHistory();
+    setEntries([]);
+  };
+
+  const handleQuotaChange = async (value: number) => {
+    if (!(value > 0)) return;
+    setQuotaMb(value);
+    setHistoryQuotaMb(value);
+    if (await pruneHistory(value * 1024 * 1024)) reload();
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/30" onClick={onClose}>
+      <div
+        className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col text-slate-900"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="font-bold">历史记录</h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-slate-700 rounded-md">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-200 space-y-3">
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+              placeholder="搜索文件名、内容、格式或模型"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span>已用 {formatSize(usedBytes)} / {quotaMb} MB</span>
+            <label className="flex items-center gap-1.5">
+              存储上限
+              <input
+                type="number"
+                min={1}
+                className="w-16 px-1.5 py-0.5 border border-slate-200 rounded font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+                value={quotaMb}
+                onChange={e => handleQuotaChange(Number(e.target.value))}
+              />
+              MB
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {loading && entries.length === 0 ? (
+            <div className="flex justify-center py-10 text-slate-400"><Loader2 className="animate-spin" /></div>
+          ) : error ? (
+            <p className="p-4 text-sm text-red-600">{error}</p>
+          ) : filtered.length === 0 ? (
+            <p className="p-4 text-sm text-slate-400 text-center">{entries.length === 0 ? '暂无历史记录' : '没有匹配的记录'}</p>
+          ) : filtered.map(entry => (
+            <div key={entry.id} className="p-3 rounded-lg border border-slate-200 hover:border-indigo-200 bg-white">
+              <div className="flex items-start gap-2">
+                <div className="w-7 h-7 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center shrink-0">
+                  {entry.inputFile ? <FileIcon size={14} /> : <FileText size={14} />}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{describeInput(entry)}</p>
+                  <p className="text-xs text-slate-400 truncate">
+                    {new Date(entry.createdAt).toLocaleString('zh-CN')} • {entry.targetFormat} • {entry.model} • {formatSize(entry.size)}
+                  </p>
+                  {entry.instructions && <p className="text-xs text-slate-500 truncate mt-0.5">指令：{entry.instructions}</p>}
+                </div>
+              </div>
+              <div className="flex justify-end gap-1 mt-2">
+                <button
+                  onClick={() => onRestore(entry)}
+                  className="px-2 py-1 text-xs text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md flex items-center gap-1"
+                  title="在输出面板中查看此结果"
+                >
+                  <Eye size={14} /> 恢复
+                </button>
+                <button
+                  onClick={() => onRerun(entry)}
+                  className="px-2 py-1 text-xs text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md flex items-center gap-1"
+                  title="载入输入与设置，修改后重新转换"
+                >
+                  <RotateCcw size={14} /> 重新转换
+                </button>
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  className="px-2 py-1 text-xs text-slate-600 hover:text-red-600 hover:bg-red-50 rounded-md flex items-center gap-1"
+                >
+                  <Trash2 size={14} /> 删除
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {entries.length > 0 && (
+          <div className="p-3 border-t border-slate-200 flex justify-end">
+            <button onClick={handleClear} className="text-xs text-slate-500 hover:text-red-600">清空全部</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,176 @@
+import React, { useMemo } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { TargetFormat } from '../types';
+import { parseStructured } from '../services/localConverter';
+import { renderMarkdown } from '../services/markdown';
+import DataTree from './DataTree';
+import CsvGrid from './CsvGrid';
+import WorkbookPreview from './WorkbookPreview';
+
+const MERMAID_CDN = 'https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.esm.min.mjs';
+const KATEX_CDN = 'https://cdn.jsdelivr.net/npm/katex@0.16/dist';
+
+const PREVIEW_FORMATS = [
+  TargetFormat.HTML, TargetFormat.DOCX, TargetFormat.MARKDOWN, TargetFormat.MERMAID,
+  TargetFormat.CSV, TargetFormat.XLSX, TargetFormat.JSON, TargetFormat.YAML, TargetFormat.XML, TargetFormat.LATEX,
+  TargetFormat.JSON_SCHEMA,
+];
+
+export const hasPreview = (format: TargetFormat): boolean => PREVIEW_FORMATS.includes(format);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const DOCUMENT_STYLES = `
+  body { margin: 0; padding: 24px 32px; font-family: 'Noto Sans SC', 'Inter', sans-serif; color: #0f172a; line-height: 1.6; background: #fff; }
+  table { border-collapse: collapse; margin: 12px 0; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 10px; text-align: left; }
+  th { background: #f1f5f9; }
+  pre { background: #f1f5f9; padding: 12px; border-radius: 6px; overflow: auto; }
+  code { font-family: 'JetBrains Mono', monospace; font-size: 0.9em; }
+  blockquote { margin: 0; padding-left: 16px; border-left: 4px solid #cbd5e1; color: #475569; }
+  img { max-width: 100%; }
+`;
+
+const wrapDocument = (body: string, head = ''): string =>
+  `<!DOCTYPE html><html><head><meta charset="UTF-8"><style>${DOCUMENT_STYLES}</style>${head}</head><body>${body}</body></html>`;
+
+/**
+ * Turns the body of a LaTeX document into HTML, leaving math segments intact
+ * for KaTeX's auto-render extension.
+ */
+const latexToHtml = (latex: string): string => {
+  const bodyMatch = /\\begin\{document\}([\s\S]*?)\\end\{document\}/.exec(latex);
+  let src = (bodyMatch ? bodyMatch[1] : latex).replace(/(^|[^\\])%.*$/gm, '$1');
+
+  // Pull math out first so text-mode rewrites cannot touch it
+  const math: string[] = [];
+  src = src.replace(
+    /\$\$[\s\S]+?\$\$|\\\[[\s\S]+?\\\]|\\\([\s\S]+?\\\)|\\begin\{(equation|align|gather|multline|alignat)\*?\}[\s\S]+?\\end\{\1\*?\}|\$[^$\n]+?\$/g,
+    segment => {
+      math.push(escapeHtml(segment));
+      return `\u0000${math.length - 1}\u0000`;
+    }
+  );
+
+  let html = escapeHtml(src)
+    .replace(/\\(maketitle|centering|noindent|newpage|clearpage|hline|toprule|midrule|bottomrule)\b/g, '')
+    .replace(/\\title\{([^}]*)\}/g, '<h1>$1</h1>')
+    .replace(/\\(author|date)\{([^}]*)\}/g, '<p><em>$2</em></p>')
+    .replace(/\\section\*?\{([^}]*)\}/g, '<h2>$1</h2>')
+    .replace(/\\subsection\*?\{([^}]*)\}/g, '<h3>$1</h3>')
+    .replace(/\\subsubsection\*?\{([^}]*)\}/g, '<h4>$1</h4>')
+    .replace(/\\textbf\{([^}]*)\}/g, '<strong>$1</strong>')
+    .replace(/\\(textit|emph)\{([^}]*)\}/g, '<em>$2</em>')
+    .replace(/\\texttt\{([^}]*)\}/g, '<code>$1</code>')
+    .replace(/\\begin\{itemize\}/g, '<ul>').replace(/\\end\{itemize\}/g, '</ul>')
+    .replace(/\\begin\{enumerate\}/g, '<ol>').replace(/\\end\{enumerate\}/g, '</ol>')
+    .replace(/\\item\s*/g, '<li>')
+    .replace(/\\begin\{tabular\}\{[^}]*\}([\s\S]*?)\\end\{tabular\}/g, (_, body: string) => {
+      const rows = body.split(/\\\\/).map(r => r.trim()).filter(Boolean);
+      return `<table>${rows.map(r => `<tr>${r.split('&amp;').map(c => `<td>${c.trim()}</td>`).join('')}</tr>`).join('')}</table>`;
+    })
+    .replace(/\\begin\{(table|figure|center)\}(\[[^\]]*\])?|\\end\{(table|figure|center)\}/g, '')
+    .replace(/\\(caption|label)\{[^}]*\}/g, '')
+    .replace(/\\([%$&#_{}])/g, '$1');
+
+  html = html.split(/\n\s*\n/).map(p => (/^\s*<(h\d|ul|ol|table)/.test(p) ? p : `<p>${p.trim()}</p>`)).join('\n');
+  return html.replace(/\u0000(\d+)\u0000/g, (_, i: string) => math[Number(i)]);
+};
+
+const buildLatexDocument = (latex: string): string => wrapDocument(
+  latexToHtml(latex),
+  `<link rel="stylesheet" href="${KATEX_CDN}/katex.min.css">
+   <script defer src="${KATEX_CDN}/katex.min.js"></script>
+   <script defer src="${KATEX_CDN}/contrib/auto-render.min.js" onload="renderMathInElement(document.body, {
+     delimiters: [
+       {left: '$$', right: '$$', display: true},
+       {left: '\\\\[', right: '\\\\]', display: true},
+       {left: '\\\\(', right: '\\\\)', display: false},
+       {left: '$', right: '$', display: false},
+       {left: '\\\\begin{equation}', right: '\\\\end{equation}', display: true},
+       {left: '\\\\begin{align}', right: '\\\\end{align}', display: true},
+       {left: '\\\\begin{align*}', right: '\\\\end{align*}', display: true}
+     ],
+     throwOnError: false
+   })"></script>`
+);
+
+const buildMermaidDocument = (source: string): string => wrapDocument(
+  `<pre class="mermaid">${escapeHtml(source)}</pre>
+   <script type="module">
+     import mermaid from '${MERMAID_CDN}';
+     mermaid.initialize({ startOnLoad: false, securityLevel: 'strict' });
+     try {
+       await mermaid.run({ querySelector: '.mermaid' });
+     } catch (e) {
+       document.body.innerHTML = '<pre style="color:#b91c1c;white-space:pre-wrap">' + String(e.message || e).replace(/</g, '&lt;') + '</pre>';
+     }
+   </script>`,
+  '<style>pre.mermaid { background: none; text-align: center; }</style>'
+);
+
+/**
+ * Iframe without same-origin access. Scripts are only enabled for the
+ * renderers that need them (Mermaid, KaTeX); model HTML never runs scripts.
+ */
+const SandboxedFrame: React.FC<{ html: string; allowScripts?: boolean }> = ({ html, allowScripts }) => (
+  <iframe
+    title="预览"
+    srcDoc={html}
+    sandbox={allowScripts ? 'allow-scripts' : ''}
+    className="w-full h-full bg-white border-0"
+  />
+);
+
+const PreviewError: React.FC<{ message: string }> = ({ message }) => (
+  <div className="absolute inset-0 flex flex-col items-center justify-center text-amber-400 gap-3 p-8 text-center">
+    <AlertCircle size={32} />
+    <p className="font-medium">无法预览</p>
+    <p className="text-xs opacity-70">{message}</p>
+  </div>
+);
+
+/**
+ * Rendered view of a conversion result, chosen by target format.
+ */
+const OutputPreview: React.FC<{ content: string; format: TargetFormat }> = ({ content, format }) => {
+  const parsed = useMemo((): { data?: unknown; error?: string } => {
+    try {
+      switch (format) {
+        case TargetFormat.JSON:
+        case TargetFormat.JSON_SCHEMA: return { data: JSON.parse(content) };
+        case TargetFormat.YAML: return { data: parseStructured(content, 'yaml') };
+        case TargetFormat.XML: return { data: parseStructured(content, 'xml') };
+        default: return {};
+      }
+    } catch (err: any) {
+      return { error: err.message || String(err) };
+    }
+  }, [content, format]);
+
+  switch (format) {
+    case TargetFormat.HTML:
+    case TargetFormat.DOCX:
+      return <SandboxedFrame html={/<html[\s>]/i.test(content) ? content : wrapDocument(content)} />;
+    case TargetFormat.MARKDOWN:
+      return <SandboxedFrame html={wrapDocument(renderMarkdown(content))} />;
+    case TargetFormat.MERMAID:
+      return <SandboxedFrame html={buildMermaidDocument(content)} allowScripts />;
+    case TargetFormat.LATEX:
+      return <SandboxedFrame html={buildLatexDocument(content)} allowScripts />;
+    case TargetFormat.CSV:
+      return <CsvGrid content={content} />;
+    case TargetFormat.XLSX:
+      return <WorkbookPreview content={content} />;
+    case TargetFormat.JSON:
+    case TargetFormat.JSON_SCHEMA:
+    case TargetFormat.YAML:
+    case TargetFormat.XML:
+      return parsed.error ? <PreviewError message={parsed.error} /> : <DataTree data={parsed.data} />;
+    default:
+      return <PreviewError message="该格式暂无预览" />;
+  }
+};
+
+export default OutputPreview;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { TargetFormat, TextEncodingId } from '../types';
+import { encodingLabel, TEXT_ENCODINGS } from '../services/textEncoding';
+
+export interface FileOverrides {
+  formatOverride?: TargetFormat;
+  instructionsOverride?: string;
+  encodingOverride?: TextEncodingId;
+}
+
+interface OverrideFieldsProps {
+  value: FileOverrides;
+  onChange: (value: FileOverrides) => void;
+  showEncoding?: boolean; // Encoding only applies to text files
+  detectedEncoding?: TextEncodingId;
+}
+
+/**
+ * Format, encoding and instruction inputs for per-file overrides. Empty
+ * values fall back to the global settings or the detected encoding.
+ */
+const OverrideFields: React.FC<OverrideFieldsProps> = ({ value, onChange, showEncoding = true, detectedEncoding }) => (
+  <div className="flex gap-2">
+    <select
+      className="w-36 shrink-0 px-2 py-1.5 bg-white border border-slate-200 rounded-md text-xs text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+      value={value.formatOverride || ''}
+      onChange={e => onChange({ ...value, formatOverride: (e.target.value as TargetFormat) || undefined })}
+    >
+      <option value="">跟随全局格式</option>
+      {Object.values(TargetFormat).map(format => (
+        <option key={format} value={format}>{format}</option>
+      ))}
+    </select>
+    {showEncoding && (
+      <select
+        className="w-32 shrink-0 px-2 py-1.5 bg-white border border-slate-200 rounded-md text-xs text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+        value={value.encodingOverride || ''}
+        onChange={e => onChange({ ...value, encodingOverride: (e.target.value as TextEncodingId) || undefined })}
+        title="文本文件的字符编码"
+      >
+        <option value="">{detectedEncoding ? `自动 (${encodingLabel(detectedEncoding)})` : '自动检测编码'}</option>
+        {TEXT_ENCODINGS.map(encoding => (
+          <option key={encoding.id} value={encoding.id}>{encoding.label}</option>
+        ))}
+      </select>
+    )}
+    <input
+      type="text"
+      className="flex-1 min-w-0 px-2 py-1.5 bg-white border border-slate-200 rounded-md text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+      placeholder="特殊指令 (留空则使用全局指令)"
+      value={value.instructionsOverride || ''}
+      onChange={e => onChange({ ...value, instructionsOverride: e.target.value || undefined })}
+    />
+  </div>
+);
+
+export default OverrideFields;
@@ -0,0 +1,79 @@
+import React, { useRef } from 'react';
+import { BookmarkPlus, Trash2, Download, Upload } from 'lucide-react';
+import { ConversionPreset } from '../types';
+import { exportPresets, parsePresetFile } from '../services/presets';
+import { saveBlob } from '../services/outputFiles';
+
+interface PresetBarProps {
+  presets: ConversionPreset[];
+  selectedId: string;
+  onSelect: (preset: ConversionPreset | null) => void;
+  onSave: (name: string) => void; // Saves the current settings under this name
+  onDelete: (id: string) => void;
+  onImport: (presets: ConversionPreset[]) => void;
+  onError: (message: string) => void;
+}
+
+const iconButton = 'p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+/**
+ * Preset picker with save, delete, export and import actions.
+ */
+const PresetBar: React.FC<PresetBarProps> = ({ presets, selectedId, onSelect, onSave, onDelete, onImport, onError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = presets.find(p => p.id === selectedId);
+
+  const handleSave = () => {
+    const name = window.prompt('预设名称（同名预设将被覆盖）', selected?.name || '');
+    if (name && name.trim()) onSave(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (selected && window.confirm(`确定删除预设「${selected.name}」吗？`)) onDelete(selected.id);
+  };
+
+  const handleExport = () => {
+    saveBlob(new Blob([exportPresets(presets)], { type: 'application/json' }), 'uniconvert-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parsePresetFile(await file.text()));
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        className="max-w-[180px] px-2 py-1 bg-slate-50 border border-slate-200 rounded-md text-xs text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+        value={selectedId}
+        onChange={e => onSelect(presets.find(p => p.id === e.target.value) || null)}
+      >
+        <option value="">{presets.length > 0 ? '选择预设…' : '暂无预设'}</option>
+        {presets.map(preset => (
+          <option key={preset.id} value={preset.id}>{preset.name}</option>
+        ))}
+      </select>
+      <button onClick={handleSave} className={iconButton} title="将当前设置保存为预设">
+        <BookmarkPlus size={16} />
+      </button>
+      <button onClick={handleDelete} disabled={!selected} className={iconButton} title="删除所选预设">
+        <Trash2 size={16} />
+      </button>
+      <button onClick={handleExport} disabled={presets.length === 0} className={iconButton} title="导出全部预设">
+        <Download size={16} />
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} className={iconButton} title="导入预设文件">
+        <Upload size={16} />
+      </button>
+      <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleImport} />
+    </div>
+  );
+};
+
+export default PresetBar;
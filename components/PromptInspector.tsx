@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Copy, Check, X, FileText, Paperclip } from 'lucide-react';
+import { PromptInspection } from '../services/conversionService';
+import { formatTokens } from '../services/usage';
+
+interface PromptInspectorProps {
+  inspection: PromptInspection;
+  sourceName: string; // File name or "粘贴文本"
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const ROUTE_LABELS: Record<PromptInspection['route'], string> = {
+  local: '本地转换',
+  model: '发送给模型',
+  proxy: '经服务器发送',
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{title}</h3>
+    {children}
+  </div>
+);
+
+/**
+ * Dry-run view of the request a conversion would send: system instruction,
+ * ordered parts with binary payloads summarized, and generation config.
+ */
+const PromptInspector: React.FC<PromptInspectorProps> = ({ inspection, sourceName, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const { request } = inspection;
+
+  const handleCopy = () => {
+    // The copy keeps the Base64 payloads so the request can be replayed as-is
+    navigator.clipboard.writeText(JSON.stringify({
+      source: sourceName,
+      provider: inspection.provider,
+      model: inspection.model,
+      route: inspection.route,
+      chunk: inspection.chunkLabel,
+      ...request,
+    }, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="absolute inset-0 overflow-y-auto p-4 space-y-5 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-medium text-slate-200 truncate">请求预览 · {sourceName}</p>
+          <p className="text-xs text-slate-400 mt-1">
+            <span className="px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-300 mr-2">{ROUTE_LABELS[inspection.route]}</span>
+            {inspection.provider} · {inspection.model}
+            {inspection.chunkLabel && ` · 文档共 ${inspection.chunkCount} 段，显示${inspection.chunkLabel}`}
+            {request && ` · 约 ${formatTokens(inspection.estimatedTokens)} 输入 tokens`}
+          </p>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <button
+            onClick={handleCopy}
+            disabled={!request}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30"
+            title="复制完整请求 JSON"
+          >
+            {copied ? <Check size={16} className="text-green-400" /> : <Copy size={16} />}
+          </button>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors" title="关闭预览">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {!request ? (
+        <p className="text-slate-400">输入是结构化数据且没有特殊指令，将直接在本地转换，不会向模型发送任何请求。</p>
+      ) : (
+        <>
+          <Section title="配置">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs font-mono text-slate-300">
+              <dt className="text-slate-500">temperature</dt><dd>{request.temperature}</dd>
+              <dt className="text-slate-500">jsonMode</dt><dd>{String(request.jsonMode)}</dd>
+              <dt className="text-slate-500">responseSchema</dt><dd>{request.responseSchema ? '已设置 (见系统指令末尾)' : '无'}</dd>
+              <dt className="text-slate-500">targetFormat</dt><dd>{request.targetFormat}</dd>
+            </dl>
+          </Section>
+
+          <Section title={`系统指令 (${request.systemInstruction.length} 字符)`}>
+            <pre className="p-3 bg-slate-800/60 rounded-lg text-xs text-slate-300 whitespace-pre-wrap break-words font-mono">{request.systemInstruction}</pre>
+          </Section>
+
+          <Section title="消息">
+            <ol className="space-y-2">
+              {request.turns.flatMap((turn, t) => turn.parts.map((part, p) => (
+                <li key={`${t}-${p}`} className="rounded-lg border border-slate-700/60">
+                  {'text' in part ? (
+                    <>
+                      <p className="px-3 py-1.5 text-xs text-slate-400 flex items-center gap-1.5 border-b border-slate-700/60">
+                        <FileText size={12} /> {turn.role} · 文本 · {part.text.length} 字符
+                      </p>
+                      <pre className="p-3 max-h-64 overflow-y-auto text-xs text-slate-300 whitespace-pre-wrap break-words font-mono">{part.text}</pre>
+                    </>
+                  ) : (
+                    <p className="px-3 py-2 text-xs text-slate-400 flex items-center gap-1.5">
+                      <Paperclip size={12} /> {turn.role} · {part.inlineData.mimeType} · {formatBytes(Math.floor(part.inlineData.data.length * 3 / 4))} (Base64 内容已省略)
+                    </p>
+                  )}
+                </li>
+              )))}
+            </ol>
+          </Section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PromptInspector;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { RedactionOptions, RedactionRuleId } from '../types';
+import { compileRedactionPattern, REDACTION_RULE_OPTIONS } from '../services/redaction';
+
+const textareaClass = 'mt-1 w-full h-20 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none resize-y';
+
+const patternError = (patterns: string[]): string | null => {
+  try {
+    patterns.filter(p => p.trim()).forEach(compileRedactionPattern);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+};
+
+/**
+ * Masking of personal data before content is sent: built-in detectors, extra
+ * regular expressions and a dictionary of terms, one per line.
+ */
+const RedactionFields: React.FC<{ value: RedactionOptions; onChange: (value: RedactionOptions) => void }> = ({ value, onChange }) => {
+  const toggleRule = (id: RedactionRuleId, checked: boolean) => onChange({
+    ...value,
+    rules: REDACTION_RULE_OPTIONS.map(r => r.id).filter(r => (r === id ? checked : value.rules.includes(r))),
+  });
+  const error = value.enabled ? patternError(value.patterns) : null;
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 cursor-pointer" title="个人信息在本地替换为占位符后再发送，结果中自动还原，对照表不会离开本机">
+        <input
+          type="checkbox"
+          className="accent-indigo-600"
+          checked={value.enabled}
+          onChange={e => onChange({ ...value, enabled: e.target.checked })}
+        />
+        发送前脱敏个人信息
+      </label>
+      {value.enabled && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {REDACTION_RULE_OPTIONS.map(rule => (
+              <label key={rule.id} className="flex items-center gap-1.5 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="accent-indigo-600"
+                  checked={value.rules.includes(rule.id)}
+                  onChange={e => toggleRule(rule.id, e.target.checked)}
+                />
+                {rule.label}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-xs text-slate-500">
+              词典 (每行一个，如姓名、公司名)
+              <textarea
+                className={textareaClass}
+                placeholder={'张三\n某某科技有限公司'}
+                value={value.terms.join('\n')}
+                onChange={e => onChange({ ...value, terms: e.target.value.split('\n') })}
+              />
+            </label>
+            <label className="text-xs text-slate-500">
+              自定义正则 (每行一个)
+              <textarea
+                className={textareaClass}
+                placeholder={'EMP-\\d{6}'}
+                value={value.patterns.join('\n')}
+                onChange={e => onChange({ ...value, patterns: e.target.value.split('\n') })}
+              />
+            </label>
+          </div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <p className="text-xs text-slate-400">PDF 和图片无法在本地读取文字，开启脱敏后将拒绝转换。</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedactionFields;
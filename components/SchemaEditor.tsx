@@ -0,0 +1,91 @@
+import React, { useMemo, useRef } from 'react';
+import { Upload, Wand2, X, Check, AlertCircle } from 'lucide-react';
+import { inferJsonSchema, parseJsonSchema } from '../services/jsonSchema';
+
+interface SchemaEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  sampleOutput: string; // Current JSON result, used to infer a schema
+}
+
+/**
+ * Editor for the optional JSON Schema that JSON output must follow. A schema
+ * can be pasted, uploaded, or inferred from the current result.
+ */
+const SchemaEditor: React.FC<SchemaEditorProps> = ({ value, onChange, sampleOutput }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const status = useMemo((): { ok: boolean; message: string } | null => {
+    if (!value.trim()) return null;
+    try {
+      const schema = parseJsonSchema(value);
+      const count = Object.keys(schema.properties || (schema.items as any)?.properties || {}).length;
+      return { ok: true, message: count > 0 ? `Schema 有效，定义了 ${count} 个顶层字段` : 'Schema 有效' };
+    } catch (err: any) {
+      return { ok: false, message: err.message };
+    }
+  }, [value]);
+
+  let sample: unknown;
+  try {
+    sample = sampleOutput ? JSON.parse(sampleOutput) : undefined;
+  } catch {
+    sample = undefined;
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onChange(await file.text());
+    e.target.value = '';
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">JSON Schema (可选)</label>
+        <div className="flex items-center gap-3 text-xs">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-indigo-600 hover:text-indigo-700 flex items-center gap-1"
+          >
+            <Upload size={12} /> 上传
+          </button>
+          <button
+            onClick={() => onChange(JSON.stringify(inferJsonSchema(sample), null, 2))}
+            disabled={sample === undefined}
+            className="text-indigo-600 hover:text-indigo-700 flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="根据当前 JSON 结果生成 Schema"
+          >
+            <Wand2 size={12} /> 从结果推断
+          </button>
+          {value && (
+            <button onClick={() => onChange('')} className="text-slate-400 hover:text-red-500 flex items-center gap-1">
+              <X size={12} /> 清除
+            </button>
+          )}
+        </div>
+      </div>
+      <textarea
+        className="w-full h-28 p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all resize-y font-mono text-xs"
+        placeholder='粘贴 JSON Schema，所有结果将使用相同的字段，例如 {"type": "object", "properties": {...}, "required": [...]}'
+        value={value}
+        onChange={e => onChange(e.target.value)}
+      />
+      {status && (
+        <p className={`mt-1 text-xs flex items-center gap-1 ${status.ok ? 'text-green-600' : 'text-red-600'}`}>
+          {status.ok ? <Check size={12} /> : <AlertCircle size={12} />}
+          {status.message}
+        </p>
+      )}
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept=".json,application/json,application/schema+json"
+        onChange={handleUpload}
+      />
+    </div>
+  );
+};
+
+export default SchemaEditor;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { SqlDialect, SqlOptions } from '../types';
+import { MAX_SQL_BATCH_SIZE, SQL_DIALECT_OPTIONS } from '../services/sqlDialect';
+
+/**
+ * Dialect, table and statement layout of SQL output. Used both by the local
+ * generator and in the model's instructions.
+ */
+const SqlOptionsFields: React.FC<{ value: SqlOptions; onChange: (value: SqlOptions) => void }> = ({ value, onChange }) => (
+  <div>
+    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">SQL 选项</label>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+      <label className="text-xs text-slate-500">
+        方言
+        <select
+          className="mt-1 w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"
+          value={value.dialect}
+          onChange={e => onChange({ ...value, dialect: e.target.value as SqlDialect })}
+        >
+          {SQL_DIALECT_OPTIONS.map(d => (
+            <option key={d.id} value={d.id}>{d.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-xs text-slate-500">
+        表名
+        <input
+          type="text"
+          className="mt-1 w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+          placeholder="data"
+          value={value.tableName}
+          onChange={e => onChange({ ...value, tableName: e.target.value })}
+          onBlur={() => !value.tableName.trim() && onChange({ ...value, tableName: 'data' })}
+        />
+      </label>
+      <label className="text-xs text-slate-500" title="每条 INSERT 语句包含的行数">
+        每批行数
+        <input
+          type="number"
+          min={1}
+          max={MAX_SQL_BATCH_SIZE}
+          className="mt-1 w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          value={value.batchSize}
+          onChange={e => onChange({ ...value, batchSize: Math.min(MAX_SQL_BATCH_SIZE, Math.max(1, Math.floor(Number(e.target.value)) || 1)) })}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer pb-2">
+        <input
+          type="checkbox"
+          className="accent-indigo-600"
+          checked={value.createTable}
+          onChange={e => onChange({ ...value, createTable: e.target.checked })}
+        />
+        生成 CREATE TABLE
+      </label>
+    </div>
+  </div>
+);
+
+export default SqlOptionsFields;
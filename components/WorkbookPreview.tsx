@@ -0,0 +1,49 @@
+import React, { useMemo, useState } from 'react';
+import { parseWorkbook } from '../services/xlsxWriter';
+import { DEFAULT_CSV_OPTIONS, writeCsv } from '../services/csvDialect';
+import CsvGrid from './CsvGrid';
+
+/**
+ * Sheets of XLSX output, one tab per sheet, each shown as a sortable grid.
+ */
+const WorkbookPreview: React.FC<{ content: string }> = ({ content }) => {
+  const [active, setActive] = useState(0);
+  const parsed = useMemo(() => {
+    try {
+      return { sheets: parseWorkbook(content) };
+    } catch (err: any) {
+      return { sheets: [], error: err.message || String(err) };
+    }
+  }, [content]);
+
+  const sheet = parsed.sheets[Math.min(active, parsed.sheets.length - 1)];
+  const csv = useMemo(() => sheet ? writeCsv([
+    sheet.columns,
+    ...sheet.rows.map(row => row.map(v => (v === null || v === undefined ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v)))),
+  ], DEFAULT_CSV_OPTIONS) : '', [sheet]);
+
+  if (!sheet) return <p className="p-6 text-sm text-amber-400">{parsed.error || '工作簿为空'}</p>;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 min-h-0">
+        <CsvGrid key={active} content={csv} />
+      </div>
+      <div className="flex gap-1 px-2 py-1.5 border-t border-slate-700 bg-slate-900 overflow-x-auto">
+        {parsed.sheets.map((s, i) => (
+          <button
+            key={i}
+            onClick={() => setActive(i)}
+            className={`px-3 py-1 text-xs rounded whitespace-nowrap transition-colors ${
+              s === sheet ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+            }`}
+          >
+            {s.name} <span className="opacity-60">({s.rows.length})</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WorkbookPreview;
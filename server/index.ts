@@ -0,0 +1,280 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { readFile, stat } from "node:fs/promises";
+import { extname, join, resolve, sep } from "node:path";
+import { ProviderId, TargetFormat, TextEncodingId } from "../types";
+import { DEFAULT_CONCURRENCY } from "../services/batchQueue";
+import { JsonSchema, parseJsonSchema } from "../services/jsonSchema";
+import { createProvider, DEFAULT_PROVIDER_SETTINGS, PROVIDER_OPTIONS } from "../services/providers";
+import { normalizeCsvOptions } from "../services/csvDialect";
+import { compileRedactionPattern, normalizeRedactionOptions } from "../services/redaction";
+import { normalizeSqlOptions } from "../services/sqlDialect";
+import { TEXT_ENCODINGS } from "../services/textEncoding";
+import { createJobStore, Job } from "./jobs";
+import { createRateLimiter } from "./rateLimit";
+
+/**
+ * Conversion API that keeps the model API key on the server. Also serves the
+ * built app from dist/ when present, so one process can host everything.
+ *
+ *   POST /api/convert          multipart: file or text, format, instructions, schema, temperature, sql, csv, encoding, redaction, masked
+ *   GET  /api/jobs/:id         job status
+ *   GET  /api/jobs/:id/result  converted text once the job succeeded
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_UPLOAD_BYTES = (Number(process.env.MAX_UPLOAD_MB) || 50) * 1024 * 1024;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 20;
+const MAX_ACTIVE_JOBS_PER_CLIENT = Number(process.env.MAX_ACTIVE_JOBS_PER_CLIENT) || 20;
+const JOB_TTL_MS = (Number(process.env.JOB_TTL_MINUTES) || 60) * 60 * 1000;
+// Only behind a reverse proxy is X-Forwarded-For trustworthy
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+const STATIC_DIR = resolve('dist');
+
+const STATIC_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+/**
+ * Error answered with the given status and a JSON { error } body.
+ */
+class HttpError extends Error {
+  constructor(public status: number, message: string, public retryAfterMs = 0) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const clientOf = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Buffers the request body, refusing to read more than `limit` bytes.
+ */
+const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, `请求内容超过 ${limit / 1024 / 1024}MB 上限。`);
+    if (Number(req.headers['content-length']) > limit) {
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // Stop buffering and discard the rest; the 413 goes out right away
+        req.removeAllListeners('data');
+        req.resume();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const jobView = (job: Job) => ({
+  id: job.id,
+  status: job.status,
+  targetFormat: job.request.targetFormat,
+  createdAt: new Date(job.createdAt).toISOString(),
+  completedAt: job.completedAt ? new Date(job.completedAt).toISOString() : null,
+  attempts: job.attempts ?? 0,
+  chunkProgress: job.chunkProgress ?? null,
+  validation: job.validation ?? null,
+  usage: job.usage ?? null,
+  redaction: job.redaction ?? null,
+  error: job.error ?? null,
+});
+
+// The proxy provider would call this server again, so it cannot be the backend
+const providerId = (process.env.UNICONVERT_PROVIDER || 'gemini') as ProviderId;
+const providerOption = PROVIDER_OPTIONS.find(p => p.id === providerId && p.id !== 'proxy');
+if (!providerOption) {
+  console.error(`Unknown UNICONVERT_PROVIDER "${providerId}".`);
+  process.exit(1);
+}
+// The SDK reads the key from API_KEY, which the web build injects from GEMINI_API_KEY
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+if (providerId === 'gemini' && !process.env.API_KEY) {
+  console.error('GEMINI_API_KEY is not set.');
+  process.exit(1);
+}
+const provider = createProvider({
+  id: providerId,
+  model: process.env.UNICONVERT_MODEL || providerOption.defaultModel,
+  baseUrl: process.env.OPENAI_BASE_URL || DEFAULT_PROVIDER_SETTINGS.baseUrl,
+  apiKey: process.env.OPENAI_API_KEY || '',
+});
+const jobs = createJobStore(provider, Number(process.env.CONCURRENCY) || DEFAULT_CONCURRENCY, JOB_TTL_MS);
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000);
+
+const parseOptionsField = <T>(form: FormData, name: string, normalize: (raw: any) => T): T | undefined => {
+  const text = form.get(name);
+  if (typeof text !== 'string' || !text.trim()) return undefined;
+  try {
+    return normalize(JSON.parse(text));
+  } catch {
+    throw new HttpError(400, `${name} 字段必须是 JSON 对象。`);
+  }
+};
+
+const handleConvert = async (req: IncomingMessage, res: ServerResponse) => {
+  const client = clientOf(req);
+  const waitMs = limiter.hit(client);
+  if (waitMs > 0) throw new HttpError(429, "请求过于频繁，请稍后重试。", waitMs);
+  if (jobs.activeCount(client) >= MAX_ACTIVE_JOBS_PER_CLIENT) {
+    throw new HttpError(429, `同时进行的任务不能超过 ${MAX_ACTIVE_JOBS_PER_CLIENT} 个。`, 5000);
+  }
+
+  const body = await readBody(req, MAX_UPLOAD_BYTES);
+  let form: FormData;
+  try {
+    form = await new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': req.headers['content-type'] || '' },
+      body,
+    }).formData();
+  } catch {
+    throw new HttpError(400, "请求体必须是 multipart/form-data 或 URL 编码的表单。");
+  }
+
+  const file = form.get('file');
+  const text = form.get('text');
+  const input = file instanceof File ? file : typeof text === 'string' && text.trim() ? text : null;
+  if (!input) throw new HttpError(400, "请提供 file 或 text 字段。");
+
+  const format = form.get('format');
+  if (!Object.values(TargetFormat).includes(format as TargetFormat)) {
+    throw new HttpError(400, `不支持的目标格式 "${format}"。可选值：${Object.values(TargetFormat).join('、')}`);
+  }
+
+  let schema: JsonSchema | undefined;
+  const schemaText = form.get('schema');
+  if (typeof schemaText === 'string' && schemaText.trim()) {
+    try {
+      schema = parseJsonSchema(schemaText);
+    } catch (error: any) {
+      throw new HttpError(400, error.message);
+    }
+  }
+
+  const temperatureText = form.get('temperature');
+  const temperature = typeof temperatureText === 'string' && temperatureText ? Number(temperatureText) : undefined;
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    throw new HttpError(400, "temperature 必须在 0 到 2 之间。");
+  }
+
+  // Output options as JSON, e.g. sql={"dialect":"mysql","tableName":"orders"}; missing fields take defaults
+  const sql = parseOptionsField(form, 'sql', normalizeSqlOptions);
+  const csv = parseOptionsField(form, 'csv', normalizeCsvOptions);
+  // e.g. redaction={"rules":["phone","idCard"],"terms":["Acme"]}; the mapping stays in this process
+  const redaction = parseOptionsField(form, 'redaction', normalizeRedactionOptions);
+  try {
+    redaction?.patterns.forEach(compileRedactionPattern);
+  } catch (error: any) {
+    throw new HttpError(400, error.message);
+  }
+  // masked=true: the client replaced personal data with placeholders itself and restores them
+  const maskedInput = form.get('masked') === 'true';
+  if (maskedInput && redaction) {
+    throw new HttpError(400, "masked 与 redaction 不能同时使用：已脱敏的内容不应再次脱敏。");
+  }
+
+  const encoding = form.get('encoding') || undefined;
+  if (encoding !== undefined && !TEXT_ENCODINGS.some(e => e.id === encoding)) {
+    throw new HttpError(400, `不支持的编码 "${encoding}"。可选值：${TEXT_ENCODINGS.map(e => e.id).join('、')}`);
+  }
+
+  const instructions = form.get('instructions');
+  const job = jobs.submit(client, {
+    input,
+    targetFormat: format as TargetFormat,
+    instructions: typeof instructions === 'string' ? instructions : '',
+    schema,
+    temperature,
+    sql,
+    csv,
+    encoding: encoding as TextEncodingId | undefined,
+    redaction,
+    maskedInput,
+  });
+  sendJson(res, 202, jobView(job), { Location: `/api/jobs/${job.id}` });
+};
+
+const handleJob = (res: ServerResponse, id: string, wantsResult: boolean) => {
+  const job = jobs.get(id);
+  if (!job) throw new HttpError(404, "任务不存在或已过期。");
+  if (!wantsResult) {
+    sendJson(res, 200, jobView(job));
+    return;
+  }
+  if (job.status !== 'success') {
+    throw new HttpError(409, job.status === 'error' ? `任务失败：${job.error}` : "任务尚未完成。");
+  }
+  res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(job.result);
+};
+
+/**
+ * Serves the built app, falling back to index.html for unknown paths.
+ */
+const handleStatic = async (res: ServerResponse, pathname: string) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, "Bad request");
+  }
+  let path = resolve(join(STATIC_DIR, decoded));
+  if (path !== STATIC_DIR && !path.startsWith(STATIC_DIR + sep)) throw new HttpError(404, "Not found");
+  if (!(await stat(path).catch(() => null))?.isFile()) path = join(STATIC_DIR, 'index.html');
+  const data = await readFile(path).catch(() => null);
+  if (!data) throw new HttpError(404, "Not found");
+  res.writeHead(200, { 'Content-Type': STATIC_TYPES[extname(path)] || 'application/octet-stream' });
+  res.end(data);
+};
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const jobMatch = /^\/api\/jobs\/([\w-]+)(\/result)?$/.exec(pathname);
+  try {
+    if (req.method === 'POST' && pathname === '/api/convert') {
+      await handleConvert(req, res);
+    } else if (req.method === 'GET' && jobMatch) {
+      handleJob(res, jobMatch[1], !!jobMatch[2]);
+    } else if (pathname.startsWith('/api/')) {
+      throw new HttpError(404, "接口不存在。");
+    } else if (req.method === 'GET') {
+      await handleStatic(res, pathname);
+    } else {
+      throw new HttpError(405, "Method not allowed");
+    }
+  } catch (error: any) {
+    if (res.headersSent) return;
+    if (!(error instanceof HttpError)) console.error('Request failed:', error);
+    const status = error instanceof HttpError ? error.status : 500;
+    const headers: Record<string, string> = {};
+    if (error instanceof HttpError && error.retryAfterMs > 0) headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+    if (status === 413) headers.Connection = 'close';
+    sendJson(res, status, { error: status === 500 ? "服务器内部错误。" : error.message }, headers);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`UniConvert server listening on http://localhost:${PORT} (${provider.label} · ${provider.model})`);
+});
@@ -0,0 +1,118 @@
+import { randomUUID } from "node:crypto";
+import { ChunkProgress, CsvOptions, RedactionOptions, RedactionReport, SqlOptions, TargetFormat, TextEncodingId, TokenUsage, ValidationResult } from "../types";
+import { createBatchQueue } from "../services/batchQueue";
+import { convertDocument } from "../services/conversionService";
+import { JsonSchema } from "../services/jsonSchema";
+import { ConversionProvider } from "../services/providers";
+
+export type JobStatus = 'queued' | 'processing' | 'success' | 'error';
+
+export interface JobRequest {
+  input: string | File;
+  targetFormat: TargetFormat;
+  instructions: string;
+  schema?: JsonSchema;
+  temperature?: number;
+  sql?: SqlOptions;
+  csv?: CsvOptions;
+  encoding?: TextEncodingId; // Of an uploaded text file; detected when unset
+  redaction?: RedactionOptions;
+  maskedInput?: boolean; // Masked by the client, which keeps the mapping
+}
+
+export interface Job {
+  id: string;
+  client: string;
+  request: JobRequest;
+  status: JobStatus;
+  createdAt: number;
+  completedAt?: number;
+  attempts?: number;
+  chunkProgress?: ChunkProgress;
+  result?: string;
+  validation?: ValidationResult;
+  usage?: TokenUsage;
+  redaction?: RedactionReport;
+  error?: string;
+}
+
+export interface JobStore {
+  submit(client: string, request: JobRequest): Job;
+  get(id: string): Job | undefined;
+  activeCount(client: string): number; // Jobs of this client not finished yet
+}
+
+/**
+ * In-memory jobs run through the same retrying queue as batch conversions
+ * in the browser. Finished jobs are forgotten after `ttlMs`.
+ */
+export const createJobStore = (provider: ConversionProvider, concurrency: number, ttlMs: number): JobStore => {
+  const jobs = new Map<string, Job>();
+
+  const finish = (job: Job, changes: Partial<Job>) => {
+    Object.assign(job, changes, { completedAt: Date.now() });
+    // The upload is no longer needed once the job is done
+    job.request.input = '';
+  };
+
+  const queue = createBatchQueue({
+    concurrency,
+    run: async (id, _attempt, signal) => {
+      const job = jobs.get(id);
+      if (!job) return;
+      const { input, targetFormat, instructions, schema, temperature, sql, csv, encoding, redaction, maskedInput } = job.request;
+      const result = await convertDocument(input, targetFormat, instructions, {
+        provider,
+        schema,
+        temperature,
+        sql,
+        csv,
+        encoding,
+        redaction,
+        maskedInput,
+        signal,
+        onChunkProgress: chunkProgress => { job.chunkProgress = chunkProgress; },
+      });
+      finish(job, { status: 'success', result: result.text, validation: result.validation, usage: result.usage, redaction: result.redaction });
+    },
+    onStart: (id, attempt) => {
+      const job = jobs.get(id);
+      if (job) Object.assign(job, { status: 'processing', attempts: attempt, error: undefined });
+    },
+    onRetry: (id, _attempt, _delayMs, error) => {
+      const job = jobs.get(id);
+      if (job) Object.assign(job, { status: 'queued', error: error.message });
+    },
+    onError: (id, error) => {
+      const job = jobs.get(id);
+      if (job) finish(job, { status: 'error', error: error.message });
+    },
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - ttlMs;
+    for (const [id, job] of jobs) {
+      if (job.completedAt && job.completedAt < cutoff) jobs.delete(id);
+    }
+  }, Math.min(ttlMs, 60000));
+  sweep.unref();
+
+  return {
+    submit(client, request) {
+      const job: Job = { id: randomUUID(), client, request, status: 'queued', createdAt: Date.now() };
+      jobs.set(job.id, job);
+      queue.add([job.id]);
+      return job;
+    },
+
+    get: id => jobs.get(id),
+
+    activeCount(client) {
+      let count = 0;
+      for (const job of jobs.values()) {
+        if (job.client === client && !job.completedAt) count++;
+      }
+      return count;
+    },
+  };
+};
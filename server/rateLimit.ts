@@ -0,0 +1,34 @@
+/**
+ * Sliding-window rate limiter keyed by client address.
+ */
+export interface RateLimiter {
+  // Records a request; returns 0 when allowed, otherwise the ms until the next slot frees up
+  hit(client: string): number;
+}
+
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  // Drop clients with no recent requests so the map does not grow without bound
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    for (const [client, times] of hits) {
+      if (times[times.length - 1] <= cutoff) hits.delete(client);
+    }
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    hit(client) {
+      const now = Date.now();
+      const recent = (hits.get(client) || []).filter(t => t > now - windowMs);
+      if (recent.length >= limit) {
+        hits.set(client, recent);
+        return recent[0] + windowMs - now;
+      }
+      recent.push(now);
+      hits.set(client, recent);
+      return 0;
+    },
+  };
+};
@@ -0,0 +1,169 @@
+import { ConversionCancelledError, RetryableConversionError } from "./conversionService";
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 10;
+export const DEFAULT_MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  maxAttempts?: number;
+  // Performs one attempt. Resolving counts as success; throwing a RetryableConversionError schedules a retry.
+  run: (id: string, attempt: number, signal: AbortSignal) => Promise<void>;
+  onStart?: (id: string, attempt: number) => void;
+  onRetry?: (id: string, attempt: number, delayMs: number, error: Error) => void;
+  onError?: (id: string, error: Error, attempts: number) => void;
+  onCancel?: (id: string) => void;
+  onIdle?: () => void; // Fired once nothing is running, pending or waiting for a retry
+  // Checked before each attempt starts; returning false pauses the queue with the job still first in line
+  canStart?: (id: string) => boolean;
+  onBlocked?: (id: string) => void; // Fired when canStart paused the queue
+}
+
+export interface BatchQueue {
+  add(ids: string[]): void;
+  remove(id: string): void;
+  pause(): void;
+  resume(): void;
+  cancelAll(): void;
+  setConcurrency(concurrency: number): void;
+  has(id: string): boolean;
+}
+
+/**
+ * Exponential backoff with equal jitter: half of the delay is fixed, the
+ * other half random, so parallel jobs that failed together spread out.
+ */
+export const backoffDelay = (attempt: number): number => {
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+/**
+ * Job queue for batch conversions. Runs up to `concurrency` jobs at once and
+ * retries rate-limit and transient failures. When the server names a delay,
+ * no new jobs start until it has passed.
+ */
+export const createBatchQueue = (options: BatchQueueOptions): BatchQueue => {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  let concurrency = Math.max(1, options.concurrency);
+  const pending: { id: string; attempt: number }[] = [];
+  const active = new Map<string, AbortController>();
+  const waiting = new Map<string, ReturnType<typeof setTimeout>>();
+  let paused = false;
+  let running = false;
+  let cooldownUntil = 0;
+  let cooldownTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const checkIdle = () => {
+    if (running && active.size === 0 && pending.length === 0 && waiting.size === 0) {
+      running = false;
+      options.onIdle?.();
+    }
+  };
+
+  const runJob = async (id: string, attempt: number) => {
+    const controller = new AbortController();
+    active.set(id, controller);
+    options.onStart?.(id, attempt);
+    try {
+      await options.run(id, attempt, controller.signal);
+    } catch (error: any) {
+      if (controller.signal.aborted || error instanceof ConversionCancelledError) {
+        options.onCancel?.(id);
+      } else if (error instanceof RetryableConversionError && attempt < maxAttempts) {
+        const delayMs = Math.max(error.retryAfterMs, backoffDelay(attempt));
+        if (error.retryAfterMs > 0) cooldownUntil = Math.max(cooldownUntil, Date.now() + error.retryAfterMs);
+        options.onRetry?.(id, attempt, delayMs, error);
+        waiting.set(id, setTimeout(() => {
+          waiting.delete(id);
+          // Retries go ahead of files that have not started yet
+          pending.unshift({ id, attempt: attempt + 1 });
+          pump();
+        }, delayMs));
+      } else {
+        options.onError?.(id, error, attempt);
+      }
+    } finally {
+      active.delete(id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (paused) return;
+    const cooldown = cooldownUntil - Date.now();
+    if (cooldown > 0 && pending.length > 0) {
+      if (!cooldownTimer) {
+        cooldownTimer = setTimeout(() => {
+          cooldownTimer = null;
+          pump();
+        }, cooldown);
+      }
+      return;
+    }
+    while (active.size < concurrency && pending.length > 0) {
+      if (options.canStart && !options.canStart(pending[0].id)) {
+        paused = true;
+        options.onBlocked?.(pending[0].id);
+        return;
+      }
+      const job = pending.shift()!;
+      void runJob(job.id, job.attempt);
+    }
+    checkIdle();
+  };
+
+  const has = (id: string) => active.has(id) || waiting.has(id) || pending.some(job => job.id === id);
+
+  return {
+    add(ids) {
+      for (const id of ids) {
+        if (!has(id)) pending.push({ id, attempt: 1 });
+      }
+      running = true;
+      pump();
+    },
+
+    remove(id) {
+      const index = pending.findIndex(job => job.id === id);
+      if (index >= 0) pending.splice(index, 1);
+      clearTimeout(waiting.get(id));
+      waiting.delete(id);
+      active.get(id)?.abort();
+      checkIdle();
+    },
+
+    pause() {
+      paused = true;
+    },
+
+    resume() {
+      paused = false;
+      pump();
+    },
+
+    // Aborts running jobs and drops retries; files that never started are left untouched
+    cancelAll() {
+      pending.length = 0;
+      for (const [id, timer] of waiting) {
+        clearTimeout(timer);
+        options.onCancel?.(id);
+      }
+      waiting.clear();
+      if (cooldownTimer) clearTimeout(cooldownTimer);
+      cooldownTimer = null;
+      active.forEach(controller => controller.abort());
+      paused = false;
+      checkIdle();
+    },
+
+    setConcurrency(value) {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+
+    has,
+  };
+};
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TargetFormat } from '../types';
+import { mergeChunkResults, splitText } from './chunking';
+
+describe('splitText', () => {
+  it('keeps short text in one chunk', () => {
+    expect(splitText('# A\n\nshort', 100)).toEqual(['# A\n\nshort']);
+  });
+
+  it('splits on headings and packs pieces up to the limit', () => {
+    const section = (title: string) => `# ${title}\n${'x'.repeat(30)}`;
+    const text = [section('A'), section('B'), section('C')].join('\n');
+    const chunks = splitText(text, 80);
+    expect(chunks).toEqual([`${section('A')}\n\n${section('B')}`, section('C')]);
+    expect(chunks.every(c => c.length <= 80)).toBe(true);
+  });
+
+  it('cuts text without any boundary into pieces of the maximum size', () => {
+    expect(splitText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
+
+describe('mergeChunkResults', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('returns a single part unchanged', () => {
+    expect(mergeChunkResults(['  [1]  ', ''], TargetFormat.JSON)).toBe('[1]');
+  });
+
+  it('concatenates JSON arrays and merges wrapper objects by key', () => {
+    expect(JSON.parse(mergeChunkResults(['[1, 2]', '[3]'], TargetFormat.JSON))).toEqual([1, 2, 3]);
+    expect(JSON.parse(mergeChunkResults(['{"title": "A", "items": [1]}', '{"title": "B", "items": [2]}'], TargetFormat.JSON)))
+      .toEqual({ title: 'A', items: [1, 2] });
+  });
+
+  it('drops repeated CSV headers', () => {
+    expect(mergeChunkResults(['a,b\n1,2', 'a,b\n3,4\n'], TargetFormat.CSV)).toBe('a,b\n1,2\n3,4');
+  });
+
+  it('joins XML documents with the same root under one root element', () => {
+    const merged = mergeChunkResults(['<?xml version="1.0"?>\n<rows><row>1</row></rows>', '<rows><row>2</row></rows>'], TargetFormat.XML);
+    expect(merged).toBe('<?xml version="1.0" encoding="UTF-8"?>\n<rows>\n<row>1</row>\n<row>2</row>\n</rows>');
+  });
+
+  it('keeps the first copy of each CREATE TABLE statement', () => {
+    const create = 'CREATE TABLE t (a INTEGER);';
+    expect(mergeChunkResults([`${create}\nINSERT INTO t VALUES (1);`, `${create}\nINSERT INTO t VALUES (2);`], TargetFormat.SQL))
+      .toBe(`${create}\nINSERT INTO t VALUES (1);\nINSERT INTO t VALUES (2);`);
+  });
+
+  it('keeps the first declaration of each name in generated code', () => {
+    const merged = mergeChunkResults([
+      'import { z } from "zod";\n\nexport const ASchema = z.object({});',
+      'import { z } from "zod";\n\nexport const ASchema = z.object({ a: z.string() });\n\nexport const BSchema = z.string();',
+    ], TargetFormat.ZOD);
+    expect(merged).toBe('import { z } from "zod";\n\nexport const ASchema = z.object({});\n\nexport const BSchema = z.string();\n');
+  });
+
+  it('unions JSON Schema properties with the first part winning', () => {
+    const merged = JSON.parse(mergeChunkResults([
+      JSON.stringify({ type: 'object', properties: { a: { type: 'string' } }, required: ['a'] }),
+      JSON.stringify({ type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['b'] }),
+    ], TargetFormat.JSON_SCHEMA));
+    expect(merged).toEqual({
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    });
+    expect(Object.keys(merged.properties)).toEqual(['a', 'b']);
+  });
+
+  it('falls back to concatenation when a part does not parse', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(mergeChunkResults(['[1]', 'not json'], TargetFormat.JSON)).toBe('[1]\n\nnot json');
+  });
+});
@@ -0,0 +1,278 @@
+import { PDFDocument } from "pdf-lib";
+import { TargetFormat } from "../types";
+import { JsonSchema } from "./jsonSchema";
+import { parseCsvRows, parseStructured, parseXmlDocument, serializeStructured } from "./localConverter";
+
+// Roughly 8k tokens of input per request leaves room for the converted output
+export const MAX_CHUNK_CHARS = 24000;
+export const PAGES_PER_CHUNK = 10;
+
+export interface DocumentChunk {
+  input: string | File;
+  label: string; // e.g. "第 11-20 页" or "第 2/5 段"
+}
+
+// ---------------------------------------------------------------------------
+// Splitting
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits oversized text on the strongest boundary available: Markdown
+ * headings first, then blank-line paragraphs, then lines, then hard cuts.
+ */
+const splitOversized = (text: string, maxChars: number): string[] => {
+  if (text.length <= maxChars) return [text];
+  const separators = [/\n(?=#{1,6}\s)/, /\n\s*\n/, /\n/];
+  for (const separator of separators) {
+    const pieces = text.split(separator);
+    if (pieces.length > 1) return pieces.flatMap(p => splitOversized(p, maxChars));
+  }
+  const cuts: string[] = [];
+  for (let i = 0; i < text.length; i += maxChars) cuts.push(text.slice(i, i + maxChars));
+  return cuts;
+};
+
+/**
+ * Packs section/paragraph pieces greedily into chunks of at most maxChars.
+ */
+export const splitText = (text: string, maxChars = MAX_CHUNK_CHARS): string[] => {
+  const pieces = splitOversized(text, maxChars);
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Splits a PDF into page-range sub-documents. Returns a single chunk for
+ * short documents.
+ */
+export const splitPdf = async (file: File, pagesPerChunk = PAGES_PER_CHUNK): Promise<DocumentChunk[]> => {
+  const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+  if (pageCount <= pagesPerChunk) return [{ input: file, label: `共 ${pageCount} 页` }];
+
+  const chunks: DocumentChunk[] = [];
+  const baseName = file.name.replace(/\.pdf$/i, '');
+  for (let start = 0; start < pageCount; start += pagesPerChunk) {
+    const end = Math.min(start + pagesPerChunk, pageCount);
+    const part = await PDFDocument.create();
+    const pages = await part.copyPages(source, Array.from({ length: end - start }, (_, i) => start + i));
+    pages.forEach(page => part.addPage(page));
+    const bytes = await part.save();
+    chunks.push({
+      input: new File([bytes as Uint8Array<ArrayBuffer>], `${baseName}_p${start + 1}-${end}.pdf`, { type: 'application/pdf' }),
+      label: `第 ${start + 1}-${end} 页`,
+    });
+  }
+  return chunks;
+};
+
+// ---------------------------------------------------------------------------
+// Shared context
+// ---------------------------------------------------------------------------
+
+// Top-level declarations in generated TypeScript and Zod code
+const DECLARATION = /^export (?:interface|type|const|enum) ([\w$]+)/gm;
+
+/**
+ * Describes the structure established by the first chunk so later chunks
+ * continue it instead of inventing their own.
+ */
+const describeStructure = (firstResult: string, format: TargetFormat): string => {
+  try {
+    switch (format) {
+      case TargetFormat.CSV: {
+        const header = parseCsvRows(firstResult)[0];
+        return header ? `Use exactly these CSV columns, in this order, and include the header row: ${header.join(',')}` : '';
+      }
+      case TargetFormat.JSON: {
+        const data = JSON.parse(firstResult);
+        const sample = Array.isArray(data) ? data[0] : data;
+        if (sample && typeof sample === 'object') {
+          return `Use the same JSON structure as earlier parts. ${Array.isArray(data) ? 'Output a JSON array of objects' : 'Output an object'} with keys: ${Object.keys(sample).join(', ')}`;
+        }
+        return '';
+      }
+      case TargetFormat.XLSX: {
+        const sheets = Object.entries(JSON.parse(firstResult) as Record<string, Row[]>)
+          .map(([name, rows]) => `"${name}" (${Object.keys(rows[0] || {}).join(', ')})`);
+        return `Use the same sheet names and columns as earlier parts where the tables continue: ${sheets.join('; ')}`;
+      }
+      case TargetFormat.XML:
+        return `Use the same root element <${parseXmlDocument(firstResult).name}> and the same child element structure as earlier parts.`;
+      case TargetFormat.MARKDOWN:
+      case TargetFormat.HTML:
+      case TargetFormat.DOCX:
+        return 'Continue the existing heading hierarchy; do not repeat the document title or restart numbering.';
+      case TargetFormat.SQL:
+        return 'Use the same table name and columns as earlier parts. Do not repeat CREATE TABLE statements.';
+      case TargetFormat.TYPESCRIPT:
+      case TargetFormat.ZOD: {
+        const names = [...firstResult.matchAll(DECLARATION)].map(m => m[1]);
+        return names.length > 0
+          ? `Earlier parts already declare: ${names.join(', ')}. Reference these by name instead of declaring them again, and only declare new types.`
+          : '';
+      }
+      case TargetFormat.JSON_SCHEMA: {
+        const defs = Object.keys(JSON.parse(firstResult).$defs || {});
+        return `Output a complete draft 2020-12 schema for this part.${defs.length > 0 ? ` Use the same "$defs" names as earlier parts for the same types: ${defs.join(', ')}` : ''}`;
+      }
+      default:
+        return '';
+    }
+  } catch {
+    return '';
+  }
+};
+
+export const buildChunkInstructions = (
+  index: number,
+  total: number,
+  label: string,
+  format: TargetFormat,
+  firstResult: string | null,
+  instructions?: string
+): string => {
+  const lines = [
+    `This input is part ${index + 1} of ${total} (${label}) of a longer document. Convert only this part; the parts will be merged afterwards.`,
+  ];
+  if (firstResult) {
+    const structure = describeStructure(firstResult, format);
+    if (structure) lines.push(structure);
+  }
+  if (instructions && instructions.trim()) lines.push(instructions.trim());
+  return lines.join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Merging
+// ---------------------------------------------------------------------------
+
+type Row = Record<string, unknown>;
+
+/**
+ * Combines parsed chunk results: arrays are concatenated, single-key wrapper
+ * objects like {"items": [...]} are merged by key, anything else becomes a list.
+ */
+const mergeData = (parts: unknown[]): unknown => {
+  if (parts.every(Array.isArray)) return (parts as unknown[][]).flat();
+  const isWrapper = (p: unknown): p is Row =>
+    !!p && typeof p === 'object' && !Array.isArray(p) && Object.values(p as Row).some(Array.isArray);
+  if (parts.every(isWrapper)) {
+    const merged: Row = {};
+    for (const part of parts) {
+      for (const [key, value] of Object.entries(part)) {
+        if (Array.isArray(value) && Array.isArray(merged[key])) merged[key] = [...(merged[key] as unknown[]), ...value];
+        else if (!(key in merged)) merged[key] = value;
+      }
+    }
+    return merged;
+  }
+  return parts.flatMap(p => (Array.isArray(p) ? p : [p]));
+};
+
+const mergeCsv = (parts: string[]): string => {
+  const header = parts[0].split(/\r?\n/, 1)[0];
+  const bodies = parts.map((part, i) => {
+    const lines = part.split(/\r?\n/);
+    // Later chunks repeat the header; drop it when identical
+    return (i > 0 && lines[0].trim() === header.trim() ? lines.slice(1) : lines).join('\n').trim();
+  });
+  return bodies.filter(Boolean).join('\n');
+};
+
+const mergeXml = (parts: string[]): string => {
+  const roots = parts.map(p => parseXmlDocument(p).name);
+  const strip = (p: string) => p.replace(/<\?xml[^>]*\?>\s*/, '').trim();
+  if (roots.every(r => r === roots[0])) {
+    const inner = parts.map(p => {
+      const body = strip(p);
+      return body.replace(new RegExp(`^<${roots[0]}(\\s[^>]*)?>`), '').replace(new RegExp(`</${roots[0]}>$`), '').trim();
+    });
+    const openTag = /^<[^>]+>/.exec(strip(parts[0]))![0];
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${openTag}\n${inner.filter(Boolean).join('\n')}\n</${roots[0]}>`;
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<root>\n${parts.map(strip).join('\n')}\n</root>`;
+};
+
+const mergeSql = (parts: string[]): string => {
+  const seen = new Set<string>();
+  return parts.map(part => part.replace(/CREATE TABLE[^;]+;\s*/gi, stmt => {
+    const key = stmt.replace(/\s+/g, ' ').trim().toLowerCase();
+    if (seen.has(key)) return '';
+    seen.add(key);
+    return stmt;
+  }).trim()).join('\n');
+};
+
+/**
+ * Joins generated code, keeping the first declaration of each name and the
+ * first copy of each import.
+ */
+const mergeCode = (parts: string[]): string => {
+  const seen = new Set<string>();
+  const blocks = parts.flatMap(part => part.split(/\n\s*\n/)).filter(block => {
+    const keys = [...block.matchAll(DECLARATION)].map(m => m[1]);
+    if (keys.length === 0 && /^import /.test(block.trim())) keys.push(block.trim());
+    if (keys.length > 0 && keys.every(key => seen.has(key))) return false;
+    keys.forEach(key => seen.add(key));
+    return true;
+  });
+  return `${blocks.map(block => block.trim()).join('\n\n')}\n`;
+};
+
+/**
+ * Unions the properties, $defs and required lists of per-part schemas. The
+ * first part wins where two parts define the same name.
+ */
+const mergeJsonSchemas = (parts: JsonSchema[]): JsonSchema => parts.reduce((merged, part) => {
+  const union = (first: unknown = {}, second: unknown = {}) =>
+    ({ ...(first as Row), ...Object.fromEntries(Object.entries(second as Row).filter(([key]) => !(key in (first as Row)))) });
+  const result: JsonSchema = { ...part, ...merged };
+  if (merged.properties || part.properties) result.properties = union(merged.properties, part.properties) as JsonSchema['properties'];
+  if (merged.$defs || part.$defs) result.$defs = union(merged.$defs, part.$defs);
+  if (merged.required || part.required) result.required = [...new Set([...(merged.required || []), ...(part.required || [])])];
+  return result;
+});
+
+/**
+ * Merges per-chunk outputs in a way that fits the target format. Falls back
+ * to plain concatenation when a chunk cannot be parsed.
+ */
+export const mergeChunkResults = (parts: string[], format: TargetFormat): string => {
+  const nonEmpty = parts.map(p => p.trim()).filter(Boolean);
+  if (nonEmpty.length <= 1) return nonEmpty[0] || '';
+  try {
+    switch (format) {
+      case TargetFormat.JSON:
+      case TargetFormat.XLSX:
+        return JSON.stringify(mergeData(nonEmpty.map(p => JSON.parse(p))), null, 2);
+      case TargetFormat.YAML:
+        return serializeStructured(mergeData(nonEmpty.map(p => parseStructured(p, 'yaml'))), TargetFormat.YAML);
+      case TargetFormat.CSV:
+        return mergeCsv(nonEmpty);
+      case TargetFormat.XML:
+        return mergeXml(nonEmpty);
+      case TargetFormat.SQL:
+        return mergeSql(nonEmpty);
+      case TargetFormat.TYPESCRIPT:
+      case TargetFormat.ZOD:
+        return mergeCode(nonEmpty);
+      case TargetFormat.JSON_SCHEMA:
+        return JSON.stringify(mergeJsonSchemas(nonEmpty.map(p => JSON.parse(p))), null, 2);
+      default:
+        return nonEmpty.join('\n\n');
+    }
+  } catch (error) {
+    console.warn('Structured merge failed, concatenating chunks:', error);
+    return nonEmpty.join('\n\n');
+  }
+};
@@ -0,0 +1,119 @@
+import type * as TS from "typescript";
+import { CodeCheckReport, CodeDiagnostic, TargetFormat } from "../types";
+
+const MAX_REPORTED_ERRORS = 20;
+const SOURCE_FILE = '/output.ts';
+const ZOD_TYPES_FILE = '/node_modules/zod/index.d.ts';
+
+// Zod itself is not needed to check generated schemas: the stub makes every
+// schema builder `any`, which still catches syntax errors, undeclared or
+// out-of-order schemas and duplicate names.
+const ZOD_STUB = `declare const z: any;
+declare namespace z {
+  type infer<T> = any;
+  type input<T> = any;
+  type output<T> = any;
+  type ZodType<O = any, D = any, I = any> = any;
+  type ZodTypeAny = any;
+  type ZodSchema<T = any> = any;
+}
+export { z };
+export default z;
+`;
+
+let compiler: Promise<typeof TS> | null = null;
+let standardLib: Promise<string> | null = null;
+
+/**
+ * Loads the TypeScript compiler once, from node_modules or the import map.
+ */
+const loadTypeScript = (): Promise<typeof TS> => {
+  if (!compiler) {
+    compiler = import("typescript").then(mod => ((mod as any).default ?? mod) as typeof TS);
+    compiler.catch(() => { compiler = null; });
+  }
+  return compiler;
+};
+
+/**
+ * lib.es5.d.ts of the installed compiler. Node reads it next to the
+ * compiler; browsers load the copy Vite bundles with the app.
+ */
+const loadStandardLib = (ts: typeof TS): Promise<string> => {
+  if (!standardLib) {
+    standardLib = typeof window === 'undefined'
+      ? Promise.resolve(ts.sys.readFile(ts.getDefaultLibFilePath({}).replace(/lib\.d\.ts$/, 'lib.es5.d.ts')) || '')
+      : import('typescript/lib/lib.es5.d.ts?raw').then(mod => mod.default);
+    standardLib.catch(() => { standardLib = null; });
+  }
+  return standardLib;
+};
+
+const toDiagnostic = (ts: typeof TS, diagnostic: TS.Diagnostic): CodeDiagnostic => {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: 0, character: 0 };
+  return {
+    line: position.line + 1,
+    column: position.character + 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  };
+};
+
+/**
+ * Type-checks generated TypeScript declarations or a Zod module in memory.
+ * Returns null when the compiler or its standard library cannot be loaded,
+ * which says nothing about the code.
+ */
+export const checkGeneratedCode = async (code: string, format: TargetFormat): Promise<CodeCheckReport | null> => {
+  let ts: typeof TS;
+  let lib: string;
+  try {
+    ts = await loadTypeScript();
+    lib = await loadStandardLib(ts);
+  } catch (error) {
+    console.warn('TypeScript compiler unavailable, skipping code check:', error);
+    return null;
+  }
+  if (!lib) return null;
+
+  const libFile = '/lib.es5.d.ts';
+  const files = new Map<string, string>([[SOURCE_FILE, code], [libFile, lib]]);
+  if (format === TargetFormat.ZOD) files.set(ZOD_TYPES_FILE, ZOD_STUB);
+
+  const options: TS.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    strict: true,
+    noEmit: true,
+    noLib: true,
+    types: [],
+  };
+  const host: TS.CompilerHost = {
+    getSourceFile: (name, languageVersion) => {
+      const text = files.get(name);
+      return text === undefined ? undefined : ts.createSourceFile(name, text, languageVersion, true);
+    },
+    getDefaultLibFileName: () => libFile,
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: name => name,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: name => files.has(name),
+    readFile: name => files.get(name),
+    directoryExists: name => [...files.keys()].some(f => f.startsWith(name.endsWith('/') ? name : `${name}/`)),
+    getDirectories: () => [],
+  };
+
+  const program = ts.createProgram([libFile, SOURCE_FILE], options, host);
+  const errors = ts.getPreEmitDiagnostics(program)
+    .filter(d => d.category === ts.DiagnosticCategory.Error && (!d.file || d.file.fileName === SOURCE_FILE))
+    .slice(0, MAX_REPORTED_ERRORS)
+    .map(d => toDiagnostic(ts, d));
+  return { checker: `TypeScript ${ts.version}`, errors };
+};
+
+export const formatCodeErrors = (errors: CodeDiagnostic[]): string =>
+  errors.map(e => `Line ${e.line}, column ${e.column}: ${e.message}`).join('\n');
@@ -0,0 +1,30 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TargetFormat } from '../types';
+import { convertDocument } from './conversionService';
+import { createMockProvider } from './providers/mockProvider';
+
+// Engines that fail to load, as when the browser cannot fetch their files
+vi.mock('./sqlCheck', async importOriginal => ({
+  ...(await importOriginal<typeof import('./sqlCheck')>()),
+  checkSqlScript: async () => null,
+}));
+vi.mock('./codeCheck', async importOriginal => ({
+  ...(await importOriginal<typeof import('./codeCheck')>()),
+  checkGeneratedCode: async () => null,
+}));
+
+describe('convertDocument checks', () => {
+  it('reports a SQL check that could not run without failing the output', async () => {
+    const result = await convertDocument('name,age\nAnn,30\nBob,41', TargetFormat.SQL, '', { provider: createMockProvider() });
+    expect(result.text).toContain('INSERT INTO');
+    expect(result.validation.valid).toBe(true);
+    expect(result.validation.checkSkipped).toBe('未能加载 SQLite 引擎，SQL 未经试运行检查。');
+  });
+
+  it('reports a type check that could not run without failing the output', async () => {
+    const result = await convertDocument('[{"id": 1, "name": "Ann"}]', TargetFormat.TYPESCRIPT, '', { provider: createMockProvider() });
+    expect(result.text).toContain('export interface');
+    expect(result.validation.valid).toBe(true);
+    expect(result.validation.checkSkipped).toBe('未能加载 TypeScript 编译器，代码未经类型检查。');
+  });
+});
@@ -0,0 +1,477 @@
+import { TargetFormat, ConversionResult, ChunkProgress, CodeCheckReport, CsvOptions, RedactionOptions, SchemaFieldError, SqlCheckReport, SqlOptions, TextEncodingId, TokenUsage, ValidationResult } from "../types";
+import { buildChunkInstructions, DocumentChunk, MAX_CHUNK_CHARS, mergeChunkResults, splitPdf, splitText } from "./chunking";
+import { checkGeneratedCode, formatCodeErrors } from "./codeCheck";
+import { canExtractText, extractDocument, isExtractableFile } from "./documentExtract";
+import { formatSchemaErrors, JsonSchema, lintJsonSchema, validateAgainstSchema } from "./jsonSchema";
+import { formatCsv, tryLocalConvert } from "./localConverter";
+import { stripCodeFences, validateOutput } from "./outputValidator";
+import { applyRedactionNote, applyResponseSchema, applySqlOptions, getMimeType, isTextFile, readTextFile } from "./prompt";
+import { ConversionProvider, DEFAULT_PROVIDER_SETTINGS, GenerateOptions, PromptRequest, createProvider } from "./providers";
+import { RedactedText, redactText, restorePlaceholders } from "./redaction";
+import { checkSqlScript, formatSqlErrors } from "./sqlCheck";
+import { DEFAULT_SQL_OPTIONS } from "./sqlDialect";
+import { addUsage, EMPTY_USAGE, estimateRequestTokens } from "./usage";
+
+// How many times the model is asked to fix output that fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface ConversionOptions extends GenerateOptions {
+  provider?: ConversionProvider; // Defaults to Gemini
+  schema?: JsonSchema; // Required shape of JSON output; ignored for other targets
+  temperature?: number; // Overrides the prompt's default sampling temperature
+  sql?: SqlOptions; // Dialect and layout of SQL output; ignored for other targets
+  csv?: CsvOptions; // Delimiter, quoting and line endings of CSV output
+  encoding?: TextEncodingId; // Of text file inputs; detected when omitted
+  redaction?: RedactionOptions; // Masks personal data in the input before anything is sent
+  maskedInput?: boolean; // The input already holds redaction placeholders; they are explained, not masked again
+}
+
+export interface DocumentConversionOptions extends ConversionOptions {
+  onChunkProgress?: (progress: ChunkProgress) => void;
+}
+
+/**
+ * What the first model call of a conversion would receive.
+ */
+export interface PromptInspection {
+  route: 'local' | 'model' | 'proxy'; // local: converted without a model, nothing is sent
+  provider: string;
+  model: string;
+  chunkCount: number; // Parts the document is split into; the request shown is for the first
+  chunkLabel: string | null;
+  request: PromptRequest | null; // null for local conversions
+  estimatedTokens: number; // Input tokens, estimated offline
+}
+
+/**
+ * Thrown when a conversion is aborted through its AbortSignal.
+ */
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super("转换已取消");
+    this.name = "ConversionCancelledError";
+  }
+}
+
+/**
+ * A failure worth retrying later, e.g. a rate limit or a temporarily
+ * unavailable backend. retryAfterMs is the delay the server asked for, if any.
+ */
+export class RetryableConversionError extends Error {
+  constructor(message: string, public retryAfterMs = 0) {
+    super(message);
+    this.name = "RetryableConversionError";
+  }
+}
+
+interface OutputCheck {
+  error: string | null;
+  fieldErrors?: SchemaFieldError[];
+  sqlCheck?: SqlCheckReport;
+  codeCheck?: CodeCheckReport;
+  skipped?: string; // The check could not run; the output is not failed for it
+}
+
+/**
+ * Runs SQL output in SQLite. Passes when the engine cannot be loaded, since
+ * that says nothing about the script, but records that the check was skipped.
+ */
+const checkSql = async (output: string, options: SqlOptions = DEFAULT_SQL_OPTIONS): Promise<OutputCheck> => {
+  const sqlCheck = await checkSqlScript(output, options.dialect);
+  if (!sqlCheck) return { error: null, skipped: "未能加载 SQLite 引擎，SQL 未经试运行检查。" };
+  if (sqlCheck.statements === 0) return { error: "SQL 内容为空", sqlCheck };
+  const skipped = sqlCheck.unchecked.length > 0
+    ? `第 ${sqlCheck.unchecked.join('、')} 条语句为方言专有语法，SQLite 无法运行，未经检查。`
+    : undefined;
+  const [first] = sqlCheck.errors;
+  if (!first) return { error: null, sqlCheck, skipped };
+  const more = sqlCheck.errors.length > 1 ? `，共 ${sqlCheck.errors.length} 处错误` : '';
+  return { error: `SQLite 执行失败：第 ${first.statement} 条语句 (第 ${first.line} 行) ${first.message}${more}`, sqlCheck, skipped };
+};
+
+/**
+ * Type-checks TypeScript and Zod output. Like the SQL check, passes when the
+ * compiler cannot be loaded and records that the check was skipped.
+ */
+const checkCode = async (output: string, targetFormat: TargetFormat): Promise<OutputCheck> => {
+  const codeCheck = await checkGeneratedCode(output, targetFormat);
+  if (!codeCheck) return { error: null, skipped: "未能加载 TypeScript 编译器，代码未经类型检查。" };
+  const [first] = codeCheck.errors;
+  if (!first) return { error: null, codeCheck };
+  const more = codeCheck.errors.length > 1 ? `，共 ${codeCheck.errors.length} 处错误` : '';
+  return { error: `类型检查失败：第 ${first.line} 行 ${first.message}${more}`, codeCheck };
+};
+
+const CODE_FORMATS = [TargetFormat.TYPESCRIPT, TargetFormat.ZOD];
+
+/**
+ * Checks output syntax and, for JSON with a schema, its structure. SQL is
+ * executed in an in-memory SQLite database, generated code is type-checked
+ * and JSON Schema output is linted as a schema.
+ */
+const checkOutput = async (output: string, targetFormat: TargetFormat, schema?: JsonSchema, sql?: SqlOptions): Promise<OutputCheck> => {
+  const error = validateOutput(output, targetFormat);
+  if (!error && targetFormat === TargetFormat.SQL) return checkSql(output, sql);
+  if (!error && CODE_FORMATS.includes(targetFormat)) return checkCode(output, targetFormat);
+  if (!error && targetFormat === TargetFormat.JSON_SCHEMA) {
+    const fieldErrors = lintJsonSchema(JSON.parse(output));
+    return fieldErrors.length > 0 ? { error: "生成的 JSON Schema 无效", fieldErrors } : { error: null };
+  }
+  if (error || !schema || targetFormat !== TargetFormat.JSON) return { error };
+  const fieldErrors = validateAgainstSchema(JSON.parse(output), schema);
+  return fieldErrors.length > 0 ? { error: "输出不符合 JSON Schema", fieldErrors } : { error: null };
+};
+
+const toValidationResult = (check: OutputCheck, repairAttempts: number): ValidationResult =>
+  check.error
+    ? { valid: false, error: check.error, fieldErrors: check.fieldErrors, sqlCheck: check.sqlCheck, codeCheck: check.codeCheck, checkSkipped: check.skipped, repairAttempts }
+    : { valid: true, sqlCheck: check.sqlCheck, codeCheck: check.codeCheck, checkSkipped: check.skipped, repairAttempts };
+
+/**
+ * Result of a conversion done without the model. Local output is well-formed
+ * by construction; generated SQL is still run and generated code still
+ * type-checked so their reports can be shown.
+ */
+const toLocalResult = async (text: string, targetFormat: TargetFormat, sql?: SqlOptions): Promise<ConversionResult> => ({
+  text,
+  validation: targetFormat === TargetFormat.SQL
+    ? toValidationResult(await checkSql(text, sql), 0)
+    : CODE_FORMATS.includes(targetFormat)
+      ? toValidationResult(await checkCode(text, targetFormat), 0)
+      : { valid: true, repairAttempts: 0 },
+});
+
+/**
+ * Rewrites CSV output in the requested dialect once it parses. The model
+ * writes plain CSV; delimiter, quoting and line endings are applied here.
+ */
+const finalizeResult = (result: ConversionResult, targetFormat: TargetFormat, csv?: CsvOptions): ConversionResult =>
+  targetFormat === TargetFormat.CSV && csv && result.validation.valid
+    ? { ...result, text: formatCsv(result.text, csv) }
+    : result;
+
+/**
+ * Re-encodes a text file read with an explicit encoding as UTF-8, so later
+ * reads see the right characters without the encoding being passed along.
+ */
+const applyEncoding = async (input: string | File, encoding?: TextEncodingId): Promise<string | File> => {
+  if (!encoding || !(input instanceof File) || !isTextFile(input)) return input;
+  return new File([await readTextFile(input, encoding)], input.name, { type: input.type });
+};
+
+/**
+ * Prepares an input for the pipeline: text is re-encoded as requested, and
+ * spreadsheets, presentations and e-books are replaced by their extracted
+ * content as a Markdown file, which is then handled as text. With redaction
+ * on, Word documents are extracted as well and personal data is masked;
+ * inputs whose text cannot be read locally are refused rather than sent
+ * unmasked.
+ */
+const prepareInput = async (
+  input: string | File,
+  options: ConversionOptions
+): Promise<{ input: string | File; redacted: RedactedText | null }> => {
+  input = await applyEncoding(input, options.encoding);
+  const redaction = options.redaction?.enabled ? options.redaction : null;
+  if (input instanceof File && (isExtractableFile(input) || (redaction && canExtractText(input)))) {
+    input = new File([await extractDocument(input)], `${input.name}.md`, { type: 'text/markdown' });
+  }
+  if (!redaction) return { input, redacted: null };
+  if (input instanceof File && !isTextFile(input)) {
+    throw new Error(`已开启敏感信息脱敏，但 ${input.name} 的文字无法在本地读取（如 PDF、图片），为避免原文外发，未进行转换。`);
+  }
+  const redacted = redactText(input instanceof File ? await readTextFile(input) : input, redaction);
+  return {
+    input: input instanceof File ? new File([redacted.text], input.name, { type: input.type }) : redacted.text,
+    redacted,
+  };
+};
+
+/**
+ * Translates a failure into a user-facing error, keeping cancellations and
+ * retryable failures recognisable to callers.
+ */
+const toConversionError = (error: any, provider: ConversionProvider, signal?: AbortSignal): Error => {
+  if (signal?.aborted || error instanceof ConversionCancelledError) {
+    return new ConversionCancelledError();
+  }
+  console.error("Conversion error:", error);
+  const mapped = provider.mapError(error);
+  const retryAfterMs = provider.retryAfter(error);
+  return retryAfterMs === null ? mapped : new RetryableConversionError(mapped.message, retryAfterMs);
+};
+
+/**
+ * Structured-to-structured jobs are handled locally: exact, instant, and
+ * nothing leaves the browser. Extra instructions and schemas need the model's
+ * judgement, so they always go remote. Returns null when the model is needed.
+ */
+const tryLocalPath = async (
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions?: string,
+  options: ConversionOptions = {}
+): Promise<string | null> => {
+  if (options.schema || (instructions && instructions.trim().length > 0)) return null;
+  if (!(input instanceof File)) return tryLocalConvert(input, targetFormat, undefined, options);
+  return isTextFile(input) ? tryLocalConvert(await readTextFile(input), targetFormat, input.name, options) : null;
+};
+
+const buildRequest = async (
+  provider: ConversionProvider,
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions: string | undefined,
+  options: ConversionOptions
+) => {
+  let request = await provider.buildPrompt(input, targetFormat, instructions);
+  if (options.schema && targetFormat === TargetFormat.JSON) request = applyResponseSchema(request, options.schema);
+  if (targetFormat === TargetFormat.SQL) request = applySqlOptions(request, options.sql || DEFAULT_SQL_OPTIONS);
+  if (options.redaction?.enabled || options.maskedInput) request = applyRedactionNote(request);
+  if (options.temperature !== undefined) request.temperature = options.temperature;
+  return request;
+};
+
+/**
+ * Main conversion function. Structured inputs are converted locally; everything
+ * else goes through the selected provider, whose output is streamed, validated
+ * against the target format and sent back for repair when it fails.
+ */
+export const convertContent = async (
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions?: string,
+  options: ConversionOptions = {}
+): Promise<ConversionResult> => {
+  const provider = options.provider || createProvider(DEFAULT_PROVIDER_SETTINGS);
+  const { signal, onProgress } = options;
+  const schema = targetFormat === TargetFormat.JSON ? options.schema : undefined;
+
+  try {
+    const localResult = await tryLocalPath(input, targetFormat, instructions, { ...options, schema });
+    if (localResult !== null) return await toLocalResult(localResult, targetFormat, options.sql);
+
+    const request = await buildRequest(provider, input, targetFormat, instructions, options);
+    let output = '';
+    let check: OutputCheck = { error: null };
+    let repairAttempts = 0;
+    let usage = EMPTY_USAGE;
+
+    while (true) {
+      const responseText = await provider.generate(request, { signal, onProgress, onUsage: u => { usage = addUsage(usage, u); } });
+      if (signal?.aborted) throw new ConversionCancelledError();
+
+      if (!responseText) {
+        return { text: "未生成任何内容。", validation: { valid: false, error: "模型未返回内容", repairAttempts }, usage };
+      }
+
+      output = targetFormat === TargetFormat.MARKDOWN ? responseText : stripCodeFences(responseText);
+      check = await checkOutput(output, targetFormat, schema, options.sql);
+      if (!check.error || repairAttempts >= MAX_REPAIR_ATTEMPTS) break;
+
+      // Feed the parser or schema errors back so the model can correct its own output
+      repairAttempts++;
+      const problem = check.fieldErrors
+        ? targetFormat === TargetFormat.JSON_SCHEMA
+          ? `The JSON Schema above is not a valid draft 2020-12 schema. Problems:\n${formatSchemaErrors(check.fieldErrors)}`
+          : `The output above does not conform to the required JSON Schema. Violations:\n${formatSchemaErrors(check.fieldErrors)}`
+        : check.codeCheck?.errors.length
+          ? `Type-checking the code above with ${check.codeCheck.checker} failed:\n${formatCodeErrors(check.codeCheck.errors)}`
+        : check.sqlCheck?.errors.length
+          ? `Running the SQL above in a test database failed${check.sqlCheck.translated ? ' (dialect syntax was adapted for SQLite)' : ''}:\n${formatSqlErrors(check.sqlCheck.errors)}`
+          : `The output above is not valid ${targetFormat}. Parser error: ${check.error}`;
+      request.turns.push(
+        { role: 'model', parts: [{ text: output }] },
+        { role: 'user', parts: [{ text: `${problem}\n\nReturn the complete corrected output only, with no explanations or code fences.` }] }
+      );
+    }
+
+    return { text: output, validation: toValidationResult(check, repairAttempts), usage };
+  } catch (error: any) {
+    throw toConversionError(error, provider, signal);
+  }
+};
+
+/**
+ * Splits a document into the parts convertDocument converts in turn. Long
+ * structured text converts locally in one piece regardless of size; its
+ * result comes back as localResult with no chunks.
+ */
+const splitDocument = async (
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions?: string,
+  options: ConversionOptions = {}
+): Promise<{ chunks: DocumentChunk[]; localResult: string | null }> => {
+  try {
+    if (input instanceof File && getMimeType(input) === 'application/pdf') {
+      return { chunks: await splitPdf(input), localResult: null };
+    }
+    if (input instanceof File && !isTextFile(input)) {
+      return { chunks: [{ input, label: input.name }], localResult: null };
+    }
+    const text = input instanceof File ? await readTextFile(input) : input;
+    if (text.length <= MAX_CHUNK_CHARS) {
+      return { chunks: [{ input, label: '全文' }], localResult: null };
+    }
+    const localResult = instructions?.trim() || options.schema ? null : tryLocalConvert(text, targetFormat, input instanceof File ? input.name : undefined, options);
+    if (localResult !== null) return { chunks: [], localResult };
+    const parts = splitText(text);
+    return { chunks: parts.map((part, i) => ({ input: part, label: `第 ${i + 1}/${parts.length} 段` })), localResult: null };
+  } catch (error: any) {
+    console.error("Chunking error:", error);
+    throw new Error(`无法拆分文档：${error.message || error}`);
+  }
+};
+
+/**
+ * convertDocument after the input has been prepared.
+ */
+const convertPreparedDocument = async (
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions: string | undefined,
+  options: DocumentConversionOptions
+): Promise<ConversionResult> => {
+  const { onChunkProgress, onProgress, ...conversionOptions } = options;
+  const schema = targetFormat === TargetFormat.JSON ? conversionOptions.schema : undefined;
+
+  const provider = options.provider;
+  if (provider?.convertRemotely) {
+    try {
+      return await provider.convertRemotely(input, targetFormat, instructions, { ...options, schema });
+    } catch (error: any) {
+      throw toConversionError(error, provider, options.signal);
+    }
+  }
+
+  const { chunks, localResult } = await splitDocument(input, targetFormat, instructions, { ...conversionOptions, schema });
+  if (localResult !== null) return toLocalResult(localResult, targetFormat, options.sql);
+
+  if (chunks.length === 1) {
+    const result = await convertContent(chunks[0].input, targetFormat, instructions, { ...conversionOptions, onProgress });
+    return finalizeResult(result, targetFormat, options.csv);
+  }
+
+  const results: string[] = [];
+  let repairAttempts = 0;
+  let usage = EMPTY_USAGE;
+  onChunkProgress?.({ completed: 0, total: chunks.length });
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const chunkInstructions = buildChunkInstructions(i, chunks.length, chunk.label, targetFormat, results[0] ?? null, instructions);
+    try {
+      const result = await convertContent(chunk.input, targetFormat, chunkInstructions, {
+        ...conversionOptions,
+        // Show everything converted so far followed by the part currently streaming
+        onProgress: partial => onProgress?.([...results, partial].join('\n\n')),
+      });
+      results.push(result.text);
+      repairAttempts += result.validation.repairAttempts;
+      usage = addUsage(usage, result.usage);
+    } catch (error: any) {
+      if (error instanceof ConversionCancelledError) throw error;
+      const message = `${chunk.label}转换失败：${error.message}`;
+      throw error instanceof RetryableConversionError ? new RetryableConversionError(message, error.retryAfterMs) : new Error(message);
+    }
+    onChunkProgress?.({ completed: i + 1, total: chunks.length });
+  }
+
+  const merged = mergeChunkResults(results, targetFormat);
+  const validation = toValidationResult(await checkOutput(merged, targetFormat, schema, options.sql), repairAttempts);
+  return finalizeResult({ text: merged, validation, usage }, targetFormat, options.csv);
+};
+
+/**
+ * Converts a whole document. Long text and multi-page PDFs are split into
+ * chunks that are converted in order with shared context, then merged in a
+ * way that fits the target format. Providers that convert remotely receive
+ * the document as a whole. With redaction on, only placeholders are sent and
+ * the original values are put back into the streamed and final output.
+ */
+export const convertDocument = async (
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions?: string,
+  options: DocumentConversionOptions = {}
+): Promise<ConversionResult> => {
+  const prepared = await prepareInput(input, options);
+  const { redacted } = prepared;
+  if (!redacted) return convertPreparedDocument(prepared.input, targetFormat, instructions, options);
+
+  const restore = (text: string) => restorePlaceholders(text, redacted.values, targetFormat);
+  const { onProgress } = options;
+  const result = await convertPreparedDocument(prepared.input, targetFormat, instructions, {
+    ...options,
+    // A proxy server must not mask the placeholders a second time
+    redaction: undefined,
+    maskedInput: true,
+    onProgress: onProgress && (partial => onProgress(restore(partial).text)),
+  });
+  const { text, missing } = restore(result.text);
+  return { ...result, text, redaction: { entries: redacted.entries, missing } };
+};
+
+/**
+ * Pre-flight token estimate for a conversion. Input tokens come from the
+ * provider's counter; output is assumed to be about as long as the input,
+ * which holds for format conversions. Repairs are not included, and chunked
+ * documents are estimated as a whole. Local conversions cost nothing.
+ */
+export const estimateConversion = async (
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions?: string,
+  options: ConversionOptions = {}
+): Promise<TokenUsage> => {
+  const provider = options.provider || createProvider(DEFAULT_PROVIDER_SETTINGS);
+  const schema = targetFormat === TargetFormat.JSON ? options.schema : undefined;
+  try {
+    input = (await prepareInput(input, options)).input;
+    if (await tryLocalPath(input, targetFormat, instructions, { ...options, schema }) !== null) return EMPTY_USAGE;
+    const request = await buildRequest(provider, input, targetFormat, instructions, options);
+    const inputTokens = await provider.countTokens(request);
+    return { inputTokens, outputTokens: inputTokens };
+  } catch (error: any) {
+    console.error("Token counting error:", error);
+    throw provider.mapError(error);
+  }
+};
+
+/**
+ * Builds the request the first model call of a conversion would receive,
+ * without sending anything. Repair turns are added only after a failed
+ * validation and are not shown.
+ */
+export const inspectConversion = async (
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions?: string,
+  options: ConversionOptions = {}
+): Promise<PromptInspection> => {
+  const provider = options.provider || createProvider(DEFAULT_PROVIDER_SETTINGS);
+  const schema = targetFormat === TargetFormat.JSON ? options.schema : undefined;
+  const base = { provider: provider.label, model: provider.model };
+  const local = { ...base, route: 'local' as const, chunkCount: 0, chunkLabel: null, request: null, estimatedTokens: 0 };
+
+  // The proxy server runs this same pipeline, so its requests are assembled the same way
+  input = (await prepareInput(input, options)).input;
+  if (await tryLocalPath(input, targetFormat, instructions, { ...options, schema }) !== null) return local;
+  const { chunks, localResult } = await splitDocument(input, targetFormat, instructions, { ...options, schema });
+  if (localResult !== null) return local;
+
+  const first = chunks[0];
+  const chunkInstructions = chunks.length > 1
+    ? buildChunkInstructions(0, chunks.length, first.label, targetFormat, null, instructions)
+    : instructions;
+  const request = await buildRequest(provider, first.input, targetFormat, chunkInstructions, options);
+  return {
+    ...base,
+    route: provider.convertRemotely ? 'proxy' : 'model',
+    chunkCount: chunks.length,
+    chunkLabel: chunks.length > 1 ? first.label : null,
+    request,
+    estimatedTokens: estimateRequestTokens(request),
+  };
+};
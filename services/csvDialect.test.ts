@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { CsvOptions } from '../types';
+import { DEFAULT_CSV_OPTIONS, normalizeCsvOptions, writeCsv } from './csvDialect';
+import { formatCsv } from './localConverter';
+
+const options = (overrides: Partial<CsvOptions>): CsvOptions => ({ ...DEFAULT_CSV_OPTIONS, ...overrides });
+
+const rows = [['name', 'age', 'note'], ['Ann', '30', 'a, "b"'], ['Bob', '-4.5e2', 'line\nbreak']];
+
+describe('writeCsv', () => {
+  it('quotes only fields that need it by default', () => {
+    expect(writeCsv(rows, DEFAULT_CSV_OPTIONS))
+      .toBe('name,age,note\nAnn,30,"a, ""b"""\nBob,-4.5e2,"line\nbreak"');
+  });
+
+  it('quotes every field', () => {
+    expect(writeCsv([['a', '1']], options({ quoteStyle: 'all' }))).toBe('"a","1"');
+  });
+
+  it('quotes every field that is not a number', () => {
+    expect(writeCsv([['a', '1', '-4.5e2', '1,5', '']], options({ quoteStyle: 'nonnumeric' })))
+      .toBe('"a",1,-4.5e2,"1,5",""');
+  });
+
+  it('quotes by the chosen delimiter rather than by commas', () => {
+    expect(writeCsv([['a,b', 'c;d']], options({ delimiter: ';' }))).toBe('a,b;"c;d"');
+    expect(writeCsv([['a b', 'c\td']], options({ delimiter: '\t' }))).toBe('a b\t"c\td"');
+  });
+
+  it('joins rows with CRLF when asked', () => {
+    expect(writeCsv([['a'], ['b']], options({ lineEnding: 'crlf' }))).toBe('a\r\nb');
+  });
+});
+
+describe('normalizeCsvOptions', () => {
+  it('falls back to the defaults for missing or unknown values', () => {
+    expect(normalizeCsvOptions(undefined)).toEqual(DEFAULT_CSV_OPTIONS);
+    expect(normalizeCsvOptions({ delimiter: ':', quoteStyle: 'some', lineEnding: 'cr', bom: 'yes' })).toEqual(DEFAULT_CSV_OPTIONS);
+  });
+
+  it('keeps supported values', () => {
+    const custom: CsvOptions = { delimiter: '|', quoteStyle: 'nonnumeric', lineEnding: 'crlf', bom: true };
+    expect(normalizeCsvOptions(custom)).toEqual(custom);
+  });
+});
+
+describe('formatCsv', () => {
+  it('rewrites CSV from any delimiter into the requested dialect', () => {
+    expect(formatCsv('name;note\nAnn;"x;y"\n', options({ delimiter: '\t', lineEnding: 'crlf' })))
+      .toBe('name\tnote\r\nAnn\tx;y');
+  });
+
+  it('keeps quoted newlines and quotes inside fields', () => {
+    expect(formatCsv('a,b\n"1\n2","say ""hi"""', DEFAULT_CSV_OPTIONS)).toBe('a,b\n"1\n2","say ""hi"""');
+  });
+});
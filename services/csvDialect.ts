@@ -0,0 +1,51 @@
+import { CsvOptions } from "../types";
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  delimiter: ',',
+  quoteStyle: 'minimal',
+  lineEnding: 'lf',
+  bom: false,
+};
+
+export const CSV_DELIMITER_OPTIONS: { id: CsvOptions['delimiter']; label: string }[] = [
+  { id: ',', label: '逗号 ,' },
+  { id: ';', label: '分号 ;' },
+  { id: '\t', label: '制表符 Tab' },
+  { id: '|', label: '竖线 |' },
+];
+
+export const CSV_QUOTE_OPTIONS: { id: CsvOptions['quoteStyle']; label: string }[] = [
+  { id: 'minimal', label: '仅在需要时' },
+  { id: 'all', label: '全部加引号' },
+  { id: 'nonnumeric', label: '非数字加引号' },
+];
+
+export const UTF8_BOM = '\uFEFF';
+
+/**
+ * Fills in defaults for CSV options from presets or the API.
+ */
+export const normalizeCsvOptions = (raw: any): CsvOptions => ({
+  delimiter: CSV_DELIMITER_OPTIONS.some(d => d.id === raw?.delimiter) ? raw.delimiter : DEFAULT_CSV_OPTIONS.delimiter,
+  quoteStyle: CSV_QUOTE_OPTIONS.some(q => q.id === raw?.quoteStyle) ? raw.quoteStyle : DEFAULT_CSV_OPTIONS.quoteStyle,
+  lineEnding: raw?.lineEnding === 'crlf' ? 'crlf' : 'lf',
+  bom: raw?.bom === true,
+});
+
+const NUMERIC_RE = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+const quoteField = (value: string, options: CsvOptions): string => {
+  const needsQuotes = value.includes(options.delimiter) || /["\r\n]/.test(value);
+  const quote = options.quoteStyle === 'all'
+    || (options.quoteStyle === 'nonnumeric' && !NUMERIC_RE.test(value))
+    || needsQuotes;
+  return quote ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Serializes rows of cells with the given delimiter, quoting and line ending.
+ */
+export const writeCsv = (rows: string[][], options: CsvOptions): string =>
+  rows.map(row => row.map(cell => quoteField(cell, options)).join(options.delimiter))
+    .join(options.lineEnding === 'crlf' ? '\r\n' : '\n');
+
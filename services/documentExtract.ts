@@ -0,0 +1,614 @@
+import { DOCX_MIME_TYPE } from "./docxWriter";
+import { findElements, HtmlElement, HtmlNode, parseHtml, textContent } from "./htmlTree";
+import { parseXmlDocument, XmlElement } from "./localConverter";
+import { getMimeType } from "./prompt";
+import { XLSX_MIME_TYPE } from "./xlsxWriter";
+import { readZip } from "./zip";
+
+/**
+ * Client-side text extraction for container formats the models cannot read
+ * as inline data: spreadsheets (XLSX, ODS), presentations (PPTX) and e-books
+ * (EPUB), plus Word documents when their text is needed locally. The result
+ * is Markdown; workbooks become one pipe table per sheet under a heading with
+ * the sheet name, so they also convert locally.
+ */
+
+export const ODS_MIME_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+export const EPUB_MIME_TYPE = 'application/epub+zip';
+
+// Only markup parts are inflated; media and fonts are skipped
+const MARKUP_PART = /\.(xml|rels|opf|xhtml|html?)$/i;
+
+// Guards against sheets whose used range is padded out to the format's limits
+const MAX_COLUMNS = 1024;
+
+type Parts = Map<string, Uint8Array>;
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+const decoder = new TextDecoder();
+
+const readXml = (parts: Parts, path: string): XmlElement | null => {
+  const bytes = parts.get(path);
+  return bytes ? parseXmlDocument(decoder.decode(bytes)) : null;
+};
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+const isElement = (node: XmlElement | string): node is XmlElement => typeof node !== 'string';
+
+const childElements = (element: XmlElement, name?: string): XmlElement[] =>
+  element.children.filter(isElement).filter(c => !name || localName(c.name) === name);
+
+const childElement = (element: XmlElement, name: string): XmlElement | undefined =>
+  childElements(element, name)[0];
+
+/**
+ * Finds all descendants with the given local name, not descending into matches.
+ */
+const descendants = (element: XmlElement, name: string): XmlElement[] =>
+  childElements(element).flatMap(c => (localName(c.name) === name ? [c] : descendants(c, name)));
+
+// Attributes are looked up by local name; prefixes vary between producers
+const attribute = (element: XmlElement, name: string): string | undefined => {
+  if (name in element.attributes) return element.attributes[name];
+  const key = Object.keys(element.attributes).find(k => k.includes(':') && localName(k) === name);
+  return key === undefined ? undefined : element.attributes[key];
+};
+
+// The relationship id, which sits next to a plain "id" on some elements
+const relationshipId = (element: XmlElement): string | undefined =>
+  Object.entries(element.attributes).find(([k]) => k.endsWith(':id'))?.[1];
+
+const xmlText = (node: XmlElement | string): string =>
+  typeof node === 'string' ? node : node.children.map(xmlText).join('');
+
+const directory = (path: string): string => path.slice(0, path.lastIndexOf('/') + 1);
+
+/**
+ * Resolves a relative package path such as "../notesSlides/notesSlide1.xml".
+ */
+const resolvePath = (base: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const segments = directory(base).split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+interface Relationship {
+  type: string;
+  target: string; // Resolved package path
+}
+
+/**
+ * Reads the OPC relationships of a part, keyed by relationship id.
+ */
+const readRelationships = (parts: Parts, partPath: string): Map<string, Relationship> => {
+  const dir = directory(partPath);
+  const rels = readXml(parts, `${dir}_rels/${partPath.slice(dir.length)}.rels`);
+  const result = new Map<string, Relationship>();
+  if (!rels) return result;
+  for (const rel of childElements(rels, 'Relationship')) {
+    if (rel.attributes.TargetMode === 'External') continue;
+    result.set(rel.attributes.Id, { type: rel.attributes.Type || '', target: resolvePath(partPath, rel.attributes.Target || '') });
+  }
+  return result;
+};
+
+const findRelationship = (rels: Map<string, Relationship>, type: string): Relationship | undefined =>
+  [...rels.values()].find(r => r.type.endsWith(`/${type}`));
+
+const markdownCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim();
+
+/**
+ * Renders rows of cells as a pipe table with the first row as its header.
+ */
+const markdownTable = (rows: string[][]): string => {
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => markdownCell(row[i] ?? '')).join(' | ')} |`;
+  return [line(rows[0]), `| ${Array(width).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)].join('\n');
+};
+
+/**
+ * Drops trailing empty rows and the columns that are empty in every row.
+ */
+const trimGrid = (rows: string[][]): string[][] => {
+  const width = Math.max(0, ...rows.map(row => {
+    let w = row.length;
+    while (w > 0 && !row[w - 1]) w--;
+    return w;
+  }));
+  const trimmed = rows.map(row => Array.from({ length: width }, (_, i) => row[i] ?? ''));
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1].every(c => !c)) trimmed.pop();
+  return width === 0 ? [] : trimmed;
+};
+
+const renderSheets = (sheets: { name: string; rows: string[][] }[]): string => {
+  const sections = sheets
+    .map(sheet => ({ name: sheet.name, rows: trimGrid(sheet.rows) }))
+    .filter(sheet => sheet.rows.length > 0)
+    .map(sheet => `## ${sheet.name}\n\n${markdownTable(sheet.rows)}`);
+  if (sections.length === 0) throw new Error("工作簿中没有数据");
+  return sections.join('\n\n');
+};
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+const isDateFormatCode = (code: string): boolean =>
+  /[dmyhs]/i.test(code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, ''));
+
+/**
+ * Style indexes whose number format is a date or time.
+ */
+const readDateStyles = (styles: XmlElement | null): Set<number> => {
+  const result = new Set<number>();
+  if (!styles) return result;
+  const custom = new Map<number, string>();
+  for (const fmt of descendants(styles, 'numFmt')) custom.set(Number(fmt.attributes.numFmtId), fmt.attributes.formatCode || '');
+  const cellXfs = descendants(styles, 'cellXfs')[0];
+  if (!cellXfs) return result;
+  childElements(cellXfs, 'xf').forEach((xf, index) => {
+    const id = Number(xf.attributes.numFmtId || 0);
+    if (BUILTIN_DATE_FORMATS.has(id) || (custom.has(id) && isDateFormatCode(custom.get(id)!))) result.add(index);
+  });
+  return result;
+};
+
+/**
+ * Formats an Excel date serial as ISO date and/or time.
+ */
+const formatDateSerial = (serial: number, date1904: boolean): string => {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const iso = new Date(epoch + Math.round(serial * 86400) * 1000).toISOString();
+  if (serial < 1) return iso.slice(11, 19);
+  return Number.isInteger(serial) ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+};
+
+// Excel shows 15 significant digits; stored values carry binary noise beyond that
+const formatNumber = (value: string): string => {
+  const n = Number(value);
+  return Number.isFinite(n) ? String(parseFloat(n.toPrecision(15))) : value;
+};
+
+// Rich text runs, without the phonetic guides (rPh) of East Asian text
+const stringItemText = (item: XmlElement): string =>
+  childElements(item).map(c => {
+    const name = localName(c.name);
+    if (name === 't') return xmlText(c);
+    if (name === 'r') return childElements(c, 't').map(xmlText).join('');
+    return '';
+  }).join('');
+
+const columnIndex = (ref: string): number => {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() || '';
+  return [...letters].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+const extractXlsx = (parts: Parts): string => {
+  const workbookPath = findRelationship(readRelationships(parts, ''), 'officeDocument')?.target || 'xl/workbook.xml';
+  const workbook = readXml(parts, workbookPath);
+  if (!workbook) throw new Error("缺少工作簿内容");
+  const rels = readRelationships(parts, workbookPath);
+
+  const sharedStringsPath = findRelationship(rels, 'sharedStrings')?.target;
+  const sharedStringsXml = sharedStringsPath ? readXml(parts, sharedStringsPath) : null;
+  const sharedStrings = sharedStringsXml ? childElements(sharedStringsXml, 'si').map(stringItemText) : [];
+  const stylesPath = findRelationship(rels, 'styles')?.target;
+  const dateStyles = readDateStyles(stylesPath ? readXml(parts, stylesPath) : null);
+  const workbookPr = descendants(workbook, 'workbookPr')[0];
+  const date1904 = !!workbookPr && /^(1|true)$/.test(workbookPr.attributes.date1904 || '');
+
+  const cellValue = (cell: XmlElement): string => {
+    const type = cell.attributes.t || 'n';
+    const v = childElement(cell, 'v');
+    const raw = v ? xmlText(v) : '';
+    switch (type) {
+      case 's': return sharedStrings[Number(raw)] ?? '';
+      case 'inlineStr': {
+        const is = childElement(cell, 'is');
+        return is ? stringItemText(is) : '';
+      }
+      case 'b': return raw === '1' ? 'TRUE' : raw === '0' ? 'FALSE' : raw;
+      case 'str':
+      case 'e': return raw;
+      default:
+        if (raw === '') return '';
+        if (dateStyles.has(Number(cell.attributes.s || 0)) && Number.isFinite(Number(raw))) {
+          return formatDateSerial(Number(raw), date1904);
+        }
+        return formatNumber(raw);
+    }
+  };
+
+  const sheets = descendants(workbook, 'sheet').map((sheet, index) => {
+    const rel = rels.get(relationshipId(sheet) || '');
+    const xml = rel ? readXml(parts, rel.target) : null;
+    const rows: string[][] = [];
+    for (const row of xml ? descendants(xml, 'row') : []) {
+      const rowIndex = row.attributes.r ? Number(row.attributes.r) - 1 : rows.length;
+      const cells: string[] = [];
+      for (const cell of childElements(row, 'c')) {
+        const col = cell.attributes.r ? columnIndex(cell.attributes.r) : cells.length;
+        if (col < MAX_COLUMNS) cells[col] = cellValue(cell);
+      }
+      while (rows.length < rowIndex) rows.push([]);
+      rows[rowIndex] = Array.from(cells, c => c ?? '');
+    }
+    return { name: sheet.attributes.name || `Sheet${index + 1}`, rows };
+  });
+  return renderSheets(sheets);
+};
+
+// ---------------------------------------------------------------------------
+// ODS
+// ---------------------------------------------------------------------------
+
+/**
+ * Text of an ODF paragraph, expanding its space, tab and line-break elements.
+ */
+const odfText = (node: XmlElement | string): string => {
+  if (typeof node === 'string') return node;
+  switch (localName(node.name)) {
+    case 's': return ' '.repeat(Number(attribute(node, 'c') || 1));
+    case 'tab': return '\t';
+    case 'line-break': return '\n';
+    case 'annotation': return '';
+    default: return node.children.map(odfText).join('');
+  }
+};
+
+const odsCellValue = (cell: XmlElement): string => {
+  switch (attribute(cell, 'value-type')) {
+    case 'float':
+    case 'percentage':
+    case 'currency': return formatNumber(attribute(cell, 'value') || '');
+    case 'date': return (attribute(cell, 'date-value') || '').replace('T', ' ');
+    case 'boolean': return attribute(cell, 'boolean-value') === 'true' ? 'TRUE' : 'FALSE';
+    default: return childElements(cell, 'p').map(odfText).join('\n');
+  }
+};
+
+/**
+ * Expands a run of repeated rows or cells. Blank runs are kept pending and
+ * only materialize when content follows, since files commonly pad the last
+ * run out to the maximum sheet size.
+ */
+const appendRepeated = <T>(target: T[], pending: { count: number }, value: T, repeat: number, isBlank: boolean, blank: () => T) => {
+  if (isBlank) {
+    pending.count += repeat;
+    return;
+  }
+  for (; pending.count > 0; pending.count--) target.push(blank());
+  for (let i = 0; i < Math.min(repeat, MAX_COLUMNS); i++) target.push(value);
+};
+
+const odsRows = (table: XmlElement): string[][] => {
+  const rows: string[][] = [];
+  const pendingRows = { count: 0 };
+  const visit = (element: XmlElement) => {
+    for (const child of childElements(element)) {
+      const name = localName(child.name);
+      if (name === 'table-header-rows' || name === 'table-row-group' || name === 'table-rows') {
+        visit(child);
+      } else if (name === 'table-row') {
+        const cells: string[] = [];
+        const pendingCells = { count: 0 };
+        for (const cell of childElements(child)) {
+          if (localName(cell.name) !== 'table-cell' && localName(cell.name) !== 'covered-table-cell') continue;
+          const value = odsCellValue(cell);
+          appendRepeated(cells, pendingCells, value, Number(attribute(cell, 'number-columns-repeated') || 1), !value, () => '');
+        }
+        const repeat = Number(attribute(child, 'number-rows-repeated') || 1);
+        appendRepeated(rows, pendingRows, cells.slice(0, MAX_COLUMNS), repeat, cells.length === 0, () => []);
+      }
+    }
+  };
+  visit(table);
+  return rows;
+};
+
+const extractOds = (parts: Parts): string => {
+  const content = readXml(parts, 'content.xml');
+  if (!content) throw new Error("缺少表格内容");
+  const spreadsheet = descendants(content, 'spreadsheet')[0];
+  const tables = spreadsheet ? childElements(spreadsheet, 'table') : [];
+  return renderSheets(tables.map((table, i) => ({ name: attribute(table, 'name') || `Sheet${i + 1}`, rows: odsRows(table) })));
+};
+
+// ---------------------------------------------------------------------------
+// PPTX
+// ---------------------------------------------------------------------------
+
+const SKIPPED_PLACEHOLDERS = ['sldNum', 'dt', 'ftr', 'sldImg'];
+
+const placeholderType = (shape: XmlElement): string | null => {
+  const ph = descendants(childElements(shape).find(c => localName(c.name).startsWith('nv')) || shape, 'ph')[0];
+  return ph ? ph.attributes.type || 'body' : null;
+};
+
+// DrawingML paragraphs of a text body, one string per paragraph
+const drawingParagraphs = (body: XmlElement): string[] =>
+  childElements(body, 'p').map(p =>
+    childElements(p).map(run => {
+      const name = localName(run.name);
+      if (name === 'r' || name === 'fld') return childElements(run, 't').map(xmlText).join('');
+      return name === 'br' ? '\n' : '';
+    }).join('')
+  ).filter(text => text.trim() !== '');
+
+const drawingTable = (table: XmlElement): string[][] =>
+  childElements(table, 'tr').map(tr =>
+    childElements(tr, 'tc').map(tc => {
+      const body = childElement(tc, 'txBody');
+      return body ? drawingParagraphs(body).join('\n') : '';
+    })
+  );
+
+/**
+ * Title, text blocks and tables of a shape tree in document order.
+ */
+const readShapeTree = (tree: XmlElement, slide: { title: string; blocks: string[] }) => {
+  for (const shape of childElements(tree)) {
+    const name = localName(shape.name);
+    if (name === 'grpSp') {
+      readShapeTree(shape, slide);
+    } else if (name === 'sp') {
+      const type = placeholderType(shape);
+      const body = childElement(shape, 'txBody');
+      if (!body || (type && SKIPPED_PLACEHOLDERS.includes(type))) continue;
+      const text = drawingParagraphs(body).join('\n');
+      if (!text) continue;
+      if ((type === 'title' || type === 'ctrTitle') && !slide.title) slide.title = text.replace(/\s*\n\s*/g, ' ');
+      else slide.blocks.push(text);
+    } else if (name === 'graphicFrame') {
+      const table = descendants(shape, 'tbl')[0];
+      const rows = table ? trimGrid(drawingTable(table)) : [];
+      if (rows.length > 0) slide.blocks.push(markdownTable(rows));
+    }
+  }
+};
+
+const extractPptx = (parts: Parts): string => {
+  const presentationPath = findRelationship(readRelationships(parts, ''), 'officeDocument')?.target || 'ppt/presentation.xml';
+  const presentation = readXml(parts, presentationPath);
+  if (!presentation) throw new Error("缺少演示文稿内容");
+  const rels = readRelationships(parts, presentationPath);
+
+  const slides = descendants(presentation, 'sldId').map((ref, index) => {
+    const slidePath = rels.get(relationshipId(ref) || '')?.target;
+    const xml = slidePath ? readXml(parts, slidePath) : null;
+    const slide = { title: '', blocks: [] as string[] };
+    const tree = xml && descendants(xml, 'spTree')[0];
+    if (tree) readShapeTree(tree, slide);
+
+    const notesPath = slidePath && findRelationship(readRelationships(parts, slidePath), 'notesSlide')?.target;
+    const notesXml = notesPath ? readXml(parts, notesPath) : null;
+    const notes: string[] = [];
+    const notesTree = notesXml && descendants(notesXml, 'spTree')[0];
+    for (const shape of notesTree ? descendants(notesTree, 'sp') : []) {
+      const body = childElement(shape, 'txBody');
+      if (body && placeholderType(shape) === 'body') notes.push(...drawingParagraphs(body));
+    }
+
+    const heading = `## Slide ${index + 1}${slide.title ? `: ${slide.title}` : ''}`;
+    const sections = [heading, ...slide.blocks];
+    if (notes.length > 0) sections.push(`Notes:\n${notes.join('\n')}`);
+    return sections.join('\n\n');
+  });
+  if (slides.length === 0) throw new Error("演示文稿中没有幻灯片");
+  return slides.join('\n\n');
+};
+
+// ---------------------------------------------------------------------------
+// EPUB
+// ---------------------------------------------------------------------------
+
+const HTML_BLOCKS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'section', 'ul',
+]);
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Renders chapter XHTML as Markdown-like text: headings, paragraphs, list
+ * items, preformatted blocks and pipe tables.
+ */
+const renderChapter = (root: HtmlElement): string => {
+  const blocks: string[] = [];
+  let line = '';
+  const flush = () => {
+    const text = collapse(line);
+    if (text) blocks.push(text);
+    line = '';
+  };
+
+  const walk = (node: HtmlNode) => {
+    if (typeof node === 'string') {
+      line += node;
+      return;
+    }
+    const heading = /^h([1-6])$/.exec(node.tag);
+    if (heading) {
+      flush();
+      const text = collapse(textContent(node));
+      if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (node.tag === 'li') {
+      flush();
+      const nested = node.children.filter(c => typeof c !== 'string' && (c.tag === 'ul' || c.tag === 'ol'));
+      const text = collapse(node.children.filter(c => !nested.includes(c)).map(textContent).join(''));
+      if (text) blocks.push(`- ${text}`);
+      nested.forEach(walk);
+    } else if (node.tag === 'table') {
+      flush();
+      const rows = trimGrid(findElements(node, 'tr').map(tr =>
+        tr.children.filter((c): c is HtmlElement => typeof c !== 'string' && (c.tag === 'td' || c.tag === 'th'))
+          .map(cell => collapse(textContent(cell)))
+      ));
+      if (rows.length > 0) blocks.push(markdownTable(rows));
+    } else if (node.tag === 'pre') {
+      flush();
+      const text = textContent(node).replace(/\s+$/, '');
+      if (text.trim()) blocks.push(text);
+    } else if (node.tag === 'br') {
+      flush();
+    } else if (HTML_BLOCKS.has(node.tag)) {
+      flush();
+      node.children.forEach(walk);
+      flush();
+    } else {
+      node.children.forEach(walk);
+    }
+  };
+
+  walk(root);
+  flush();
+  return blocks.join('\n\n');
+};
+
+const extractEpub = (parts: Parts): string => {
+  const container = readXml(parts, 'META-INF/container.xml');
+  const opfPath = container && descendants(container, 'rootfile')[0]?.attributes['full-path'];
+  const opf = opfPath ? readXml(parts, opfPath) : null;
+  if (!opfPath || !opf) throw new Error("缺少 EPUB 目录信息");
+
+  const manifest = new Map<string, string>();
+  for (const item of descendants(opf, 'item')) {
+    manifest.set(item.attributes.id, resolvePath(opfPath, decodeURIComponent(item.attributes.href || '').split('#')[0]));
+  }
+  const chapters = descendants(opf, 'itemref')
+    .map(ref => manifest.get(ref.attributes.idref))
+    .filter((path): path is string => !!path && parts.has(path))
+    .map(path => {
+      const html = parseHtml(decoder.decode(parts.get(path)!));
+      return renderChapter(findElements(html, 'body')[0] || html);
+    })
+    .filter(text => text.trim() !== '');
+  if (chapters.length === 0) throw new Error("电子书中没有章节内容");
+
+  const title = collapse(descendants(opf, 'title').map(xmlText)[0] || '');
+  return [...(title ? [`# ${title}`] : []), ...chapters].join('\n\n');
+};
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+/**
+ * Heading level by style id. Word stores localized style ids ("1" in a
+ * Chinese template), so levels come from the style names in styles.xml.
+ */
+const readHeadingStyles = (styles: XmlElement | null): Map<string, number> => {
+  const levels = new Map<string, number>();
+  for (const style of styles ? childElements(styles, 'style') : []) {
+    const name = attribute(childElement(style, 'name') || style, 'val') || '';
+    const heading = /^heading ([1-6])$/i.exec(name);
+    const level = heading ? Number(heading[1]) : /^title$/i.test(name) ? 1 : 0;
+    const id = attribute(style, 'styleId');
+    if (level && id) levels.set(id, level);
+  }
+  return levels;
+};
+
+const wordParagraphText = (paragraph: XmlElement): string =>
+  descendants(paragraph, 'r').map(run =>
+    childElements(run).map(child => {
+      const name = localName(child.name);
+      if (name === 't') return xmlText(child);
+      if (name === 'tab') return '\t';
+      return name === 'br' || name === 'cr' ? '\n' : '';
+    }).join('')
+  ).join('');
+
+const wordTable = (table: XmlElement): string[][] =>
+  childElements(table, 'tr').map(tr =>
+    childElements(tr, 'tc').map(tc => childElements(tc, 'p').map(wordParagraphText).filter(Boolean).join('\n'))
+  );
+
+/**
+ * Body text of a Word document: headings, paragraphs, list items and pipe
+ * tables. Headers, footers, comments and text boxes are left out.
+ */
+const extractDocx = (parts: Parts): string => {
+  const documentPath = findRelationship(readRelationships(parts, ''), 'officeDocument')?.target || 'word/document.xml';
+  const document = readXml(parts, documentPath);
+  const body = document && descendants(document, 'body')[0];
+  if (!body) throw new Error("缺少文档正文");
+  const stylesPath = findRelationship(readRelationships(parts, documentPath), 'styles')?.target;
+  const headings = readHeadingStyles(stylesPath ? readXml(parts, stylesPath) : null);
+
+  const blocks: string[] = [];
+  const walk = (container: XmlElement) => {
+    for (const node of childElements(container)) {
+      const name = localName(node.name);
+      if (name === 'p') {
+        const text = wordParagraphText(node).trim();
+        if (!text) continue;
+        const properties = childElement(node, 'pPr');
+        const style = properties && childElement(properties, 'pStyle');
+        const level = style ? headings.get(attribute(style, 'val') || '') : undefined;
+        if (level) blocks.push(`${'#'.repeat(level)} ${text.replace(/\s*\n\s*/g, ' ')}`);
+        else blocks.push(properties && childElement(properties, 'numPr') ? `- ${text}` : text);
+      } else if (name === 'tbl') {
+        const rows = trimGrid(wordTable(node));
+        if (rows.length > 0) blocks.push(markdownTable(rows));
+      } else if (name === 'sdt') {
+        const content = childElement(node, 'sdtContent');
+        if (content) walk(content);
+      }
+    }
+  };
+  walk(body);
+  if (blocks.length === 0) throw new Error("文档中没有文字内容");
+  return blocks.join('\n\n');
+};
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+const EXTRACTORS: Record<string, (parts: Parts) => string> = {
+  [XLSX_MIME_TYPE]: extractXlsx,
+  [ODS_MIME_TYPE]: extractOds,
+  [PPTX_MIME_TYPE]: extractPptx,
+  [EPUB_MIME_TYPE]: extractEpub,
+  [DOCX_MIME_TYPE]: extractDocx,
+};
+
+// Word documents go to the model as they are, which keeps their layout; their
+// text is only extracted when it has to be processed locally first
+const NATIVE_INPUTS = [DOCX_MIME_TYPE];
+
+/**
+ * Whether a file is always replaced by its extracted content before
+ * conversion. See canExtractText for files that can be extracted on demand.
+ */
+export const isExtractableFile = (file: File): boolean =>
+  getMimeType(file) in EXTRACTORS && !NATIVE_INPUTS.includes(getMimeType(file));
+
+export const canExtractText = (file: File): boolean => getMimeType(file) in EXTRACTORS;
+
+/**
+ * Extracts the content of a spreadsheet, presentation, e-book or Word
+ * document as Markdown.
+ */
+export const extractDocument = async (file: File): Promise<string> => {
+  const extract = EXTRACTORS[getMimeType(file)];
+  if (!extract) throw new Error(`不支持提取 ${file.name} 的内容`);
+  try {
+    return extract(await readZip(new Uint8Array(await file.arrayBuffer()), path => MARKUP_PART.test(path)));
+  } catch (error: any) {
+    throw new Error(`无法读取 ${file.name}：${error.message || error}`);
+  }
+};
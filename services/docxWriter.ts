@@ -0,0 +1,301 @@
+import { HtmlElement, HtmlNode, parseHtml } from "./htmlTree";
+import { createZip } from "./zip";
+
+/**
+ * Builds a genuine Office Open XML (.docx) package from the semantic HTML the
+ * model produces for the DOCX target. Supports headings, paragraphs,
+ * bold/italic/underline runs, nested lists and tables.
+ */
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  code?: boolean;
+  lineBreak?: boolean;
+}
+
+type Block =
+  | { type: 'heading'; level: number; runs: Run[] }
+  | { type: 'paragraph'; runs: Run[] }
+  | { type: 'listItem'; numId: number; level: number; runs: Run[] }
+  | { type: 'table'; rows: { header: boolean; cells: Run[][] }[] };
+
+type RunStyle = Omit<Run, 'text' | 'lineBreak'>;
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const BULLET_NUM_ID = 1;
+const INLINE_TAGS = new Set(['b', 'strong', 'i', 'em', 'u', 'span', 'a', 'code', 'br', 'sub', 'sup', 'small', 'mark', 'font', 's', 'del']);
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// ---------------------------------------------------------------------------
+// HTML -> blocks
+// ---------------------------------------------------------------------------
+
+const collectRuns = (nodes: HtmlNode[], style: RunStyle = {}, runs: Run[] = []): Run[] => {
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      const text = node.replace(/\s+/g, ' ');
+      if (text) runs.push({ text, ...style });
+      continue;
+    }
+    if (node.tag === 'br') {
+      runs.push({ text: '', lineBreak: true });
+      continue;
+    }
+    // Nested lists/tables inside an inline context are handled by the block walker
+    if (node.tag === 'ul' || node.tag === 'ol' || node.tag === 'table') continue;
+    // Paragraphs inside table cells become line breaks within the cell
+    if ((node.tag === 'p' || node.tag === 'div') && runs.length > 0) runs.push({ text: '', lineBreak: true });
+    const next: RunStyle = { ...style };
+    if (node.tag === 'b' || node.tag === 'strong' || node.tag === 'th') next.bold = true;
+    if (node.tag === 'i' || node.tag === 'em') next.italic = true;
+    if (node.tag === 'u') next.underline = true;
+    if (node.tag === 'code') next.code = true;
+    collectRuns(node.children, next, runs);
+  }
+  return runs;
+};
+
+/**
+ * Trims leading/trailing whitespace of a paragraph's runs.
+ */
+const trimRuns = (runs: Run[]): Run[] => {
+  const result = runs.map(r => ({ ...r }));
+  if (result.length > 0) result[0].text = result[0].text.trimStart();
+  if (result.length > 0) result[result.length - 1].text = result[result.length - 1].text.trimEnd();
+  return result.filter(r => r.text || r.lineBreak);
+};
+
+class BlockBuilder {
+  blocks: Block[] = [];
+  orderedNumIds: number[] = [];
+  private nextNumId = BULLET_NUM_ID + 1;
+
+  walk(nodes: HtmlNode[]): void {
+    let inline: HtmlNode[] = [];
+    const flush = () => {
+      const runs = trimRuns(collectRuns(inline));
+      if (runs.length > 0) this.blocks.push({ type: 'paragraph', runs });
+      inline = [];
+    };
+
+    for (const node of nodes) {
+      if (typeof node === 'string' || INLINE_TAGS.has(node.tag)) {
+        inline.push(node);
+        continue;
+      }
+      flush();
+      this.walkBlock(node);
+    }
+    flush();
+  }
+
+  private walkBlock(element: HtmlElement): void {
+    const headingMatch = /^h([1-6])$/.exec(element.tag);
+    if (headingMatch) {
+      this.blocks.push({ type: 'heading', level: Number(headingMatch[1]), runs: trimRuns(collectRuns(element.children)) });
+    } else if (element.tag === 'p') {
+      const runs = trimRuns(collectRuns(element.children));
+      if (runs.length > 0) this.blocks.push({ type: 'paragraph', runs });
+    } else if (element.tag === 'ul' || element.tag === 'ol') {
+      this.walkList(element, 0);
+    } else if (element.tag === 'table') {
+      this.walkTable(element);
+    } else if (element.tag === 'pre') {
+      const lines = collectRuns(element.children, { code: true }).map(r => r.text).join('').split('\n');
+      lines.forEach(line => this.blocks.push({ type: 'paragraph', runs: [{ text: line, code: true }] }));
+    } else if (element.tag === 'hr' || element.tag === 'head' || element.tag === 'title') {
+      return;
+    } else {
+      // div, section, blockquote, body... are transparent containers
+      this.walk(element.children);
+    }
+  }
+
+  private walkList(list: HtmlElement, level: number): void {
+    let numId = BULLET_NUM_ID;
+    if (list.tag === 'ol') {
+      numId = this.nextNumId++;
+      this.orderedNumIds.push(numId);
+    }
+    for (const item of list.children) {
+      if (typeof item === 'string' || item.tag !== 'li') continue;
+      const runs = trimRuns(collectRuns(item.children));
+      if (runs.length > 0) this.blocks.push({ type: 'listItem', numId, level: Math.min(level, 8), runs });
+      for (const child of item.children) {
+        if (typeof child !== 'string' && (child.tag === 'ul' || child.tag === 'ol')) this.walkList(child, level + 1);
+      }
+    }
+  }
+
+  private walkTable(table: HtmlElement): void {
+    const rows: { header: boolean; cells: Run[][] }[] = [];
+    const visit = (element: HtmlElement, inHead: boolean) => {
+      for (const child of element.children) {
+        if (typeof child === 'string') continue;
+        if (child.tag === 'tr') {
+          const cells = child.children.filter((c): c is HtmlElement => typeof c !== 'string' && (c.tag === 'td' || c.tag === 'th'));
+          rows.push({
+            header: inHead || (cells.length > 0 && cells.every(c => c.tag === 'th')),
+            cells: cells.map(c => trimRuns(collectRuns(c.children, c.tag === 'th' ? { bold: true } : {}))),
+          });
+        } else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+          visit(child, child.tag === 'thead');
+        }
+      }
+    };
+    visit(table, false);
+    if (rows.length > 0) this.blocks.push({ type: 'table', rows });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Blocks -> WordprocessingML
+// ---------------------------------------------------------------------------
+
+const renderRun = (run: Run): string => {
+  if (run.lineBreak) return '<w:r><w:br/></w:r>';
+  // Children of w:rPr must follow the schema order: rFonts, b, i, u
+  const props = [
+    run.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : '',
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.underline ? '<w:u w:val="single"/>' : '',
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+};
+
+const renderParagraph = (runs: Run[], pPr = ''): string =>
+  `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${runs.map(renderRun).join('')}</w:p>`;
+
+// A4 text width with 2.54cm margins, in twentieths of a point
+const TEXT_WIDTH = 9026;
+
+const renderTable = (rows: { header: boolean; cells: Run[][] }[]): string => {
+  const columns = Math.max(...rows.map(r => r.cells.length), 1);
+  const colWidth = Math.floor(TEXT_WIDTH / columns);
+  const grid = Array.from({ length: columns }, () => `<w:gridCol w:w="${colWidth}"/>`).join('');
+  const body = rows.map(row => {
+    const cells = Array.from({ length: columns }, (_, i) => row.cells[i] || []);
+    const tcs = cells.map(runs =>
+      `<w:tc><w:tcPr><w:tcW w:w="${colWidth}" w:type="dxa"/></w:tcPr>${renderParagraph(runs)}</w:tc>`
+    ).join('');
+    return `<w:tr>${row.header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${tcs}</w:tr>`;
+  }).join('');
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl>`;
+};
+
+const renderBlocks = (blocks: Block[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading':
+      return renderParagraph(block.runs, `<w:pStyle w:val="Heading${block.level}"/>`);
+    case 'paragraph':
+      return renderParagraph(block.runs);
+    case 'listItem':
+      return renderParagraph(
+        block.runs,
+        `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${block.level}"/><w:numId w:val="${block.numId}"/></w:numPr>`
+      );
+    case 'table':
+      // Word requires a paragraph between adjacent tables and after a final table
+      return `${renderTable(block.rows)}<w:p/>`;
+  }
+}).join('');
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const buildDocumentXml = (blocks: Block[]): string =>
+  `${XML_HEADER}<w:document ${W_NS}><w:body>${renderBlocks(blocks)}` +
+  '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>' +
+  '</w:body></w:document>';
+
+const HEADING_SIZES = [32, 28, 26, 24, 22, 22]; // half-points
+
+const buildStylesXml = (): string => {
+  const headings = HEADING_SIZES.map((size, i) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`
+  ).join('');
+  return `${XML_HEADER}<w:styles ${W_NS}>` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft YaHei" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US" w:eastAsia="zh-CN"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    headings +
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/><w:contextualSpacing/></w:pPr></w:style>' +
+    '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:basedOn w:val="TableNormal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:tblPr><w:tblBorders>' +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`).join('') +
+    '</w:tblBorders></w:tblPr></w:style>' +
+    '</w:styles>';
+};
+
+const buildLevels = (ordered: boolean): string =>
+  Array.from({ length: 9 }, (_, lvl) => {
+    const format = ordered ? 'decimal' : 'bullet';
+    const text = ordered ? `%${lvl + 1}.` : ['•', '◦', '▪'][lvl % 3];
+    return `<w:lvl w:ilvl="${lvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+      `<w:pPr><w:ind w:left="${720 * (lvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  }).join('');
+
+const buildNumberingXml = (orderedNumIds: number[]): string =>
+  `${XML_HEADER}<w:numbering ${W_NS}>` +
+  `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${buildLevels(false)}</w:abstractNum>` +
+  `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${buildLevels(true)}</w:abstractNum>` +
+  `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>` +
+  // Every ordered list gets its own instance so numbering restarts at 1
+  orderedNumIds.map(id =>
+    `<w:num w:numId="${id}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`
+  ).join('') +
+  '</w:numbering>';
+
+const CONTENT_TYPES_XML = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  '</Relationships>';
+
+const DOCUMENT_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>' +
+  '</Relationships>';
+
+export const buildCoreXml = (title: string): string => {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    `<dc:title>${escapeXml(title)}</dc:title><dc:creator>UniConvert AI</dc:creator>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    '</cp:coreProperties>';
+};
+
+/**
+ * Converts model HTML into the bytes of a .docx package.
+ */
+export const buildDocx = async (html: string, title = 'Document'): Promise<Uint8Array> => {
+  const builder = new BlockBuilder();
+  builder.walk(parseHtml(html).children);
+  if (builder.blocks.length === 0) builder.blocks.push({ type: 'paragraph', runs: [] });
+
+  return createZip([
+    { path: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { path: '_rels/.rels', data: ROOT_RELS_XML },
+    { path: 'word/document.xml', data: buildDocumentXml(builder.blocks) },
+    { path: 'word/styles.xml', data: buildStylesXml() },
+    { path: 'word/numbering.xml', data: buildNumberingXml(builder.orderedNumIds) },
+    { path: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+    { path: 'docProps/core.xml', data: buildCoreXml(title) },
+  ]);
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { BatchFileItem, TargetFormat } from '../types';
+import {
+  dedupeFilename,
+  renderFilenameTemplate,
+  resolveBatchFilenames,
+  resolveTextFilename,
+  sanitizeFilename,
+  splitFilename,
+} from './filenameTemplate';
+
+const context = {
+  name: '报告',
+  ext: 'pdf',
+  format: TargetFormat.DOCX,
+  index: 7,
+  date: new Date(2024, 0, 5),
+  preset: '周报',
+};
+
+const item = (id: string, name: string, extra: Partial<BatchFileItem> = {}): BatchFileItem =>
+  ({ id, file: new File([''], name), status: 'success', ...extra });
+
+describe('sanitizeFilename', () => {
+  it('replaces forbidden characters and keeps Unicode', () => {
+    expect(sanitizeFilename('a/b\\c:d*e?"f"<g>|h')).toBe('a_b_c_d_e__f__g__h');
+    expect(sanitizeFilename('季度 报告')).toBe('季度 报告');
+  });
+
+  it('trims dots and spaces Windows or Unix would mishandle', () => {
+    expect(sanitizeFilename('  .hidden name. ')).toBe('hidden name');
+  });
+
+  it('prefixes reserved Windows names and never returns an empty name', () => {
+    expect(sanitizeFilename('CON')).toBe('_CON');
+    expect(sanitizeFilename('nul.txt')).toBe('_nul.txt');
+    expect(sanitizeFilename('...')).toBe('untitled');
+  });
+
+  it('limits the length to 180 characters', () => {
+    expect(Array.from(sanitizeFilename('名'.repeat(300)))).toHaveLength(180);
+  });
+});
+
+describe('splitFilename', () => {
+  it('splits at the last dot but keeps leading-dot names whole', () => {
+    expect(splitFilename('archive.tar.gz')).toEqual({ name: 'archive.tar', ext: 'gz' });
+    expect(splitFilename('.env')).toEqual({ name: '.env', ext: '' });
+    expect(splitFilename('README')).toEqual({ name: 'README', ext: '' });
+  });
+});
+
+describe('renderFilenameTemplate', () => {
+  it('expands every placeholder', () => {
+    expect(renderFilenameTemplate('{name}.{ext}_{format}_{index:3}_{date}_{preset}', context))
+      .toBe('报告.pdf_DOCX_007_2024-01-05_周报');
+  });
+
+  it('clamps the index padding width', () => {
+    expect(renderFilenameTemplate('{index:9999999999}', context)).toBe('0000000007');
+    expect(renderFilenameTemplate('{index:12}', context)).toBe('0000000007');
+  });
+
+  it('keeps unknown placeholders literally', () => {
+    expect(renderFilenameTemplate('{nmae}_{index}', context)).toBe('{nmae}_7');
+  });
+});
+
+describe('dedupeFilename', () => {
+  it('numbers names already taken, ignoring case', () => {
+    const taken = new Set<string>();
+    expect(dedupeFilename('a.json', taken)).toBe('a.json');
+    expect(dedupeFilename('A.json', taken)).toBe('A (2).json');
+    expect(dedupeFilename('a.json', taken)).toBe('a (3).json');
+  });
+});
+
+describe('resolveBatchFilenames', () => {
+  it('uses the converted format, then the override, then the fallback', () => {
+    const names = resolveBatchFilenames(
+      [
+        item('1', 'a.pdf', { targetFormat: TargetFormat.CSV }),
+        item('2', 'b.pdf', { formatOverride: TargetFormat.SQL }),
+        item('3', 'c.pdf'),
+      ],
+      '{name}',
+      TargetFormat.JSON
+    );
+    expect([...names.values()]).toEqual(['a.csv', 'b.sql', 'c.json']);
+  });
+
+  it('keeps names unique within the batch and clear of reserved names', () => {
+    const names = resolveBatchFilenames(
+      [item('1', 'data.csv'), item('2', 'data.xlsx')],
+      '',
+      TargetFormat.JSON,
+      '',
+      ['manifest.json', 'data_converted.json']
+    );
+    expect([...names.values()]).toEqual(['data_converted (2).json', 'data_converted (3).json']);
+  });
+});
+
+describe('resolveTextFilename', () => {
+  it('falls back to the default name and adds the extension', () => {
+    expect(resolveTextFilename('  ', TargetFormat.MARKDOWN)).toBe('text-convert.md');
+    expect(resolveTextFilename('{preset}-{format}', TargetFormat.ZOD, 'api')).toBe('api-Zod Schema.ts');
+  });
+});
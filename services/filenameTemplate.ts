@@ -0,0 +1,144 @@
+import { BatchFileItem, TargetFormat } from "../types";
+import { getOutputFileType } from "./outputFiles";
+
+/**
+ * Output filename templates such as "{name}_{format}_{date}". Placeholders
+ * may take a parameter: {index:3} pads the index to three digits.
+ */
+
+export const DEFAULT_TEXT_FILENAME = 'text-convert';
+export const DEFAULT_BATCH_TEMPLATE = '{name}_converted';
+
+export const FILENAME_PLACEHOLDERS: { token: string; description: string }[] = [
+  { token: '{name}', description: '原文件名 (不含扩展名)' },
+  { token: '{ext}', description: '原扩展名' },
+  { token: '{format}', description: '目标格式' },
+  { token: '{index}', description: '序号，{index:3} 补零为 001' },
+  { token: '{date}', description: '转换日期 YYYY-MM-DD' },
+  { token: '{preset}', description: '当前预设名称' },
+];
+
+export interface FilenameContext {
+  name: string;
+  ext: string;
+  format: TargetFormat;
+  index: number; // 1-based
+  date: Date;
+  preset: string;
+}
+
+const MAX_FILENAME_LENGTH = 180; // Leaves room for " (n)" and the extension within common 255-byte limits
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+/**
+ * Makes a name safe on Windows, macOS and Linux while keeping Unicode:
+ * only path separators, characters Windows forbids and control characters
+ * are replaced.
+ */
+export const sanitizeFilename = (name: string): string => {
+  let safe = name
+    .replace(/[<>:"/\\|?*\u0000-\u001F\u007F]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Windows drops trailing dots and spaces; leading dots hide files on Unix
+    .replace(/[. ]+$/, '')
+    .replace(/^\.+/, '');
+  if (WINDOWS_RESERVED.test(safe)) safe = `_${safe}`;
+  const chars = Array.from(safe);
+  if (chars.length > MAX_FILENAME_LENGTH) safe = chars.slice(0, MAX_FILENAME_LENGTH).join('').trim();
+  return safe || 'untitled';
+};
+
+export const splitFilename = (filename: string): { name: string; ext: string } => {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? { name: filename.slice(0, dot), ext: filename.slice(dot + 1) } : { name: filename, ext: '' };
+};
+
+const formatDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Short label of a target format, e.g. "DOCX" for "DOCX (Word文档)".
+ */
+const formatLabel = (format: TargetFormat): string => format.replace(/\s*\(.*\)$/, '');
+
+// Widest {index:N} padding; larger widths are clamped rather than building huge strings
+const MAX_INDEX_WIDTH = 10;
+
+/**
+ * Expands placeholders and sanitizes the result. Unknown placeholders are
+ * kept literally so typos stay visible in the preview.
+ */
+export const renderFilenameTemplate = (template: string, context: FilenameContext): string => {
+  const rendered = template.replace(/\{(\w+)(?::(\d+))?\}/g, (token, key: string, param?: string) => {
+    switch (key) {
+      case 'name': return context.name;
+      case 'ext': return context.ext;
+      case 'format': return formatLabel(context.format);
+      case 'index': return String(context.index).padStart(Math.min(Number(param ?? 0), MAX_INDEX_WIDTH), '0');
+      case 'date': return formatDate(context.date);
+      case 'preset': return context.preset;
+      default: return token;
+    }
+  });
+  return sanitizeFilename(rendered);
+};
+
+/**
+ * Appends " (2)", " (3)", ... to names already taken. Comparison ignores case
+ * because Windows and macOS file systems do.
+ */
+export const dedupeFilename = (filename: string, taken: Set<string>): string => {
+  const { name, ext } = splitFilename(filename);
+  let candidate = filename;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = ext ? `${name} (${n}).${ext}` : `${name} (${n})`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Full output filename (with extension) for every batch item, unique within
+ * the batch. Items use the format they were converted to when known, then
+ * their own override, then the global format.
+ */
+export const resolveBatchFilenames = (
+  items: BatchFileItem[],
+  template: string,
+  fallbackFormat: TargetFormat,
+  preset = '',
+  reserved: string[] = []
+): Map<string, string> => {
+  const taken = new Set(reserved.map(r => r.toLowerCase()));
+  const names = new Map<string, string>();
+  items.forEach((item, i) => {
+    const format = item.targetFormat ?? item.formatOverride ?? fallbackFormat;
+    const base = renderFilenameTemplate(template.trim() || DEFAULT_BATCH_TEMPLATE, {
+      ...splitFilename(item.file.name),
+      format,
+      index: i + 1,
+      date: item.completedAt ? new Date(item.completedAt) : new Date(),
+      preset,
+    });
+    names.set(item.id, dedupeFilename(`${base}.${getOutputFileType(format).extension}`, taken));
+  });
+  return names;
+};
+
+/**
+ * Output filename (with extension) in text mode, where there is no source name.
+ */
+export const resolveTextFilename = (template: string, format: TargetFormat, preset = ''): string => {
+  const base = renderFilenameTemplate(template.trim() || DEFAULT_TEXT_FILENAME, {
+    name: DEFAULT_TEXT_FILENAME,
+    ext: 'txt',
+    format,
+    index: 1,
+    date: new Date(),
+    preset,
+  });
+  return `${base}.${getOutputFileType(format).extension}`;
+};
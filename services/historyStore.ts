@@ -0,0 +1,69 @@
+import { HistoryEntry } from "../types";
+import { withStore } from "./indexedDb";
+
+/**
+ * Conversion history persisted in IndexedDB so results and source files
+ * survive page reloads. Blobs are stored as-is.
+ */
+
+const STORE = 'history';
+const QUOTA_KEY = 'uniconvert.historyQuotaMb';
+
+export const DEFAULT_HISTORY_QUOTA_MB = 200;
+
+/**
+ * Approximate storage cost of an entry in bytes (strings count as UTF-16).
+ */
+export const estimateEntrySize = (entry: Omit<HistoryEntry, 'size'>): number =>
+  (entry.inputText?.length ?? 0) * 2 + (entry.inputFile?.size ?? 0) + entry.output.length * 2;
+
+export const getHistoryQuotaMb = (): number => {
+  const stored = Number(localStorage.getItem(QUOTA_KEY));
+  return stored > 0 ? stored : DEFAULT_HISTORY_QUOTA_MB;
+};
+
+export const setHistoryQuotaMb = (mb: number) => {
+  localStorage.setItem(QUOTA_KEY, String(mb));
+};
+
+/**
+ * All entries, newest first.
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(STORE, 'readonly', store => store.index('createdAt').getAll());
+  return entries.reverse();
+};
+
+export const deleteHistoryEntry = (id: string): Promise<undefined> =>
+  withStore(STORE, 'readwrite', store => store.delete(id));
+
+export const clearHistory = (): Promise<undefined> =>
+  withStore(STORE, 'readwrite', store => store.clear());
+
+/**
+ * Deletes the oldest entries until the total size fits the quota.
+ * Returns the number of entries removed.
+ */
+export const pruneHistory = async (quotaBytes = getHistoryQuotaMb() * 1024 * 1024): Promise<number> => {
+  const entries = await listHistory();
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  let removed = 0;
+  for (let i = entries.length - 1; i >= 0 && total > quotaBytes; i--) {
+    await deleteHistoryEntry(entries[i].id);
+    total -= entries[i].size;
+    removed++;
+  }
+  return removed;
+};
+
+/**
+ * Stores an entry, then trims old entries to stay within the quota.
+ */
+export const addHistoryEntry = async (entry: Omit<HistoryEntry, 'size'>): Promise<void> => {
+  const size = estimateEntrySize(entry);
+  if (size > getHistoryQuotaMb() * 1024 * 1024) {
+    throw new Error("该记录超过历史记录存储上限，未保存。");
+  }
+  await withStore(STORE, 'readwrite', store => store.put({ ...entry, size }));
+  await pruneHistory();
+};
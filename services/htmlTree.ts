@@ -0,0 +1,110 @@
+/**
+ * Lenient HTML fragment parser producing a plain tree. Used where model HTML
+ * has to be turned into another document format; it does not rely on
+ * DOMParser so it also works outside the browser.
+ */
+
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// An opening tag of the key implicitly closes any open elements listed in the value
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  p: ['p'],
+  li: ['li', 'p'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  thead: ['tbody', 'tr', 'td', 'th'],
+  tbody: ['thead', 'tr', 'td', 'th'],
+};
+
+const BLOCK_TAGS = ['div', 'table', 'ul', 'ol', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'section'];
+
+export const decodeHtmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos|nbsp);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'nbsp': return ' ';
+      default:
+        return String.fromCodePoint(
+          entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+
+export const parseHtml = (html: string): HtmlElement => {
+  const root: HtmlElement = { tag: '#root', attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const src = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<!doctype[^>]*>/gi, '');
+  const tokenRe = /<(\/?)([A-Za-z][\w-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|([^<]+|<)/g;
+  let match: RegExpExecArray | null;
+
+  const current = () => stack[stack.length - 1];
+
+  while ((match = tokenRe.exec(src))) {
+    const [, closing, rawTag, rawAttrs, selfClosing, text] = match;
+    if (text !== undefined) {
+      current().children.push(decodeHtmlEntities(text));
+      continue;
+    }
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      const idx = stack.map(e => e.tag).lastIndexOf(tag);
+      if (idx > 0) stack.length = idx;
+      continue;
+    }
+
+    // Close elements that HTML ends implicitly, e.g. <li> directly after <li>
+    const closes = [...(IMPLICIT_CLOSE[tag] || []), ...(BLOCK_TAGS.includes(tag) ? ['p'] : [])];
+    while (stack.length > 1 && closes.includes(current().tag)) stack.pop();
+
+    const attributes: Record<string, string> = {};
+    const attrRe = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    let attr: RegExpExecArray | null;
+    while ((attr = attrRe.exec(rawAttrs || ''))) {
+      attributes[attr[1].toLowerCase()] = decodeHtmlEntities(attr[2] ?? attr[3] ?? attr[4] ?? '');
+    }
+    const element: HtmlElement = { tag, attributes, children: [] };
+    current().children.push(element);
+    if (!selfClosing && !VOID_ELEMENTS.has(tag)) {
+      if (tag === 'script' || tag === 'style') {
+        // Raw text elements: skip to the matching end tag
+        const end = src.toLowerCase().indexOf(`</${tag}`, tokenRe.lastIndex);
+        tokenRe.lastIndex = end === -1 ? src.length : end;
+        continue;
+      }
+      stack.push(element);
+    }
+  }
+  return root;
+};
+
+export const textContent = (node: HtmlNode): string =>
+  typeof node === 'string' ? node : node.children.map(textContent).join('');
+
+/**
+ * Finds all descendants with the given tag, not descending into matches.
+ */
+export const findElements = (node: HtmlElement, tag: string): HtmlElement[] => {
+  const found: HtmlElement[] = [];
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (child.tag === tag) found.push(child);
+    else found.push(...findElements(child, tag));
+  }
+  return found;
+};
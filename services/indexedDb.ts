@@ -0,0 +1,57 @@
+/**
+ * The app's IndexedDB database. Each object store belongs to one service
+ * module; opening the database creates the stores added since the version a
+ * browser last saw.
+ */
+
+const DB_NAME = 'uniconvert';
+
+// One step per database version, in order
+const UPGRADES: ((db: IDBDatabase) => void)[] = [
+  // 1: conversion history
+  db => db.createObjectStore('history', { keyPath: 'id' }).createIndex('createdAt', 'createdAt'),
+  // 2: result cache
+  db => db.createObjectStore('results', { keyPath: 'key' }).createIndex('lastUsedAt', 'lastUsedAt'),
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("当前浏览器不支持 IndexedDB，无法在本地保存历史记录和结果缓存。"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, UPGRADES.length);
+      request.onupgradeneeded = event => {
+        for (let version = event.oldVersion; version < UPGRADES.length; version++) {
+          UPGRADES[version](request.result);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs a single request against one object store in its own transaction.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)));
+};
@@ -0,0 +1,355 @@
+import { SchemaFieldError } from "../types";
+
+/**
+ * JSON Schema support for schema-guided JSON output: parsing, inference from
+ * a sample, validation with field paths, linting of schema documents and
+ * example generation. Covers the draft-07 / 2020-12 keywords that matter for
+ * data extraction; local $refs into definitions/$defs are resolved, remote
+ * ones are not.
+ */
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  nullable?: boolean; // OpenAPI-style, as used by Gemini schemas
+  $ref?: string;
+  [keyword: string]: unknown;
+}
+
+// Fields reported per result; the rest are summarized
+const MAX_REPORTED_ERRORS = 50;
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+const FORMAT_CHECKS: Record<string, RegExp> = {
+  'date': /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  'time': /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  'email': /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  'uri': /^[a-z][a-z\d+.-]*:\S+$/i,
+};
+
+const TYPE_LABELS: Record<JsonType, string> = {
+  object: '对象', array: '数组', string: '字符串', number: '数字', integer: '整数', boolean: '布尔值', null: 'null',
+};
+
+const typeOf = (value: unknown): JsonType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+};
+
+const childPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+/**
+ * Parses schema text and checks that it is at least shaped like a schema.
+ */
+export const parseJsonSchema = (text: string): JsonSchema => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`JSON Schema 不是合法的 JSON：${err.message}`);
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error("JSON Schema 必须是一个对象。");
+  }
+  return schema as JsonSchema;
+};
+
+const resolveRef = (schema: JsonSchema, root: JsonSchema): JsonSchema => {
+  let current = schema;
+  // Bounded so that self-referencing aliases cannot loop forever
+  for (let depth = 0; current.$ref && depth < 20; depth++) {
+    const match = /^#\/(.*)$/.exec(current.$ref);
+    if (!match) throw new Error(`不支持外部引用 ${current.$ref}`);
+    let target: any = root;
+    for (const segment of match[1].split('/').filter(Boolean)) {
+      target = target?.[decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+    if (!target || typeof target !== 'object') throw new Error(`找不到引用 ${current.$ref}`);
+    current = target;
+  }
+  return current;
+};
+
+const validateNode = (value: unknown, rawSchema: JsonSchema, path: string, root: JsonSchema, errors: SchemaFieldError[]) => {
+  const schema = resolveRef(rawSchema, root);
+  const push = (message: string, at = path) => errors.push({ path: at, message });
+
+  schema.allOf?.forEach(sub => validateNode(value, sub, path, root, errors));
+  if (schema.anyOf || schema.oneOf) {
+    const options = (schema.anyOf || schema.oneOf)!;
+    const matches = options.filter(sub => {
+      const subErrors: SchemaFieldError[] = [];
+      validateNode(value, sub, path, root, subErrors);
+      return subErrors.length === 0;
+    }).length;
+    if (schema.anyOf && matches === 0) push('不符合 anyOf 中的任何一种结构');
+    if (schema.oneOf && matches !== 1) push(matches === 0 ? '不符合 oneOf 中的任何一种结构' : '同时符合 oneOf 中的多种结构');
+  }
+
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    push(`值必须为 ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    push(`值必须是以下之一：${schema.enum.map(o => JSON.stringify(o)).join(', ')}`);
+  }
+
+  const actual = typeOf(value);
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const ok = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number')) || (actual === 'null' && schema.nullable);
+    if (!ok) {
+      push(`类型应为${allowed.map(t => TYPE_LABELS[t] || t).join('或')}，实际为${TYPE_LABELS[actual]}`);
+      return;
+    }
+  }
+
+  if (actual === 'string') {
+    const text = value as string;
+    const length = Array.from(text).length;
+    if (schema.minLength !== undefined && length < schema.minLength) push(`长度不能少于 ${schema.minLength}`);
+    if (schema.maxLength !== undefined && length > schema.maxLength) push(`长度不能超过 ${schema.maxLength}`);
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(text)) push(`不匹配模式 ${schema.pattern}`);
+      } catch {
+        // An invalid pattern is a schema problem, not an output problem
+      }
+    }
+    if (schema.format && FORMAT_CHECKS[schema.format] && !FORMAT_CHECKS[schema.format].test(text)) {
+      push(`不是有效的 ${schema.format} 格式`);
+    }
+  } else if (actual === 'number' || actual === 'integer') {
+    const num = value as number;
+    if (schema.minimum !== undefined && num < schema.minimum) push(`不能小于 ${schema.minimum}`);
+    if (schema.maximum !== undefined && num > schema.maximum) push(`不能大于 ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && num <= schema.exclusiveMinimum) push(`必须大于 ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && num >= schema.exclusiveMaximum) push(`必须小于 ${schema.exclusiveMaximum}`);
+  } else if (actual === 'array') {
+    const list = value as unknown[];
+    if (schema.minItems !== undefined && list.length < schema.minItems) push(`至少需要 ${schema.minItems} 项`);
+    if (schema.maxItems !== undefined && list.length > schema.maxItems) push(`最多允许 ${schema.maxItems} 项`);
+    if (schema.items) list.forEach((item, i) => validateNode(item, schema.items!, childPath(path, i), root, errors));
+  } else if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) push('缺少必填字段', childPath(path, key));
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(child, propertySchema, childPath(path, key), root, errors);
+      } else if (schema.additionalProperties === false) {
+        push('不允许的字段', childPath(path, key));
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateNode(child, schema.additionalProperties, childPath(path, key), root, errors);
+      }
+    }
+  }
+};
+
+/**
+ * Validates a value against a schema. Returns one entry per failing field,
+ * with paths like $.items[0].price.
+ */
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema): SchemaFieldError[] => {
+  const errors: SchemaFieldError[] = [];
+  try {
+    validateNode(value, schema, '$', schema, errors);
+  } catch (err: any) {
+    errors.push({ path: '$', message: `Schema 无法使用：${err.message}` });
+  }
+  return errors.length > MAX_REPORTED_ERRORS
+    ? [...errors.slice(0, MAX_REPORTED_ERRORS), { path: '…', message: `另有 ${errors.length - MAX_REPORTED_ERRORS} 处错误` }]
+    : errors;
+};
+
+export const formatSchemaErrors = (errors: SchemaFieldError[]): string =>
+  errors.map(e => `${e.path}: ${e.message}`).join('\n');
+
+const SUBSCHEMA_MAPS = ['properties', '$defs', 'definitions', 'patternProperties'];
+const SUBSCHEMA_LISTS = ['anyOf', 'oneOf', 'allOf', 'prefixItems'];
+const SUBSCHEMAS = ['items', 'additionalProperties', 'not', 'if', 'then', 'else', 'contains'];
+
+/**
+ * Checks a schema document itself, as generated for the JSON Schema target:
+ * a draft 2020-12 dialect, known types, well-formed keywords, local $refs
+ * that resolve and patterns that compile. Paths point into the schema.
+ */
+export const lintJsonSchema = (schema: JsonSchema): SchemaFieldError[] => {
+  const errors: SchemaFieldError[] = [];
+  if (schema.$schema !== undefined && schema.$schema !== DRAFT_2020_12) {
+    errors.push({ path: '$.$schema', message: `应为 draft 2020-12（${DRAFT_2020_12}）` });
+  }
+
+  const visit = (node: unknown, path: string) => {
+    if (typeof node === 'boolean') return;
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      errors.push({ path, message: 'Schema 应为对象或布尔值' });
+      return;
+    }
+    const s = node as JsonSchema;
+    const push = (keyword: string, message: string) => errors.push({ path: childPath(path, keyword), message });
+
+    for (const type of s.type === undefined ? [] : Array.isArray(s.type) ? s.type : [s.type]) {
+      if (!(type in TYPE_LABELS)) push('type', `未知类型 ${JSON.stringify(type)}`);
+    }
+    if (s.required !== undefined && !(Array.isArray(s.required) && s.required.every(k => typeof k === 'string'))) {
+      push('required', '应为字符串数组');
+    }
+    if (s.enum !== undefined && !Array.isArray(s.enum)) push('enum', '应为数组');
+    if (s.pattern !== undefined) {
+      try {
+        new RegExp(s.pattern, 'u');
+      } catch (err: any) {
+        push('pattern', `正则表达式无效：${err.message}`);
+      }
+    }
+    if (typeof s.$ref === 'string' && s.$ref.startsWith('#')) {
+      try {
+        resolveRef({ $ref: s.$ref }, schema);
+      } catch (err: any) {
+        push('$ref', err.message);
+      }
+    }
+    if (Array.isArray(s.items)) push('items', 'draft 2020-12 中 items 应为单个 Schema，元组请使用 prefixItems');
+
+    for (const keyword of SUBSCHEMA_MAPS) {
+      const map = s[keyword];
+      if (map === undefined) continue;
+      if (!map || typeof map !== 'object' || Array.isArray(map)) push(keyword, '应为对象');
+      else Object.entries(map).forEach(([key, child]) => visit(child, childPath(childPath(path, keyword), key)));
+    }
+    for (const keyword of SUBSCHEMA_LISTS) {
+      const list = s[keyword];
+      if (list === undefined) continue;
+      if (!Array.isArray(list) || list.length === 0) push(keyword, '应为非空数组');
+      else list.forEach((child, i) => visit(child, childPath(childPath(path, keyword), i)));
+    }
+    for (const keyword of SUBSCHEMAS) {
+      if (s[keyword] !== undefined && !(keyword === 'items' && Array.isArray(s.items))) visit(s[keyword], childPath(path, keyword));
+    }
+  };
+
+  visit(schema, '$');
+  return errors.length > MAX_REPORTED_ERRORS
+    ? [...errors.slice(0, MAX_REPORTED_ERRORS), { path: '…', message: `另有 ${errors.length - MAX_REPORTED_ERRORS} 处错误` }]
+    : errors;
+};
+
+const mergeSchemas = (a: JsonSchema, b: JsonSchema): JsonSchema => {
+  if (a.type === b.type) {
+    if (a.type === 'object') {
+      const properties: Record<string, JsonSchema> = { ...a.properties };
+      for (const [key, schema] of Object.entries(b.properties || {})) {
+        properties[key] = properties[key] ? mergeSchemas(properties[key], schema) : schema;
+      }
+      // A key is only required when every sample has it
+      const required = (a.required || []).filter(key => (b.required || []).includes(key));
+      return { type: 'object', properties, required };
+    }
+    if (a.type === 'array') {
+      if (!a.items) return b;
+      if (!b.items) return a;
+      return { type: 'array', items: mergeSchemas(a.items, b.items) };
+    }
+    return a;
+  }
+  if ((a.type === 'integer' && b.type === 'number') || (a.type === 'number' && b.type === 'integer')) {
+    return { type: 'number' };
+  }
+  if (a.type === 'null' && typeof b.type === 'string') return { ...b, type: [b.type, 'null'] };
+  if (b.type === 'null' && typeof a.type === 'string') return { ...a, type: [a.type, 'null'] };
+  const options = [...(a.anyOf || [a]), ...(b.anyOf || [b])];
+  const unique = options.filter((s, i) => options.findIndex(o => JSON.stringify(o) === JSON.stringify(s)) === i);
+  return { anyOf: unique };
+};
+
+const inferNode = (value: unknown): JsonSchema => {
+  const type = typeOf(value);
+  if (type === 'array') {
+    const items = (value as unknown[]).map(inferNode);
+    return items.length > 0 ? { type: 'array', items: items.reduce(mergeSchemas) } : { type: 'array' };
+  }
+  if (type === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return {
+      type: 'object',
+      properties: Object.fromEntries(entries.map(([key, child]) => [key, inferNode(child)])),
+      required: entries.map(([key]) => key),
+    };
+  }
+  return { type };
+};
+
+/**
+ * Infers a schema from a sample value. Arrays of objects are merged so that
+ * keys missing from some items become optional.
+ */
+export const inferJsonSchema = (sample: unknown): JsonSchema => ({
+  $schema: DRAFT_2020_12,
+  ...inferNode(sample),
+});
+
+/**
+ * Builds a minimal value that satisfies the schema, e.g. for offline testing.
+ */
+export const exampleFromSchema = (rawSchema: JsonSchema, root: JsonSchema = rawSchema, depth = 0): unknown => {
+  const schema = resolveRef(rawSchema, root);
+  if ('const' in schema) return schema.const;
+  if (schema.enum?.length) return schema.enum[0];
+  const variant = schema.anyOf?.[0] || schema.oneOf?.[0] || schema.allOf?.[0];
+  if (variant && !schema.type) return exampleFromSchema(variant, root, depth + 1);
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') || 'null' : schema.type || 'object';
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      if (depth > 8) return result;
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        result[key] = exampleFromSchema(child, root, depth + 1);
+      }
+      return result;
+    }
+    case 'array':
+      return schema.items && depth <= 8
+        ? Array.from({ length: Math.max(1, schema.minItems || 0) }, () => exampleFromSchema(schema.items!, root, depth + 1))
+        : [];
+    case 'string':
+      if (schema.format === 'date') return '2024-01-01';
+      if (schema.format === 'date-time') return '2024-01-01T00:00:00Z';
+      if (schema.format === 'email') return 'user@example.com';
+      return 'x'.repeat(Math.max(1, schema.minLength || 0));
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 0);
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+};
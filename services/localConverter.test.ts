@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { TargetFormat } from '../types';
+import { detectSourceFormat, toTable, tryLocalConvert } from './localConverter';
+
+describe('detectSourceFormat', () => {
+  it('trusts the file extension', () => {
+    expect(detectSourceFormat('a: 1', 'config.yml')).toBe('yaml');
+    expect(detectSourceFormat('a,b\n1,2', 'data.csv')).toBe('csv');
+    expect(detectSourceFormat('| a |\n| --- |', 'table.md')).toBe('markdown');
+    expect(detectSourceFormat('{"a": 1}', 'report.pdf')).toBeNull();
+  });
+
+  it('detects JSON and XML without a filename only when they parse', () => {
+    expect(detectSourceFormat('{"a": [1, 2]}')).toBe('json');
+    expect(detectSourceFormat('[1, 2')).toBeNull();
+    expect(detectSourceFormat('{ this is a note }')).toBeNull();
+    expect(detectSourceFormat('<root><item>1</item></root>')).toBe('xml');
+    expect(detectSourceFormat('<root><item>1</root>')).toBeNull();
+    expect(detectSourceFormat('<!DOCTYPE html><html></html>')).toBeNull();
+  });
+
+  it('detects YAML without a filename only after a document marker', () => {
+    expect(detectSourceFormat('---\nname: demo\nitems:\n  - a\n')).toBe('yaml');
+    expect(detectSourceFormat('Hello: world')).toBeNull();
+    expect(detectSourceFormat('name: demo\nversion: 2')).toBeNull();
+  });
+
+  it('leaves notes and Markdown to the model', () => {
+    expect(detectSourceFormat('# Shopping\n- apples\n- pears')).toBeNull();
+    expect(detectSourceFormat('| a | b |\n| --- | --- |\n| 1 | 2 |')).toBeNull();
+    expect(detectSourceFormat('Just a sentence.')).toBeNull();
+  });
+
+  it('detects CSV with at least three rows of the same width', () => {
+    expect(detectSourceFormat('name,age\nAnn,30\nBob,41')).toBe('csv');
+    expect(detectSourceFormat('name,age\nAnn,30')).toBeNull();
+    expect(detectSourceFormat('name,age\nAnn,30\nBob')).toBeNull();
+  });
+
+  it('sniffs .txt files like text without a filename', () => {
+    expect(detectSourceFormat('Hello: world', 'notes.txt')).toBeNull();
+    expect(detectSourceFormat('{"a": 1}', 'notes.txt')).toBe('json');
+  });
+});
+
+describe('toTable', () => {
+  it('unwraps single-key wrappers around arrays and objects', () => {
+    expect(toTable({ items: [{ a: 1 }, { a: 2 }] })).toEqual({ columns: ['a'], rows: [{ a: 1 }, { a: 2 }] });
+    expect(toTable({ root: { row: [{ a: 1 }] } })).toEqual({ columns: ['a'], rows: [{ a: 1 }] });
+  });
+
+  it('keeps the key of a single scalar value', () => {
+    expect(toTable({ Hello: 'world' })).toEqual({ columns: ['Hello'], rows: [{ Hello: 'world' }] });
+  });
+
+  it('flattens nested objects into dotted columns', () => {
+    expect(toTable([{ id: 1, user: { name: 'Ann' } }, { id: 2, extra: true }])).toEqual({
+      columns: ['id', 'user.name', 'extra'],
+      rows: [{ id: 1, 'user.name': 'Ann' }, { id: 2, extra: true }],
+    });
+  });
+});
+
+describe('tryLocalConvert', () => {
+  it('sends ambiguous text without a filename to the model', () => {
+    expect(tryLocalConvert('Hello: world', TargetFormat.MARKDOWN)).toBeNull();
+    expect(tryLocalConvert('# Shopping\n- apples\n- pears', TargetFormat.HTML)).toBeNull();
+  });
+
+  it('converts a YAML file with a single key without losing the key', () => {
+    expect(tryLocalConvert('Hello: world\n', TargetFormat.MARKDOWN, 'note.yaml')).toBe('| Hello |\n| --- |\n| world |');
+  });
+
+  it('converts CSV to JSON records', () => {
+    expect(JSON.parse(tryLocalConvert('name,age\nAnn,30\nBob,41', TargetFormat.JSON)!)).toEqual([
+      { name: 'Ann', age: 30 },
+      { name: 'Bob', age: 41 },
+    ]);
+  });
+});
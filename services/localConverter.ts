@@ -0,0 +1,847 @@
+import { CsvOptions, SqlOptions, TargetFormat } from "../types";
+import { DEFAULT_CSV_OPTIONS, writeCsv } from "./csvDialect";
+import { inferJsonSchema } from "./jsonSchema";
+import { jsonSchemaToTypeScript, jsonSchemaToZod, toTypeName } from "./schemaCodegen";
+import { buildSqlScript, DEFAULT_SQL_OPTIONS } from "./sqlDialect";
+
+/**
+ * Source formats the local engine knows how to parse.
+ */
+export type StructuredFormat = 'json' | 'yaml' | 'csv' | 'xml' | 'markdown';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Target formats the local engine can serialize to without a model call.
+ */
+export const LOCAL_TARGET_FORMATS: TargetFormat[] = [
+  TargetFormat.JSON,
+  TargetFormat.XML,
+  TargetFormat.CSV,
+  TargetFormat.YAML,
+  TargetFormat.MARKDOWN,
+  TargetFormat.HTML,
+  TargetFormat.SQL,
+  TargetFormat.XLSX,
+  TargetFormat.TYPESCRIPT,
+  TargetFormat.JSON_SCHEMA,
+  TargetFormat.ZOD,
+];
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Picks the most likely delimiter by looking at the first line.
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t', '|'];
+  let best = ',';
+  let bestCount = 0;
+  for (const c of candidates) {
+    const count = firstLine.split(c).length - 1;
+    if (count > bestCount) {
+      best = c;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * RFC 4180 style CSV parser returning raw rows of cells.
+ */
+export const parseCsvRows = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (inQuotes) throw new Error('CSV 中存在未闭合的引号');
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Drop trailing blank lines
+  while (rows.length > 0 && rows[rows.length - 1].every(c => c === '')) rows.pop();
+  return rows;
+};
+
+/**
+ * Converts a literal cell into a number/boolean when it round-trips exactly.
+ */
+const coerceScalar = (value: string): unknown => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value !== '' && /^-?\d+(\.\d+)?$/.test(value) && String(Number(value)) === value) {
+    return Number(value);
+  }
+  return value;
+};
+
+const parseCsv = (text: string): Row[] => {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+  const header = rows[0].map((h, i) => h.trim() || `column${i + 1}`);
+  return rows.slice(1).map((cells, lineNo) => {
+    if (cells.length !== header.length) {
+      throw new Error(`CSV 第 ${lineNo + 2} 行列数 (${cells.length}) 与表头 (${header.length}) 不一致`);
+    }
+    const record: Row = {};
+    header.forEach((h, i) => { record[h] = coerceScalar(cells[i]); });
+    return record;
+  });
+};
+
+/**
+ * Rewrites CSV in the requested dialect, whatever delimiter it used.
+ */
+export const formatCsv = (text: string, options: CsvOptions): string => writeCsv(parseCsvRows(text), options);
+
+// ---------------------------------------------------------------------------
+// YAML (block mappings/sequences, flow collections, quoted and block scalars)
+// ---------------------------------------------------------------------------
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNo: number;
+}
+
+const stripYamlComment = (line: string): string => {
+  let inSingle = false;
+  let inDouble = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === "'" && !inDouble) inSingle = !inSingle;
+    else if (ch === '"' && !inSingle && line[i - 1] !== '\\') inDouble = !inDouble;
+    else if (ch === '#' && !inSingle && !inDouble && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i).trimEnd();
+    }
+  }
+  return line.trimEnd();
+};
+
+/**
+ * Splits a flow collection body on top-level commas.
+ */
+const splitFlowItems = (body: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const ch of body) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      current += ch;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '[' || ch === '{') depth++;
+    else if (ch === ']' || ch === '}') depth--;
+    if (ch === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+};
+
+/**
+ * Finds the `key: value` separator outside of quotes, or -1.
+ */
+const findMappingColon = (text: string): number => {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if ((ch === '"' || ch === "'") && i === 0) quote = ch;
+    else if (ch === '[' || ch === '{') depth++;
+    else if (ch === ']' || ch === '}') depth--;
+    else if (ch === ':' && depth === 0 && (i === text.length - 1 || text[i + 1] === ' ')) return i;
+  }
+  return -1;
+};
+
+const parseYamlScalar = (raw: string): unknown => {
+  const value = raw.trim();
+  if (value === '' || value === '~' || value === 'null' || value === 'Null' || value === 'NULL') return null;
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    return JSON.parse(value);
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitFlowItems(value.slice(1, -1)).map(parseYamlScalar);
+  }
+  if (value.startsWith('{') && value.endsWith('}')) {
+    const obj: Row = {};
+    for (const item of splitFlowItems(value.slice(1, -1))) {
+      const idx = findMappingColon(item);
+      if (idx === -1) throw new Error(`无法解析 YAML 流式映射项: ${item}`);
+      obj[String(parseYamlScalar(item.slice(0, idx)))] = parseYamlScalar(item.slice(idx + 1));
+    }
+    return obj;
+  }
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?\d+$/.test(value) && !/^[-+]?0\d/.test(value)) return Number(value);
+  if (/^[-+]?(\d+\.\d*|\.\d+)([eE][-+]?\d+)?$|^[-+]?\d+[eE][-+]?\d+$/.test(value)) return Number(value);
+  return value;
+};
+
+class YamlParser {
+  private pos = 0;
+
+  constructor(private lines: YamlLine[], private rawLines: string[]) {}
+
+  parse(): unknown {
+    if (this.lines.length === 0) return null;
+    const value = this.parseBlock(this.lines[0].indent);
+    if (this.pos < this.lines.length) {
+      throw new Error(`YAML 第 ${this.lines[this.pos].lineNo + 1} 行缩进无效`);
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.pos];
+    if (line.text === '-' || line.text.startsWith('- ')) return this.parseSequence(indent);
+    if (findMappingColon(line.text) !== -1) return this.parseMapping(indent);
+    this.pos++;
+    return parseYamlScalar(line.text);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent !== indent || !(line.text === '-' || line.text.startsWith('- '))) break;
+      const rest = line.text.slice(1).trim();
+      if (rest === '') {
+        this.pos++;
+        result.push(this.parseNested(indent));
+      } else {
+        // "- key: value" starts an inline mapping; treat the rest as a deeper line
+        const childIndent = indent + (line.text.length - line.text.slice(1).trimStart().length);
+        this.lines[this.pos] = { ...line, indent: childIndent, text: rest };
+        result.push(this.parseBlock(childIndent));
+      }
+    }
+    return result;
+  }
+
+  private parseMapping(indent: number): Row {
+    const result: Row = {};
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent !== indent) break;
+      const idx = findMappingColon(line.text);
+      if (idx === -1) throw new Error(`YAML 第 ${line.lineNo + 1} 行缺少 "key: value" 结构`);
+      const key = String(parseYamlScalar(line.text.slice(0, idx)));
+      const rest = line.text.slice(idx + 1).trim();
+      this.pos++;
+      if (rest === '') {
+        result[key] = this.parseNested(indent, true);
+      } else if (/^[|>][+-]?$/.test(rest)) {
+        result[key] = this.parseBlockScalar(indent, line.lineNo, rest);
+      } else {
+        result[key] = parseYamlScalar(rest);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Parses the value following "key:" or "-" on the next, deeper-indented lines.
+   * Sequences may sit at the same indent as their parent key.
+   */
+  private parseNested(parentIndent: number, allowSameIndentSequence = false): unknown {
+    const next = this.lines[this.pos];
+    if (!next) return null;
+    if (next.indent > parentIndent) return this.parseBlock(next.indent);
+    if (allowSameIndentSequence && next.indent === parentIndent && next.text.startsWith('- ')) {
+      return this.parseSequence(next.indent);
+    }
+    return null;
+  }
+
+  private parseBlockScalar(indent: number, headerLineNo: number, indicator: string): string {
+    const collected: string[] = [];
+    let i = headerLineNo + 1;
+    let blockIndent = -1;
+    for (; i < this.rawLines.length; i++) {
+      const raw = this.rawLines[i];
+      if (raw.trim() === '') {
+        collected.push('');
+        continue;
+      }
+      const lineIndent = raw.length - raw.trimStart().length;
+      if (lineIndent <= indent) break;
+      if (blockIndent === -1) blockIndent = lineIndent;
+      collected.push(raw.slice(blockIndent));
+    }
+    // Skip the structural lines consumed by the block
+    while (this.pos < this.lines.length && this.lines[this.pos].lineNo < i) this.pos++;
+    while (collected.length > 0 && collected[collected.length - 1] === '') collected.pop();
+    const body = indicator.startsWith('>')
+      ? collected.join('\n').replace(/([^\n])\n(?!\n)/g, '$1 ')
+      : collected.join('\n');
+    return indicator.endsWith('-') ? body : body + '\n';
+  }
+}
+
+const parseYaml = (text: string): unknown => {
+  const rawLines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const lines: YamlLine[] = [];
+  rawLines.forEach((raw, lineNo) => {
+    if (/^\s*\t/.test(raw)) throw new Error(`YAML 第 ${lineNo + 1} 行使用了制表符缩进`);
+    const text = stripYamlComment(raw);
+    if (text.trim() === '' || text.trim() === '---' || text.trim() === '...') return;
+    lines.push({ indent: text.length - text.trimStart().length, text: text.trim(), lineNo });
+  });
+  return new YamlParser(lines, rawLines).parse();
+};
+
+const YAML_PLAIN_SAFE = /^[A-Za-z_\u4e00-\u9fa5][\w\u4e00-\u9fa5 .\-/()（）]*$/;
+
+const yamlScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const str = String(value);
+  if (YAML_PLAIN_SAFE.test(str) && !/^(true|false|null|yes|no|on|off|~)$/i.test(str) && !str.endsWith(' ')) {
+    return str;
+  }
+  return JSON.stringify(str);
+};
+
+const toYaml = (value: unknown, indent = 0): string => {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${pad}[]`;
+    return value.map(item => {
+      if (item !== null && typeof item === 'object' && Object.keys(item).length > 0) {
+        const nested = toYaml(item, indent + 2);
+        return `${pad}- ${nested.trimStart()}`;
+      }
+      return `${pad}- ${isEmptyCollection(item) ? emptyCollection(item) : yamlScalar(item)}`;
+    }).join('\n');
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Row);
+    if (entries.length === 0) return `${pad}{}`;
+    return entries.map(([k, v]) => {
+      const key = yamlScalar(k);
+      if (v !== null && typeof v === 'object' && !isEmptyCollection(v)) {
+        return `${pad}${key}:\n${toYaml(v, indent + 2)}`;
+      }
+      return `${pad}${key}: ${isEmptyCollection(v) ? emptyCollection(v) : yamlScalar(v)}`;
+    }).join('\n');
+  }
+  return pad + yamlScalar(value);
+};
+
+const isEmptyCollection = (v: unknown): boolean =>
+  v !== null && typeof v === 'object' && Object.keys(v as object).length === 0;
+
+const emptyCollection = (v: unknown): string => (Array.isArray(v) ? '[]' : '{}');
+
+// ---------------------------------------------------------------------------
+// XML
+// ---------------------------------------------------------------------------
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: (XmlElement | string)[];
+}
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Minimal well-formedness-checking XML parser. Works without DOMParser so it
+ * can be reused outside the browser.
+ */
+export const parseXmlDocument = (text: string): XmlElement => {
+  const src = text.replace(/^\uFEFF/, '');
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let i = 0;
+
+  const lineAt = (index: number) => src.slice(0, index).split('\n').length;
+
+  while (i < src.length) {
+    if (src.startsWith('<!--', i)) {
+      const end = src.indexOf('-->', i);
+      if (end === -1) throw new Error(`XML 第 ${lineAt(i)} 行注释未闭合`);
+      i = end + 3;
+    } else if (src.startsWith('<![CDATA[', i)) {
+      const end = src.indexOf(']]>', i);
+      if (end === -1) throw new Error(`XML 第 ${lineAt(i)} 行 CDATA 未闭合`);
+      if (stack.length === 0) throw new Error(`XML 第 ${lineAt(i)} 行: 根元素之外存在内容`);
+      stack[stack.length - 1].children.push(src.slice(i + 9, end));
+      i = end + 3;
+    } else if (src.startsWith('<?', i) || src.startsWith('<!', i)) {
+      const end = src.indexOf('>', i);
+      if (end === -1) throw new Error(`XML 第 ${lineAt(i)} 行声明未闭合`);
+      i = end + 1;
+    } else if (src.startsWith('</', i)) {
+      const end = src.indexOf('>', i);
+      if (end === -1) throw new Error(`XML 第 ${lineAt(i)} 行结束标签未闭合`);
+      const name = src.slice(i + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new Error(`XML 第 ${lineAt(i)} 行: 结束标签 </${name}> 与 <${open?.name ?? '无'}> 不匹配`);
+      }
+      i = end + 1;
+    } else if (src[i] === '<') {
+      const match = /^<([A-Za-z_\u00C0-\uFFFF][\w.\-:\u00C0-\uFFFF]*)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(src.slice(i));
+      if (!match) throw new Error(`XML 第 ${lineAt(i)} 行标签格式无效`);
+      const element: XmlElement = { name: match[1], attributes: {}, children: [] };
+      const attrRe = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attr: RegExpExecArray | null;
+      while ((attr = attrRe.exec(match[2]))) {
+        element.attributes[attr[1]] = decodeXmlEntities(attr[2] ?? attr[3]);
+      }
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        throw new Error(`XML 第 ${lineAt(i)} 行: 存在多个根元素`);
+      } else {
+        root = element;
+      }
+      if (!match[3]) stack.push(element);
+      i += match[0].length;
+    } else {
+      const next = src.indexOf('<', i);
+      const end = next === -1 ? src.length : next;
+      const chunk = src.slice(i, end);
+      if (chunk.trim()) {
+        if (stack.length === 0) throw new Error(`XML 第 ${lineAt(i)} 行: 根元素之外存在文本`);
+        stack[stack.length - 1].children.push(decodeXmlEntities(chunk));
+      }
+      i = end;
+    }
+  }
+
+  if (stack.length > 0) throw new Error(`XML 元素 <${stack[stack.length - 1].name}> 未闭合`);
+  if (!root) throw new Error('XML 中没有根元素');
+  return root;
+};
+
+/**
+ * Maps an XML element into plain data: attributes become "@name",
+ * mixed text becomes "#text" and repeated child tags become arrays.
+ */
+const xmlElementToValue = (element: XmlElement): unknown => {
+  const elements = element.children.filter((c): c is XmlElement => typeof c !== 'string');
+  const text = element.children.filter((c): c is string => typeof c === 'string').join('').trim();
+  const attrKeys = Object.keys(element.attributes);
+
+  if (elements.length === 0 && attrKeys.length === 0) return coerceScalar(text);
+
+  const result: Row = {};
+  attrKeys.forEach(k => { result[`@${k}`] = coerceScalar(element.attributes[k]); });
+  for (const child of elements) {
+    const value = xmlElementToValue(child);
+    if (child.name in result) {
+      const existing = result[child.name];
+      result[child.name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    } else {
+      result[child.name] = value;
+    }
+  }
+  if (text) result['#text'] = coerceScalar(text);
+  return result;
+};
+
+const parseXml = (text: string): unknown => {
+  const root = parseXmlDocument(text);
+  return { [root.name]: xmlElementToValue(root) };
+};
+
+const toXmlName = (key: string): string => {
+  const cleaned = key.replace(/[^\w.\-\u00C0-\uFFFF]/g, '_');
+  return /^[A-Za-z_\u00C0-\uFFFF]/.test(cleaned) ? cleaned : `_${cleaned}`;
+};
+
+const toXmlElement = (name: string, value: unknown, indent: number): string => {
+  const pad = '  '.repeat(indent);
+  const tag = toXmlName(name);
+  if (Array.isArray(value)) {
+    return value.map(item => toXmlElement(name, item, indent)).join('\n');
+  }
+  if (value === null || value === undefined) return `${pad}<${tag}/>`;
+  if (typeof value !== 'object') return `${pad}<${tag}>${escapeXml(String(value))}</${tag}>`;
+
+  const entries = Object.entries(value as Row);
+  const attrs = entries
+    .filter(([k, v]) => k.startsWith('@') && (v === null || typeof v !== 'object'))
+    .map(([k, v]) => ` ${toXmlName(k.slice(1))}="${escapeXml(String(v ?? ''))}"`)
+    .join('');
+  const text = entries.find(([k]) => k === '#text')?.[1];
+  const children = entries.filter(([k]) => !k.startsWith('@') && k !== '#text');
+
+  if (children.length === 0) {
+    return text === undefined
+      ? `${pad}<${tag}${attrs}/>`
+      : `${pad}<${tag}${attrs}>${escapeXml(String(text))}</${tag}>`;
+  }
+  const body = children.map(([k, v]) => toXmlElement(k, v, indent + 1)).join('\n');
+  const textLine = text === undefined ? '' : `${'  '.repeat(indent + 1)}${escapeXml(String(text))}\n`;
+  return `${pad}<${tag}${attrs}>\n${textLine}${body}\n${pad}</${tag}>`;
+};
+
+const toXml = (data: unknown): string => {
+  const header = '<?xml version="1.0" encoding="UTF-8"?>';
+  // Data parsed from XML already carries its single root element
+  if (data !== null && typeof data === 'object' && !Array.isArray(data)) {
+    const keys = Object.keys(data as Row);
+    if (keys.length === 1 && !Array.isArray((data as Row)[keys[0]])) {
+      return `${header}\n${toXmlElement(keys[0], (data as Row)[keys[0]], 0)}`;
+    }
+  }
+  if (Array.isArray(data)) {
+    return `${header}\n<root>\n${toXmlElement('item', data, 1)}\n</root>`;
+  }
+  return `${header}\n${toXmlElement('root', data, 0)}`;
+};
+
+// ---------------------------------------------------------------------------
+// Markdown tables
+// ---------------------------------------------------------------------------
+
+const splitMarkdownRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    if (trimmed[i] === '\\' && trimmed[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (trimmed[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += trimmed[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const isMarkdownSeparator = (line: string): boolean =>
+  line.includes('|') && /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line);
+
+/**
+ * Parses a Markdown document made only of pipe tables (optionally under
+ * headings). One table yields its rows; several yield an object keyed by
+ * the preceding heading.
+ */
+const parseMarkdownTables = (text: string): unknown => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const tables: { title: string; rows: Row[] }[] = [];
+  let heading = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === '') continue;
+    const headingMatch = /^#{1,6}\s+(.*)$/.exec(line.trim());
+    if (headingMatch) {
+      heading = headingMatch[1].trim();
+      continue;
+    }
+    if (line.includes('|') && i + 1 < lines.length && isMarkdownSeparator(lines[i + 1])) {
+      const header = splitMarkdownRow(line).map((h, idx) => h || `column${idx + 1}`);
+      const rows: Row[] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+        const cells = splitMarkdownRow(lines[i]);
+        const record: Row = {};
+        header.forEach((h, idx) => { record[h] = coerceScalar(cells[idx] ?? ''); });
+        rows.push(record);
+        i++;
+      }
+      i--;
+      tables.push({ title: heading || `table${tables.length + 1}`, rows });
+      heading = '';
+      continue;
+    }
+    throw new Error('Markdown 中包含表格以外的内容');
+  }
+
+  if (tables.length === 0) throw new Error('Markdown 中没有表格');
+  if (tables.length === 1) return tables[0].rows;
+  const result: Row = {};
+  tables.forEach(t => { result[t.title in result ? `${t.title}_${tables.indexOf(t) + 1}` : t.title] = t.rows; });
+  return result;
+};
+
+// ---------------------------------------------------------------------------
+// Tabular serializers
+// ---------------------------------------------------------------------------
+
+/**
+ * Flattens nested objects into dot-separated keys. Arrays stay JSON encoded.
+ */
+const flattenRecord = (value: unknown, prefix = '', out: Row = {}): Row => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value as Row);
+    if (entries.length === 0 && prefix) out[prefix] = '';
+    for (const [k, v] of entries) flattenRecord(v, prefix ? `${prefix}.${k}` : k, out);
+  } else {
+    out[prefix || 'value'] = value;
+  }
+  return out;
+};
+
+/**
+ * Normalizes arbitrary parsed data into a header + rows table.
+ */
+export const toTable = (data: unknown): { columns: string[]; rows: Row[] } => {
+  let records: unknown[];
+  if (Array.isArray(data)) {
+    records = data;
+  } else if (data !== null && typeof data === 'object') {
+    // Unwrap single-key wrappers such as {"items": [...]} or {"root": {"row": [...]}};
+    // {"Hello": "world"} keeps its key as the column name
+    let current: unknown = data;
+    while (current !== null && typeof current === 'object' && !Array.isArray(current)
+      && Object.keys(current as Row).length === 1) {
+      const inner = Object.values(current as Row)[0];
+      if (inner === null || typeof inner !== 'object') break;
+      current = inner;
+    }
+    records = Array.isArray(current) ? current : [current];
+  } else {
+    records = [data];
+  }
+
+  const rows = records.map(r => flattenRecord(r));
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key);
+  }
+  return { columns, rows };
+};
+
+export const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const toCsv = (data: unknown, options: CsvOptions): string => {
+  const { columns, rows } = toTable(data);
+  return writeCsv([columns, ...rows.map(row => columns.map(c => cellToString(row[c])))], options);
+};
+
+const toMarkdownTable = (data: unknown): string => {
+  const { columns, rows } = toTable(data);
+  const esc = (s: string) => s.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const lines = [
+    `| ${columns.map(esc).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+  ];
+  for (const row of rows) lines.push(`| ${columns.map(c => esc(cellToString(row[c]))).join(' | ')} |`);
+  return lines.join('\n');
+};
+
+const toHtmlTable = (data: unknown): string => {
+  const { columns, rows } = toTable(data);
+  const esc = (s: string) => escapeXml(s);
+  const head = columns.map(c => `      <th>${esc(c)}</th>`).join('\n');
+  const body = rows.map(row =>
+    `    <tr>\n${columns.map(c => `      <td>${esc(cellToString(row[c]))}</td>`).join('\n')}\n    </tr>`
+  ).join('\n');
+  return `<table>\n  <thead>\n    <tr>\n${head}\n    </tr>\n  </thead>\n  <tbody>\n${body}\n  </tbody>\n</table>`;
+};
+
+/**
+ * Workbook JSON for the XLSX target: an object whose values are all arrays
+ * keeps one sheet per key, anything else becomes a single sheet.
+ */
+const toWorkbook = (data: unknown): Record<string, Row[]> => {
+  const isSheetMap = data !== null && typeof data === 'object' && !Array.isArray(data)
+    && Object.keys(data as Row).length > 0 && Object.values(data as Row).every(Array.isArray);
+  const sheets: [string, unknown][] = isSheetMap ? Object.entries(data as Row) : [['Sheet1', data]];
+  return Object.fromEntries(sheets.map(([name, value]) => [name, toTable(value).rows]));
+};
+
+const toSql = (data: unknown, options: SqlOptions): string => {
+  const { columns, rows } = toTable(data);
+  return buildSqlScript(columns, rows, options);
+};
+
+// ---------------------------------------------------------------------------
+// Detection & entry points
+// ---------------------------------------------------------------------------
+
+const parses = (parse: () => unknown): boolean => {
+  try {
+    parse();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Guesses the structured format of some text, using the filename extension
+ * when available. Returns null for prose or anything we are not sure about.
+ */
+export const detectSourceFormat = (text: string, filename?: string): StructuredFormat | null => {
+  const ext = filename?.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'json': return 'json';
+    case 'yaml':
+    case 'yml': return 'yaml';
+    case 'csv':
+    case 'tsv': return 'csv';
+    case 'xml': return 'xml';
+    case 'md':
+    case 'markdown': return 'markdown';
+  }
+  if (ext && ext !== 'txt') return null;
+
+  // Without an extension only unambiguous content is converted locally. Notes
+  // such as "Hello: world" or a Markdown list also read as YAML, and
+  // converting them without the model would silently drop their structure.
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (/^[[{]/.test(trimmed)) return parses(() => JSON.parse(trimmed)) ? 'json' : null;
+  if (trimmed.startsWith('<')) {
+    return !/^<(!doctype\s+html|html)/i.test(trimmed) && parses(() => parseXmlDocument(trimmed)) ? 'xml' : null;
+  }
+  if (/^---(\r?\n|$)/.test(trimmed)) return 'yaml';
+
+  // A Markdown table also splits into rows of equal width on "|"
+  if (trimmed.split(/\r?\n/).some(isMarkdownSeparator)) return null;
+  let widths: number[];
+  try {
+    widths = parseCsvRows(trimmed).map(r => r.length);
+  } catch {
+    return null;
+  }
+  if (widths.length >= 3 && widths[0] >= 2 && widths.every(w => w === widths[0])) return 'csv';
+  return null;
+};
+
+export const parseStructured = (text: string, format: StructuredFormat): unknown => {
+  switch (format) {
+    case 'json': return JSON.parse(text.replace(/^\uFEFF/, ''));
+    case 'yaml': return parseYaml(text);
+    case 'csv': return parseCsv(text);
+    case 'xml': return parseXml(text);
+    case 'markdown': return parseMarkdownTables(text);
+  }
+};
+
+/**
+ * Target-specific settings for local serialization.
+ */
+export interface LocalConvertOptions {
+  csv?: CsvOptions;
+  sql?: SqlOptions;
+  /** Root type name for generated TypeScript and Zod code */
+  typeName?: string;
+}
+
+export const serializeStructured = (data: unknown, target: TargetFormat, options: LocalConvertOptions = {}): string => {
+  switch (target) {
+    case TargetFormat.JSON: return JSON.stringify(data, null, 2);
+    case TargetFormat.YAML: return toYaml(data);
+    case TargetFormat.XML: return toXml(data);
+    case TargetFormat.CSV: return toCsv(data, options.csv || DEFAULT_CSV_OPTIONS);
+    case TargetFormat.MARKDOWN: return toMarkdownTable(data);
+    case TargetFormat.HTML: return toHtmlTable(data);
+    case TargetFormat.SQL: return toSql(data, options.sql || DEFAULT_SQL_OPTIONS);
+    case TargetFormat.XLSX: return JSON.stringify(toWorkbook(data), null, 2);
+    case TargetFormat.JSON_SCHEMA: return JSON.stringify(inferJsonSchema(data), null, 2);
+    case TargetFormat.TYPESCRIPT: return jsonSchemaToTypeScript(inferJsonSchema(data), options.typeName);
+    case TargetFormat.ZOD: return jsonSchemaToZod(inferJsonSchema(data), options.typeName);
+    default:
+      throw new Error(`本地引擎不支持目标格式 ${target}`);
+  }
+};
+
+/**
+ * Attempts a deterministic in-browser conversion. Returns null when the input
+ * is not recognizably structured or fails to parse, so the caller can fall
+ * back to the model.
+ */
+export const tryLocalConvert = (
+  text: string,
+  targetFormat: TargetFormat,
+  filename?: string,
+  options: LocalConvertOptions = {}
+): string | null => {
+  if (!LOCAL_TARGET_FORMATS.includes(targetFormat)) return null;
+  const sourceFormat = detectSourceFormat(text, filename);
+  if (!sourceFormat) return null;
+  // Generated types are named after the file: orders.csv -> Orders
+  const typeName = options.typeName ?? (filename ? toTypeName(filename.replace(/\.[^.]+$/, '')) : undefined);
+  try {
+    return serializeStructured(parseStructured(text, sourceFormat), targetFormat, { ...options, typeName });
+  } catch (error) {
+    console.warn(`Local ${sourceFormat} conversion failed, falling back to model:`, error);
+    return null;
+  }
+};
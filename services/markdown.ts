@@ -0,0 +1,153 @@
+/**
+ * Small Markdown to HTML renderer for previews. Covers the CommonMark/GFM
+ * subset the model produces: headings, paragraphs, emphasis, code, links,
+ * nested lists, blockquotes, tables and rules. All text is HTML-escaped.
+ */
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderInline = (text: string): string => {
+  // Protect code spans from further inline processing
+  const codeSpans: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+  html = html
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, '<img alt="$1" src="$2">')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) =>
+      /^(https?:|mailto:|#|\/)/i.test(href) ? `<a href="${href}" target="_blank" rel="noopener">${label}</a>` : label)
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*([^*]+)\*|\b_([^_]+)_\b/g, (_, a, b) => `<em>${a ?? b}</em>`)
+    .replace(/~~([^~]+)~~/g, '<del>$1</del>')
+    .replace(/ {2,}$/gm, '<br>');
+  return html.replace(/\u0000(\d+)\u0000/g, (_, i: string) => codeSpans[Number(i)]);
+};
+
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(c => c.trim().replace(/\\\|/g, '|'));
+
+const isTableSeparator = (line: string): boolean =>
+  line.includes('|') && /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line);
+
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+
+/**
+ * Renders a run of list lines, nesting by indentation.
+ */
+const renderList = (lines: string[]): string => {
+  const out: string[] = [];
+  const stack: { indent: number; tag: string }[] = [];
+
+  for (const line of lines) {
+    const match = LIST_ITEM_RE.exec(line);
+    if (!match) {
+      // Continuation line of the previous item
+      if (out.length > 0) out[out.length - 1] = out[out.length - 1].replace(/<\/li>$/, ` ${renderInline(line.trim())}</li>`);
+      continue;
+    }
+    const indent = match[1].length;
+    const tag = /\d/.test(match[2]) ? 'ol' : 'ul';
+    while (stack.length > 0 && indent < stack[stack.length - 1].indent) {
+      out.push(`</${stack.pop()!.tag}></li>`);
+    }
+    if (stack.length === 0 || indent > stack[stack.length - 1].indent) {
+      if (stack.length > 0) out[out.length - 1] = out[out.length - 1].replace(/<\/li>$/, '');
+      stack.push({ indent, tag });
+      out.push(`<${tag}>`);
+    }
+    const task = /^\[([ xX])\]\s+(.*)$/.exec(match[3]);
+    out.push(task
+      ? `<li><input type="checkbox" disabled${task[1] === ' ' ? '' : ' checked'}> ${renderInline(task[2])}</li>`
+      : `<li>${renderInline(match[3])}</li>`);
+  }
+  while (stack.length > 0) {
+    out.push(`</${stack.pop()!.tag}>`);
+    if (stack.length > 0) out.push('</li>');
+  }
+  return out.join('\n');
+};
+
+export const renderMarkdown = (markdown: string): string => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = /^\s*(```|~~~)\s*([\w+-]*)/.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      out.push(`<pre><code${fence[2] ? ` class="language-${fence[2]}"` : ''}>${escapeHtml(body.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      out.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      out.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && isTableSeparator(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const aligns = splitTableRow(lines[i + 1]).map(c =>
+        c.startsWith(':') && c.endsWith(':') ? 'center' : c.endsWith(':') ? 'right' : '');
+      const cell = (tag: string, text: string, idx: number) =>
+        `<${tag}${aligns[idx] ? ` style="text-align:${aligns[idx]}"` : ''}>${renderInline(text)}</${tag}>`;
+      const rows: string[] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+        rows.push(`<tr>${splitTableRow(lines[i]).map((c, idx) => cell('td', c, idx)).join('')}</tr>`);
+        i++;
+      }
+      out.push(`<table><thead><tr>${header.map((h, idx) => cell('th', h, idx)).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`);
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) body.push(lines[i++].replace(/^\s*>\s?/, ''));
+      out.push(`<blockquote>${renderMarkdown(body.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() !== '' && (LIST_ITEM_RE.test(lines[i]) || /^\s+/.test(lines[i]))) {
+        body.push(lines[i++]);
+      }
+      out.push(renderList(body));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim() !== '' &&
+      !/^(#{1,6}\s|\s*(```|~~~)|\s*>)/.test(lines[i]) && !LIST_ITEM_RE.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    // Guarantee progress on lines no other rule consumed
+    if (paragraph.length === 0) paragraph.push(lines[i++]);
+    out.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+  }
+
+  return out.join('\n');
+};
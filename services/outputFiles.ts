@@ -0,0 +1,125 @@
+import { BatchFileItem, RedactionReport, TargetFormat } from "../types";
+import { UTF8_BOM } from "./csvDialect";
+import { buildDocx, DOCX_MIME_TYPE } from "./docxWriter";
+import { buildXlsx, XLSX_MIME_TYPE } from "./xlsxWriter";
+import { createZip, ZipEntry } from "./zip";
+
+export const ZIP_MIME_TYPE = 'application/zip';
+
+export const getOutputFileType = (format: TargetFormat): { extension: string; mimeType: string } => {
+  switch (format) {
+    case TargetFormat.JSON: return { extension: 'json', mimeType: 'application/json' };
+    case TargetFormat.CSV: return { extension: 'csv', mimeType: 'text/csv' };
+    case TargetFormat.HTML: return { extension: 'html', mimeType: 'text/html' };
+    case TargetFormat.MARKDOWN: return { extension: 'md', mimeType: 'text/markdown' };
+    case TargetFormat.XML: return { extension: 'xml', mimeType: 'text/xml' };
+    case TargetFormat.SQL: return { extension: 'sql', mimeType: 'application/sql' };
+    case TargetFormat.YAML: return { extension: 'yaml', mimeType: 'text/yaml' };
+    case TargetFormat.LATEX: return { extension: 'tex', mimeType: 'application/x-tex' };
+    case TargetFormat.MERMAID: return { extension: 'mmd', mimeType: 'text/plain' };
+    case TargetFormat.DOCX: return { extension: 'docx', mimeType: DOCX_MIME_TYPE };
+    case TargetFormat.XLSX: return { extension: 'xlsx', mimeType: XLSX_MIME_TYPE };
+    case TargetFormat.TYPESCRIPT:
+    case TargetFormat.ZOD: return { extension: 'ts', mimeType: 'text/typescript' };
+    case TargetFormat.JSON_SCHEMA: return { extension: 'json', mimeType: 'application/schema+json' };
+    default: return { extension: 'txt', mimeType: 'text/plain' };
+  }
+};
+
+export const MANIFEST_FILENAME = 'manifest.json';
+
+/**
+ * Produces the bytes of a downloadable result. DOCX output is semantic HTML
+ * and gets packaged as a real Word document, XLSX output is workbook JSON
+ * that becomes an Excel workbook; everything else is text. CSV
+ * can be prefixed with a BOM, without which Excel reads UTF-8 as the local
+ * code page.
+ */
+export const buildOutputData = async (content: string, format: TargetFormat, title: string, csvBom = false): Promise<string | Uint8Array> => {
+  if (format === TargetFormat.DOCX) return buildDocx(content, title);
+  if (format === TargetFormat.XLSX) return buildXlsx(content, title);
+  return format === TargetFormat.CSV && csvBom ? UTF8_BOM + content : content;
+};
+
+export interface ManifestEntry {
+  source: string;
+  size: number;
+  targetFormat: TargetFormat | null;
+  instructions: string;
+  status: BatchFileItem['status'];
+  output: string | null; // Path inside the archive, null when there is no result
+  error: string | null;
+  validationError: string | null;
+  redaction: RedactionReport | null; // Values masked before the content was sent
+  cachedAt: string | null; // Set when the result was reused from the result cache
+  completedAt: string | null;
+}
+
+/**
+ * Packages every successful batch result into a ZIP archive together with a
+ * manifest.json describing all items, including the ones that failed.
+ * filenames maps item ids to unique output names (see resolveBatchFilenames).
+ */
+export const buildBatchArchive = async (
+  items: BatchFileItem[],
+  filenames: Map<string, string>,
+  fallbackFormat: TargetFormat,
+  csvBom = false
+): Promise<Uint8Array> => {
+  const entries: ZipEntry[] = [];
+  const manifest: ManifestEntry[] = [];
+
+  for (const item of items) {
+    const format = item.targetFormat ?? fallbackFormat;
+    let output: string | null = null;
+    let error = item.error ?? null;
+
+    if (item.status === 'success' && item.result) {
+      const path = filenames.get(item.id)!;
+      try {
+        entries.push({
+          path,
+          data: await buildOutputData(item.result, format, path.replace(/\.[^.]+$/, ''), csvBom),
+          modified: item.completedAt ? new Date(item.completedAt) : undefined,
+        });
+        output = path;
+      } catch (err: any) {
+        error = `生成文件失败：${err.message}`;
+      }
+    }
+
+    manifest.push({
+      source: item.file.name,
+      size: item.file.size,
+      targetFormat: item.targetFormat ?? null,
+      instructions: item.instructions ?? '',
+      status: item.status,
+      output,
+      error,
+      validationError: item.validation?.valid === false ? item.validation.error ?? null : null,
+      redaction: item.status === 'success' ? item.redaction ?? null : null,
+      cachedAt: item.status === 'success' && item.cachedAt ? new Date(item.cachedAt).toISOString() : null,
+      completedAt: item.completedAt ? new Date(item.completedAt).toISOString() : null,
+    });
+  }
+
+  entries.push({
+    path: MANIFEST_FILENAME,
+    data: JSON.stringify({ generatedAt: new Date().toISOString(), files: manifest }, null, 2),
+  });
+  return createZip(entries);
+};
+
+/**
+ * Saves a blob through a temporary object URL.
+ */
+export const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
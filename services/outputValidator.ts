@@ -0,0 +1,132 @@
+import { TargetFormat } from "../types";
+import { parseCsvRows, parseStructured, parseXmlDocument } from "./localConverter";
+import { parseWorkbook } from "./xlsxWriter";
+
+/**
+ * Removes a Markdown code fence wrapping the whole output (```json ... ```).
+ * Not applied to Markdown output, where fences are legitimate content and a
+ * document that opens and closes with code blocks would look fenced.
+ */
+export const stripCodeFences = (text: string): string => {
+  const trimmed = text.trim();
+  const match = /^```[\w+-]*[^\S\r\n]*\r?\n([\s\S]*?)\r?\n?```$/.exec(trimmed);
+  return match ? match[1] : trimmed;
+};
+
+const VOID_HTML_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements whose end tag HTML allows to be omitted
+const OPTIONAL_CLOSE_ELEMENTS = new Set([
+  'p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'option', 'colgroup',
+  'html', 'head', 'body',
+]);
+
+const validateHtml = (text: string): string | null => {
+  const stack: string[] = [];
+  const src = text.replace(/<!--[\s\S]*?-->/g, '').replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, '');
+  const tagRe = /<(\/?)([A-Za-z][\w-]*)\b[^>]*?(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRe.exec(src))) {
+    const [, closing, rawName, selfClosing] = match;
+    const name = rawName.toLowerCase();
+    if (VOID_HTML_ELEMENTS.has(name)) continue;
+    if (!closing) {
+      if (!selfClosing) stack.push(name);
+      continue;
+    }
+    const idx = stack.lastIndexOf(name);
+    if (idx === -1) return `多余的结束标签 </${name}>`;
+    const unclosed = stack.slice(idx + 1).filter(t => !OPTIONAL_CLOSE_ELEMENTS.has(t));
+    if (unclosed.length > 0) return `标签 <${unclosed[unclosed.length - 1]}> 在 </${name}> 之前未闭合`;
+    stack.length = idx;
+  }
+
+  const unclosed = stack.filter(t => !OPTIONAL_CLOSE_ELEMENTS.has(t));
+  return unclosed.length > 0 ? `标签 <${unclosed[unclosed.length - 1]}> 未闭合` : null;
+};
+
+const validateCsv = (text: string): string | null => {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return 'CSV 内容为空';
+  const width = rows[0].length;
+  const badRow = rows.findIndex(r => r.length !== width);
+  return badRow === -1 ? null : `第 ${badRow + 1} 行有 ${rows[badRow].length} 列，但表头有 ${width} 列`;
+};
+
+const MERMAID_DIAGRAM_TYPES = [
+  'graph', 'flowchart', 'sequenceDiagram', 'classDiagram', 'stateDiagram', 'stateDiagram-v2',
+  'erDiagram', 'gantt', 'pie', 'journey', 'gitGraph', 'mindmap', 'timeline', 'quadrantChart',
+  'requirementDiagram', 'C4Context', 'sankey-beta', 'xychart-beta', 'block-beta',
+];
+
+const validateMermaid = (text: string): string | null => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('%%'));
+  if (lines.length === 0) return 'Mermaid 内容为空';
+  const diagramType = lines[0].split(/\s+/)[0];
+  if (!MERMAID_DIAGRAM_TYPES.includes(diagramType)) {
+    return `未知的 Mermaid 图表类型 "${diagramType}"，首行应为 ${MERMAID_DIAGRAM_TYPES.slice(0, 4).join(' / ')} 等`;
+  }
+
+  // Flowchart node shapes must open and close on the same line; other diagram
+  // types (state, class) legitimately span braces across lines.
+  const checkShapes = diagramType === 'graph' || diagramType === 'flowchart';
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+  let blockDepth = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const stack: string[] = [];
+    let inQuote = false;
+    for (const ch of lines[i]) {
+      if (ch === '"') inQuote = !inQuote;
+      else if (inQuote || !checkShapes) continue;
+      else if (ch === '(' || ch === '[' || ch === '{') stack.push(ch);
+      // The asymmetric shape A>label] has no opening bracket
+      else if (ch === ']' && stack.length === 0) continue;
+      else if (ch in pairs && stack.pop() !== pairs[ch]) return `第 ${i + 1} 行括号不匹配`;
+    }
+    if (inQuote) return `第 ${i + 1} 行引号未闭合`;
+    if (stack.length > 0) return `第 ${i + 1} 行括号未闭合`;
+    if (/^(subgraph|loop|alt|opt|par|critical|break|rect)\b/.test(lines[i])) blockDepth++;
+    else if (lines[i] === 'end') blockDepth--;
+    if (blockDepth < 0) return `第 ${i + 1} 行出现多余的 end`;
+  }
+  return blockDepth > 0 ? '存在未以 end 结束的 subgraph/loop/alt 块' : null;
+};
+
+/**
+ * Checks the output against the syntax of the target format.
+ * Returns a human-readable parser error, or null when the output is valid
+ * (or the format has no checkable syntax).
+ */
+export const validateOutput = (text: string, format: TargetFormat): string | null => {
+  try {
+    switch (format) {
+      case TargetFormat.JSON:
+      case TargetFormat.JSON_SCHEMA:
+        JSON.parse(text);
+        return null;
+      case TargetFormat.XML:
+        parseXmlDocument(text);
+        return null;
+      case TargetFormat.YAML:
+        parseStructured(text, 'yaml');
+        return null;
+      case TargetFormat.CSV:
+        return validateCsv(text);
+      case TargetFormat.HTML:
+      case TargetFormat.DOCX:
+        return validateHtml(text);
+      case TargetFormat.MERMAID:
+        return validateMermaid(text);
+      case TargetFormat.XLSX:
+        parseWorkbook(text);
+        return null;
+      default:
+        return null;
+    }
+  } catch (error: any) {
+    return error.message || String(error);
+  }
+};
@@ -0,0 +1,102 @@
+import { ConversionPreset, ProviderId, TargetFormat } from "../types";
+import { normalizeCsvOptions } from "./csvDialect";
+import { DEFAULT_TEMPERATURE } from "./prompt";
+import { normalizeRedactionOptions } from "./redaction";
+import { normalizeSqlOptions } from "./sqlDialect";
+
+/**
+ * Named conversion presets, stored in localStorage and shareable as JSON files.
+ */
+
+const STORAGE_KEY = 'uniconvert.presets';
+const FILE_VERSION = 1;
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'mock', 'proxy'];
+
+const generatePresetId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Checks one preset from storage or an imported file and fills in defaults.
+ * Throws with the preset's position when it cannot be used.
+ */
+const normalizePreset = (raw: any, index: number): ConversionPreset => {
+  const label = `第 ${index + 1} 个预设`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${label}格式错误。`);
+  if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error(`${label}缺少名称。`);
+  if (!Object.values(TargetFormat).includes(raw.targetFormat)) {
+    throw new Error(`预设「${raw.name}」的目标格式 "${raw.targetFormat}" 不受支持。`);
+  }
+  const provider: ProviderId = PROVIDER_IDS.includes(raw.provider) ? raw.provider : 'gemini';
+  const temperature = Number(raw.temperature);
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generatePresetId(),
+    name: raw.name.trim(),
+    targetFormat: raw.targetFormat,
+    instructions: typeof raw.instructions === 'string' ? raw.instructions : '',
+    filenamePattern: typeof raw.filenamePattern === 'string' ? raw.filenamePattern : '',
+    provider,
+    model: typeof raw.model === 'string' ? raw.model : '',
+    baseUrl: typeof raw.baseUrl === 'string' ? raw.baseUrl : undefined,
+    temperature: raw.temperature !== undefined && !isNaN(temperature) ? Math.min(2, Math.max(0, temperature)) : DEFAULT_TEMPERATURE,
+    jsonSchema: typeof raw.jsonSchema === 'string' && raw.jsonSchema ? raw.jsonSchema : undefined,
+    sqlOptions: raw.sqlOptions && typeof raw.sqlOptions === 'object' ? normalizeSqlOptions(raw.sqlOptions) : undefined,
+    csvOptions: raw.csvOptions && typeof raw.csvOptions === 'object' ? normalizeCsvOptions(raw.csvOptions) : undefined,
+    redaction: raw.redaction && typeof raw.redaction === 'object' ? normalizeRedactionOptions(raw.redaction) : undefined,
+  };
+};
+
+export const loadPresets = (): ConversionPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.map(normalizePreset) : [];
+  } catch (error) {
+    console.warn('Ignoring unreadable presets:', error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: ConversionPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Serializes presets for sharing. Ids are local and left out.
+ */
+export const exportPresets = (presets: ConversionPreset[]): string =>
+  JSON.stringify({
+    version: FILE_VERSION,
+    presets: presets.map(({ id, ...preset }) => preset),
+  }, null, 2);
+
+/**
+ * Parses an exported presets file. A bare array or single preset object is
+ * accepted as well.
+ */
+export const parsePresetFile = (text: string): ConversionPreset[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("预设文件不是合法的 JSON。");
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(data?.presets) ? data.presets : [data];
+  return list.map((raw: any, i: number) => normalizePreset({ ...raw, id: undefined }, i));
+};
+
+/**
+ * Adds imported presets; an existing preset with the same name is replaced
+ * in place.
+ */
+export const mergePresets = (existing: ConversionPreset[], imported: ConversionPreset[]): ConversionPreset[] => {
+  const merged = [...existing];
+  for (const preset of imported) {
+    const index = merged.findIndex(p => p.name === preset.name);
+    if (index >= 0) merged[index] = { ...preset, id: merged[index].id };
+    else merged.push(preset);
+  }
+  return merged;
+};
+
+export const createPreset = (fields: Omit<ConversionPreset, 'id'>): ConversionPreset => ({
+  ...fields,
+  id: generatePresetId(),
+});
@@ -0,0 +1,217 @@
+import { SqlOptions, TargetFormat, TextEncodingId } from "../types";
+import { JsonSchema } from "./jsonSchema";
+import { describeSqlOptions } from "./sqlDialect";
+import { decodeText } from "./textEncoding";
+import { PromptPart, PromptRequest } from "./providers/types";
+
+// Low temperature keeps conversions faithful to the source
+export const DEFAULT_TEMPERATURE = 0.2;
+
+// Part of the result cache key: bump when prompt changes should invalidate cached results
+export const PROMPT_VERSION = 1;
+
+/**
+ * Helper to determine MIME type from extension if file.type is missing/generic
+ */
+export const getMimeType = (file: File): string => {
+  if (file.type && file.type !== 'application/octet-stream' && file.type !== '') {
+    return file.type;
+  }
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'pdf': return 'application/pdf';
+    case 'csv': return 'text/csv';
+    case 'json': return 'application/json';
+    case 'xml': return 'text/xml';
+    case 'html': return 'text/html';
+    case 'md': return 'text/markdown';
+    case 'txt': return 'text/plain';
+    case 'doc':
+    case 'docx': return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    case 'xlsx': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    case 'ods': return 'application/vnd.oasis.opendocument.spreadsheet';
+    case 'pptx': return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    case 'epub': return 'application/epub+zip';
+    case 'png': return 'image/png';
+    case 'jpg':
+    case 'jpeg': return 'image/jpeg';
+    case 'webp': return 'image/webp';
+    case 'heic': return 'image/heic';
+    default: return 'text/plain';
+  }
+};
+
+/**
+ * Checks if a file is safe to be read as text.
+ */
+export const isTextFile = (file: File): boolean => {
+  const mimeType = getMimeType(file);
+  const textMimes = [
+    'text/', 'application/json', 'application/xml', 'application/javascript',
+    'application/x-yaml', 'application/sql', 'application/csv'
+  ];
+  if (textMimes.some(t => mimeType.startsWith(t))) return true;
+
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  const textExts = ['txt', 'md', 'csv', 'json', 'xml', 'html', 'css', 'js', 'yaml', 'yml', 'sql', 'ts', 'tsx', 'py'];
+  return !!ext && textExts.includes(ext);
+};
+
+/**
+ * Reads a text file in the given encoding, detecting it when omitted. Uses
+ * the Blob API rather than FileReader so it also runs in Node.
+ */
+export const readTextFile = async (file: File, encoding?: TextEncodingId): Promise<string> =>
+  decodeText(new Uint8Array(await file.arrayBuffer()), encoding);
+
+/**
+ * Base64-encodes bytes in slices; spreading a large array into
+ * String.fromCharCode at once overflows the call stack.
+ */
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Converts the file to a Base64 string for the API.
+ */
+export const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(await file.arrayBuffer());
+  } catch {
+    throw new Error("无法读取文件");
+  }
+  return {
+    inlineData: {
+      data: bytesToBase64(bytes),
+      mimeType: getMimeType(file),
+    },
+  };
+};
+
+/**
+ * Builds the default conversion prompt: a text fast path for text files,
+ * Base64 parts for binaries, and a system instruction tuned to the target.
+ */
+export const buildConversionPrompt = async (
+  input: string | File,
+  targetFormat: TargetFormat,
+  instructions?: string
+): Promise<PromptRequest> => {
+  const parts: PromptPart[] = [];
+  const hasInstructions = !!instructions && instructions.trim().length > 0;
+  let isPdfInput = false;
+
+  if (input instanceof File && !isTextFile(input)) {
+    // Binary files (PDF, Images, DOCX) must use Base64, followed by the prompt text
+    const filePart = await fileToGenerativePart(input);
+    isPdfInput = filePart.inlineData.mimeType === 'application/pdf';
+    let promptText = `Analyze the content of this file and convert it to ${targetFormat}.`;
+    if (hasInstructions) promptText += `\n\nAdditional Instructions & Rules:\n${instructions}`;
+    parts.push(filePart, { text: promptText });
+  } else {
+    if (input instanceof File) {
+      // Optimization: Send text files as raw text to save 33% overhead (Base64)
+      const textContent = await readTextFile(input);
+      parts.push({ text: `Convert the following file content to ${targetFormat}. Filename: ${input.name}\n\nContent:\n${textContent}` });
+    } else {
+      parts.push({ text: `Convert the following text content to ${targetFormat}:\n\n${input}` });
+    }
+    if (hasInstructions) parts.push({ text: `\n\nAdditional Instructions & Rules:\n${instructions}` });
+  }
+
+  // Custom system instruction based on target
+  let systemInstruction = `You are a strict document conversion engine.
+    Your task is to transform the input data into the requested format (e.g., ${targetFormat}).
+    Do NOT include conversational filler, explanations, or markdown code fences (like \`\`\`json) UNLESS the target format is Markdown.
+    Just output the raw converted content.
+    If the input is an image or PDF, extract all relevant text and data structures and format them accordingly.
+
+    IMPORTANT: If the input document contains tables, you MUST preserve the table structure in the target format (e.g., as Markdown tables, HTML <table> tags, CSV rows, or structured JSON arrays). Do not flatten tables into plain text unless requested.`;
+
+  // Special handling for DOCX output: semantic HTML is the structured intermediate the .docx writer consumes
+  if (targetFormat === TargetFormat.DOCX) {
+    systemInstruction += `\n\nFor the target format DOCX (Word), please generate clean, semantic HTML5 describing the document structure.
+      Use <h1>-<h6> for headings, <p> for paragraphs, <ul>/<ol>/<li> for lists (nesting allowed), <table>/<thead>/<tr>/<th>/<td> for tables,
+      and <strong>, <em>, <u>, <br> for inline formatting. Do not use inline styles, classes, images or any other tags.
+      Do not include <html> or <body> tags, just the content. This HTML will be converted into a Word document.`;
+
+    if (isPdfInput) {
+      systemInstruction += `\n\nSince the input is a PDF, meticulously extract the text, tables, and document structure. Preserve the flow, hierarchy, and formatting (bold, italics) of the original document in the generated HTML to ensure the converted Word document closely matches the PDF.`;
+    }
+  }
+
+  // XLSX output: workbook JSON is the structured intermediate the .xlsx writer consumes
+  if (targetFormat === TargetFormat.XLSX) {
+    systemInstruction += `\n\nFor the target format XLSX (Excel), output a single JSON object whose keys are worksheet names and whose values are arrays of row objects mapping column headers to cell values.
+      Put every table of the document on its own sheet, named after the table's caption or nearest heading (at most 31 characters). Use the same keys in the same order for every row of a sheet.
+      Write numbers as JSON numbers without thousands separators, currency symbols or units, dates as ISO 8601 strings (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss), and yes/no values as true/false.
+      If the document has no tables, put its content into one sheet with one row per item. This JSON will be converted into an Excel workbook.`;
+  }
+
+  // Code targets describe the data model of the document, not its content
+  if (targetFormat === TargetFormat.TYPESCRIPT) {
+    systemInstruction += `\n\nFor the target format TypeScript, output type declarations only: exported interfaces and type aliases describing the data model that the document specifies or that its records follow.
+      Use PascalCase type names, mark fields that may be absent as optional, use string literal unions for enumerations and add a /** */ comment for fields the document describes.
+      Do not output functions, classes, values or imports. The code will be type-checked with strict settings.`;
+  }
+  if (targetFormat === TargetFormat.JSON_SCHEMA) {
+    systemInstruction += `\n\nFor the target format JSON Schema, output one JSON Schema document using draft 2020-12 ("$schema": "https://json-schema.org/draft/2020-12/schema") that describes the data model the document specifies or its records follow.
+      Put reusable object definitions under "$defs" and reference them with "$ref": "#/$defs/Name". List mandatory properties in "required", and use "enum", "format" and "description" where the document gives them.
+      Use "prefixItems" rather than an array-valued "items" for tuples.`;
+  }
+  if (targetFormat === TargetFormat.ZOD) {
+    systemInstruction += `\n\nFor the target format Zod Schema, output a TypeScript module that starts with import { z } from "zod"; and declares one exported schema constant per object type, named like OrderSchema, each followed by export type Order = z.infer<typeof OrderSchema>;.
+      Declare schemas before the schemas that use them, mark fields that may be absent with .optional() and use z.enum([...]) for enumerations.
+      Do not output anything else. The code will be type-checked with strict settings.`;
+  }
+
+  return {
+    systemInstruction,
+    turns: [{ role: 'user', parts }],
+    targetFormat,
+    temperature: DEFAULT_TEMPERATURE,
+    // Use JSON mode if the target is specifically JSON
+    jsonMode: targetFormat === TargetFormat.JSON || targetFormat === TargetFormat.XLSX || targetFormat === TargetFormat.JSON_SCHEMA,
+  };
+};
+
+/**
+ * Constrains a JSON request to a user-supplied schema: passed to the backend
+ * as the response schema and spelled out in the system instruction for
+ * backends that ignore it.
+ */
+export const applyResponseSchema = (request: PromptRequest, schema: JsonSchema): PromptRequest => ({
+  ...request,
+  responseSchema: schema,
+  systemInstruction: `${request.systemInstruction}
+
+The output MUST be a JSON document conforming exactly to the following JSON Schema. Use exactly the property names it defines, include every required property (use null when the source has no value and the schema allows it), and add no other properties.
+${JSON.stringify(schema, null, 2)}`,
+});
+
+/**
+ * Adds the chosen SQL dialect, table and statement layout to a SQL request.
+ */
+export const applySqlOptions = (request: PromptRequest, options: SqlOptions): PromptRequest => ({
+  ...request,
+  systemInstruction: `${request.systemInstruction}
+
+SQL output requirements:
+${describeSqlOptions(options)}`,
+});
+
+/**
+ * Tells the model how to treat the placeholders left by redaction.
+ */
+export const applyRedactionNote = (request: PromptRequest): PromptRequest => ({
+  ...request,
+  systemInstruction: `${request.systemInstruction}
+
+Some values in the input were replaced by placeholders of the form PII-<KIND>-<N>, such as PII-PHONE-1. Treat each placeholder as the text value it stands for and copy it exactly, character for character, wherever that value belongs in the output. Never split, translate, reformat or invent placeholders, and keep them as strings even where the value would be a number.`,
+});
@@ -0,0 +1,89 @@
+import { ApiError, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { buildConversionPrompt } from "../prompt";
+import { estimateTextTokens } from "../usage";
+import { ConversionProvider } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+/**
+ * Google Gemini through the official SDK. The key defaults to the one
+ * injected at build time.
+ */
+export const createGeminiProvider = (
+  model = DEFAULT_GEMINI_MODEL,
+  apiKey = process.env.API_KEY
+): ConversionProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    model,
+    buildPrompt: buildConversionPrompt,
+
+    async generate(request, { signal, onProgress, onUsage }) {
+      const config: any = {
+        temperature: request.temperature,
+        systemInstruction: request.systemInstruction,
+        abortSignal: signal,
+      };
+      if (request.jsonMode) {
+        config.responseMimeType = "application/json";
+      }
+      if (request.responseSchema) {
+        // Gemini rejects the meta-schema URI
+        const { $schema, ...schema } = request.responseSchema;
+        config.responseJsonSchema = schema;
+      }
+
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: request.turns,
+        config,
+      });
+
+      let text = '';
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        text += chunk.text || '';
+        // Counts are cumulative; the last chunk carries the totals
+        usage = chunk.usageMetadata || usage;
+        onProgress?.(text);
+      }
+      if (usage) {
+        onUsage?.({
+          inputTokens: usage.promptTokenCount ?? 0,
+          outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        });
+      }
+      return text;
+    },
+
+    async countTokens(request) {
+      const { totalTokens } = await ai.models.countTokens({ model, contents: request.turns });
+      // The Gemini API does not count system instructions, so they are estimated
+      return (totalTokens ?? 0) + estimateTextTokens(request.systemInstruction);
+    },
+
+    mapError(error) {
+      if (error.message?.includes("Rpc failed") || error.toString().includes("413")) {
+        return new Error("文件过大导致网络传输失败。虽然模型很强，但浏览器端传输受限，请尝试压缩 PDF 或使用小于 5MB 的文件。");
+      }
+      if (error.message?.includes("API_KEY")) {
+        return new Error("API Key 配置无效。");
+      }
+      return new Error(error.message || "转换内容失败，请重试。");
+    },
+
+    retryAfter(error) {
+      if (error instanceof ApiError) {
+        if (error.status !== 429 && error.status < 500) return null;
+        // Quota errors carry a RetryInfo detail such as "retryDelay": "27s"
+        const delay = /"retryDelay":\s*"([\d.]+)s"/.exec(error.message);
+        return delay ? Number(delay[1]) * 1000 : 0;
+      }
+      return error instanceof TypeError ? 0 : null;
+    },
+  };
+};
@@ -0,0 +1,42 @@
+import { ProviderId, ProviderSettings } from "../../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAiCompatibleProvider, DEFAULT_OPENAI_BASE_URL } from "./openAiCompatibleProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { ConversionProvider } from "./types";
+
+export type { ConversionProvider, GenerateOptions, PromptPart, PromptRequest, PromptTurn } from "./types";
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Gemini', defaultModel: DEFAULT_GEMINI_MODEL },
+  { id: 'openai', label: 'OpenAI 兼容 (Ollama / vLLM)', defaultModel: 'llama3.1' },
+  { id: 'mock', label: 'Mock (离线测试)', defaultModel: 'mock' },
+  { id: 'proxy', label: '服务器代理 (Key 保存在服务器)', defaultModel: 'server' },
+];
+
+// Set at build time when the app is deployed behind the bundled server
+const USE_API_PROXY = process.env.USE_API_PROXY === 'true';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  id: USE_API_PROXY ? 'proxy' : 'gemini',
+  model: USE_API_PROXY ? 'server' : DEFAULT_GEMINI_MODEL,
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  apiKey: '',
+};
+
+/**
+ * Instantiates the provider described by the UI settings.
+ */
+export const createProvider = (settings: ProviderSettings): ConversionProvider => {
+  switch (settings.id) {
+    case 'openai':
+      return createOpenAiCompatibleProvider(settings.model, settings.baseUrl, settings.apiKey || undefined);
+    case 'mock':
+      return createMockProvider();
+    case 'proxy':
+      return createProxyProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.model || DEFAULT_GEMINI_MODEL);
+  }
+};
@@ -0,0 +1,87 @@
+import { TargetFormat } from "../../types";
+import { exampleFromSchema } from "../jsonSchema";
+import { LOCAL_TARGET_FORMATS, serializeStructured } from "../localConverter";
+import { buildConversionPrompt } from "../prompt";
+import { estimateRequestTokens, estimateTextTokens } from "../usage";
+import { ConversionProvider, PromptRequest } from "./types";
+
+const CHUNK_SIZE = 40;
+const CHUNK_DELAY_MS = 30;
+
+/**
+ * Collects the text of the first user turn, or a placeholder for binary input.
+ */
+const extractSourceText = (request: PromptRequest): string => {
+  const parts = request.turns[0]?.parts || [];
+  const text = parts.map(p => ('text' in p ? p.text : `[${p.inlineData.mimeType} 文件]`)).join('\n');
+  return text.replace(/^Convert the following [^\n]*\n(\n?Content:\n)?/, '');
+};
+
+/**
+ * Produces syntactically valid output for every target from the input lines.
+ */
+const renderMockOutput = (request: PromptRequest): string => {
+  const lines = extractSourceText(request).split(/\r?\n/).filter(l => l.trim()).slice(0, 20);
+  const rows = lines.map((text, i) => ({ line: i + 1, text }));
+  const format = request.targetFormat;
+
+  if (request.responseSchema) return JSON.stringify(exampleFromSchema(request.responseSchema), null, 2);
+  if (LOCAL_TARGET_FORMATS.includes(format)) return serializeStructured(rows, format);
+
+  const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  switch (format) {
+    case TargetFormat.DOCX:
+      return `<h1>Mock 转换结果</h1>\n${lines.map(l => `<p>${escapeHtml(l)}</p>`).join('\n')}`;
+    case TargetFormat.LATEX:
+      return `\\documentclass{article}\n\\begin{document}\n${lines.map(l => l.replace(/([#$%&_{}])/g, '\\$1')).join('\n\n')}\n\\end{document}`;
+    case TargetFormat.MERMAID:
+      return `flowchart TD\n${rows.map(r => `  L${r.line}["${r.text.replace(/"/g, "'")}"]`).join('\n')}\n${rows.slice(1).map(r => `  L${r.line - 1} --> L${r.line}`).join('\n')}`;
+    default:
+      return lines.join('\n');
+  }
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Offline provider returning deterministic output derived from the input,
+ * streamed in small chunks. Used for testing the app without network access.
+ */
+export const createMockProvider = (): ConversionProvider => ({
+  id: 'mock',
+  label: 'Mock (离线测试)',
+  model: 'mock',
+  buildPrompt: buildConversionPrompt,
+
+  async generate(request, { signal, onProgress, onUsage }) {
+    const output = renderMockOutput(request);
+    let text = '';
+    for (let i = 0; i < output.length; i += CHUNK_SIZE) {
+      await sleep(CHUNK_DELAY_MS, signal);
+      if (signal?.aborted) break;
+      text += output.slice(i, i + CHUNK_SIZE);
+      onProgress?.(text);
+    }
+    onUsage?.({ inputTokens: estimateRequestTokens(request), outputTokens: estimateTextTokens(text) });
+    return text;
+  },
+
+  async countTokens(request) {
+    return estimateRequestTokens(request);
+  },
+
+  mapError(error) {
+    return new Error(error.message || "转换内容失败，请重试。");
+  },
+
+  retryAfter() {
+    return null;
+  },
+});
@@ -0,0 +1,148 @@
+import { buildConversionPrompt } from "../prompt";
+import { estimateRequestTokens, estimateTextTokens } from "../usage";
+import { ConversionProvider, PromptPart } from "./types";
+
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Thrown for non-2xx responses so mapError can look at the status code.
+ */
+class HttpStatusError extends Error {
+  constructor(public status: number, body: string, public retryAfterMs = 0) {
+    super(`HTTP ${status}: ${body.slice(0, 300)}`);
+  }
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date.
+ */
+const parseRetryAfter = (header: string | null): number => {
+  if (!header) return 0;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? 0 : Math.max(0, date - Date.now());
+};
+
+/**
+ * Translates a prompt part into an OpenAI chat content item. Only images can
+ * be sent inline; other binaries (PDF, DOCX) have no standard representation.
+ */
+const toContentItem = (part: PromptPart) => {
+  if ('text' in part) return { type: 'text', text: part.text };
+  if (!part.inlineData.mimeType.startsWith('image/')) {
+    throw new Error(`当前服务不支持直接发送 ${part.inlineData.mimeType} 文件，请使用 Gemini 或先转换为文本。`);
+  }
+  return {
+    type: 'image_url',
+    image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+  };
+};
+
+/**
+ * Any endpoint speaking the OpenAI Chat Completions protocol, e.g. a
+ * self-hosted Ollama or vLLM server.
+ */
+export const createOpenAiCompatibleProvider = (
+  model: string,
+  baseUrl = DEFAULT_OPENAI_BASE_URL,
+  apiKey?: string
+): ConversionProvider => ({
+  id: 'openai',
+  label: 'OpenAI 兼容',
+  model,
+  buildPrompt: buildConversionPrompt,
+
+  async generate(request, { signal, onProgress, onUsage }) {
+    const messages = [
+      { role: 'system', content: request.systemInstruction },
+      ...request.turns.map(turn => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: turn.parts.every(p => 'text' in p)
+          ? turn.parts.map(p => ('text' in p ? p.text : '')).join('')
+          : turn.parts.map(toContentItem),
+      })),
+    ];
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(request.responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'conversion_output', schema: request.responseSchema } } }
+          : request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new HttpStatusError(response.status, await response.text(), parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+        const event = JSON.parse(data);
+        // With include_usage the final event carries the totals and no choices
+        if (event.usage) usage = event.usage;
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onProgress?.(text);
+        }
+      }
+    }
+    // Servers that ignore stream_options report nothing, so fall back to an estimate
+    onUsage?.({
+      inputTokens: usage?.prompt_tokens ?? estimateRequestTokens(request),
+      outputTokens: usage?.completion_tokens ?? estimateTextTokens(text),
+    });
+    return text;
+  },
+
+  async countTokens(request) {
+    // The protocol has no counting endpoint
+    return estimateRequestTokens(request);
+  },
+
+  mapError(error) {
+    if (error instanceof HttpStatusError) {
+      if (error.status === 401 || error.status === 403) return new Error("API Key 配置无效或无权访问该服务。");
+      if (error.status === 404) return new Error(`找不到模型 "${model}" 或接口地址错误。`);
+      if (error.status === 413) return new Error("请求内容过大，请尝试更小的文件。");
+      if (error.status === 429) return new Error("请求过于频繁，请稍后重试。");
+    }
+    if (error instanceof TypeError) {
+      return new Error(`无法连接到 ${baseUrl}，请确认服务已启动并允许跨域访问。`);
+    }
+    return new Error(error.message || "转换内容失败，请重试。");
+  },
+
+  retryAfter(error) {
+    if (error instanceof HttpStatusError) {
+      return error.status === 408 || error.status === 429 || error.status >= 500 ? error.retryAfterMs : null;
+    }
+    // Dropped connections surface as TypeError from fetch
+    return error instanceof TypeError ? 0 : null;
+  },
+});
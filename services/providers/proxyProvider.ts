@@ -0,0 +1,125 @@
+import { ConversionResult, TargetFormat, ValidationResult, TokenUsage } from "../../types";
+import { buildConversionPrompt } from "../prompt";
+import { estimateRequestTokens } from "../usage";
+import { ConversionProvider } from "./types";
+
+export const DEFAULT_PROXY_URL = "/api";
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Non-2xx response from the proxy server.
+ */
+class ProxyHttpError extends Error {
+  constructor(public status: number, message: string, public retryAfterMs = 0) {
+    super(message);
+  }
+}
+
+/**
+ * Job status as reported by GET /api/jobs/:id.
+ */
+interface JobStatus {
+  id: string;
+  status: 'queued' | 'processing' | 'success' | 'error';
+  error: string | null;
+  validation: ValidationResult | null;
+  usage: TokenUsage | null;
+  chunkProgress: { completed: number; total: number } | null;
+}
+
+const callApi = async (url: string, init: RequestInit): Promise<Response> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    // The server answers errors with { error } where it can
+    const body = await response.text();
+    let message = body.slice(0, 300) || `HTTP ${response.status}`;
+    try {
+      message = JSON.parse(body).error || message;
+    } catch {
+      // Not JSON, e.g. a reverse proxy error page
+    }
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new ProxyHttpError(response.status, message, retryAfter > 0 ? retryAfter * 1000 : 0);
+  }
+  return response;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/**
+ * Sends conversions to the bundled server (server/index.ts), which holds the
+ * API key and calls the model. The server chunks, validates and repairs on
+ * its side; this client submits a job and polls until it finishes.
+ */
+export const createProxyProvider = (baseUrl = DEFAULT_PROXY_URL): ConversionProvider => {
+  const api = baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: 'proxy',
+    label: '服务器代理',
+    model: 'server',
+    buildPrompt: buildConversionPrompt,
+
+    async generate() {
+      throw new Error("服务器代理模式下由服务器完成转换。");
+    },
+
+    // Only used for pre-flight estimates; the server's model is not known here
+    async countTokens(request) {
+      return estimateRequestTokens(request);
+    },
+
+    async convertRemotely(input, targetFormat, instructions, { schema, temperature, sql, csv, maskedInput, signal, onChunkProgress }): Promise<ConversionResult> {
+      const form = new FormData();
+      if (typeof input === 'string') form.append('text', input);
+      else form.append('file', input, input.name);
+      form.append('format', targetFormat);
+      if (instructions) form.append('instructions', instructions);
+      if (schema) form.append('schema', JSON.stringify(schema));
+      if (temperature !== undefined) form.append('temperature', String(temperature));
+      if (sql && targetFormat === TargetFormat.SQL) form.append('sql', JSON.stringify(sql));
+      if (csv && targetFormat === TargetFormat.CSV) form.append('csv', JSON.stringify(csv));
+      // The input is already masked here; the server only explains the placeholders to its model
+      if (maskedInput) form.append('masked', 'true');
+
+      const { id } = await (await callApi(`${api}/convert`, { method: 'POST', body: form, signal })).json();
+      while (true) {
+        await wait(POLL_INTERVAL_MS, signal);
+        const job: JobStatus = await (await callApi(`${api}/jobs/${id}`, { signal })).json();
+        if (job.chunkProgress) onChunkProgress?.(job.chunkProgress);
+        if (job.status === 'error') throw new Error(job.error || "服务器转换失败。");
+        if (job.status === 'success') {
+          const text = await (await callApi(`${api}/jobs/${id}/result`, { signal })).text();
+          return { text, validation: job.validation || { valid: true, repairAttempts: 0 }, usage: job.usage ?? undefined };
+        }
+      }
+    },
+
+    mapError(error) {
+      if (error instanceof ProxyHttpError) {
+        if (error.status === 404) return new Error("转换任务不存在或已过期，请重新提交。");
+        if (error.status === 413) return new Error(`文件过大：${error.message}`);
+        if (error.status === 429) return new Error("请求过于频繁，请稍后重试。");
+        return new Error(error.message);
+      }
+      if (error instanceof TypeError) {
+        return new Error(`无法连接到转换服务器 ${api}，请确认服务器已启动。`);
+      }
+      return new Error(error.message || "转换内容失败，请重试。");
+    },
+
+    retryAfter(error) {
+      if (error instanceof ProxyHttpError) {
+        return error.status === 429 || error.status >= 500 ? error.retryAfterMs : null;
+      }
+      return error instanceof TypeError ? 0 : null;
+    },
+  };
+};
@@ -0,0 +1,59 @@
+import { ChunkProgress, ConversionResult, CsvOptions, SqlOptions, TargetFormat, TokenUsage } from "../../types";
+import { JsonSchema } from "../jsonSchema";
+
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface PromptTurn {
+  role: 'user' | 'model';
+  parts: PromptPart[];
+}
+
+/**
+ * Provider-neutral description of a conversion request. Providers translate
+ * it into their own wire format.
+ */
+export interface PromptRequest {
+  systemInstruction: string;
+  turns: PromptTurn[];
+  targetFormat: TargetFormat;
+  temperature: number;
+  jsonMode: boolean; // Ask for a JSON response body when the backend supports it
+  responseSchema?: JsonSchema; // Constrains JSON output when the backend supports structured output
+}
+
+export interface GenerateOptions {
+  onProgress?: (partialText: string) => void; // Called with the accumulated output as it streams in
+  signal?: AbortSignal; // Aborts the in-flight request
+  onUsage?: (usage: TokenUsage) => void; // Called once the call completes, with reported or estimated token counts
+}
+
+export interface RemoteConversionOptions {
+  schema?: JsonSchema;
+  temperature?: number;
+  sql?: SqlOptions;
+  csv?: CsvOptions;
+  maskedInput?: boolean; // The input holds redaction placeholders
+  signal?: AbortSignal;
+  onChunkProgress?: (progress: ChunkProgress) => void;
+}
+
+/**
+ * A backend capable of running conversions. Owns prompt assembly for its
+ * model family, the network call and translation of its failures into
+ * user-facing errors.
+ */
+export interface ConversionProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly model: string;
+  buildPrompt(input: string | File, targetFormat: TargetFormat, instructions?: string): Promise<PromptRequest>;
+  generate(request: PromptRequest, options: GenerateOptions): Promise<string>;
+  countTokens(request: PromptRequest): Promise<number>; // Input tokens the request would be billed for
+  mapError(error: any): Error;
+  // null when the failure is permanent; otherwise the delay in ms the server asked for (0 if none)
+  retryAfter(error: any): number | null;
+  // Runs a whole document conversion elsewhere (the server proxy); convertDocument then skips chunking, validation and repairs
+  convertRemotely?(input: string | File, targetFormat: TargetFormat, instructions: string | undefined, options: RemoteConversionOptions): Promise<ConversionResult>;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { RedactionOptions, TargetFormat } from '../types';
+import { ConversionOptions, convertDocument } from './conversionService';
+import { createMockProvider } from './providers/mockProvider';
+import { ConversionProvider, RemoteConversionOptions } from './providers/types';
+import { DEFAULT_REDACTION_OPTIONS, maskValue, normalizeRedactionOptions, redactText, restorePlaceholders } from './redaction';
+
+const enabled: RedactionOptions = { ...DEFAULT_REDACTION_OPTIONS, enabled: true };
+
+const valuesOf = (entries: [string, string][]) => new Map(entries);
+
+describe('redactText', () => {
+  it('masks numbers that pass their checksums', () => {
+    const { text, entries } = redactText('手机 13812345678，身份证 11010519491231002X，卡号 4111 1111 1111 1111', enabled);
+    expect(text).toBe('手机 PII-PHONE-1，身份证 PII-IDCARD-1，卡号 PII-BANKCARD-1');
+    expect(entries.map(e => e.preview)).toEqual(['138****5678', '110****002X', '411****1111']);
+  });
+
+  it('leaves look-alike numbers that fail their checksums', () => {
+    const text = '身份证 110105194912310021，卡号 6222 0202 0000 0000 007';
+    expect(redactText(text, enabled).text).toBe(text);
+  });
+
+  it('gives equal values one placeholder and counts occurrences', () => {
+    const { text, values, entries } = redactText('a@example.com, b@example.com, a@example.com', enabled);
+    expect(text).toBe('PII-EMAIL-1, PII-EMAIL-2, PII-EMAIL-1');
+    expect(values.get('PII-EMAIL-1')).toBe('a@example.com');
+    expect(entries[0].occurrences).toBe(2);
+  });
+
+  it('masks dictionary terms longest first and custom patterns', () => {
+    const { text } = redactText('Acme Holdings 与 Acme 的员工 EMP-123456', {
+      ...enabled,
+      terms: ['Acme', 'Acme Holdings'],
+      patterns: ['EMP-\\d{6}'],
+    });
+    expect(text).toBe('PII-TERM-1 与 PII-TERM-2 的员工 PII-CUSTOM-1');
+  });
+
+  it('only applies the selected rules', () => {
+    expect(redactText('13812345678 a@example.com', { ...enabled, rules: ['email'] }).text).toBe('13812345678 PII-EMAIL-1');
+  });
+
+  it('restores the original text exactly', () => {
+    const source = '联系人 张三，电话 +86 139 1234 5678，邮箱 zhang.san@example.com';
+    const { text, values } = redactText(source, { ...enabled, terms: ['张三'] });
+    expect(restorePlaceholders(text, values, TargetFormat.MARKDOWN)).toEqual({ text: source, missing: [] });
+  });
+});
+
+describe('normalizeRedactionOptions', () => {
+  it('turns masking on for bare options and drops blank entries', () => {
+    expect(normalizeRedactionOptions({ terms: [' 张三 ', '', 3] })).toEqual({
+      enabled: true,
+      rules: DEFAULT_REDACTION_OPTIONS.rules,
+      patterns: [],
+      terms: ['张三'],
+    });
+  });
+});
+
+describe('maskValue', () => {
+  it('keeps only the ends of a value', () => {
+    expect(maskValue('zhang@example.com')).toBe('z***@example.com');
+    expect(maskValue('13812345678')).toBe('138****5678');
+    expect(maskValue('张三')).toBe('**');
+  });
+});
+
+describe('restorePlaceholders', () => {
+  const values = valuesOf([['PII-TERM-1', 'O\'Neil, "Jr" <x> & 50%']]);
+
+  it('escapes values inside JSON strings', () => {
+    const { text } = restorePlaceholders('{"name": "PII-TERM-1"}', values, TargetFormat.JSON);
+    expect(JSON.parse(text)).toEqual({ name: 'O\'Neil, "Jr" <x> & 50%' });
+  });
+
+  it('escapes values as markup text', () => {
+    expect(restorePlaceholders('<name>PII-TERM-1</name>', values, TargetFormat.XML).text)
+      .toBe('<name>O\'Neil, &quot;Jr&quot; &lt;x&gt; &amp; 50%</name>');
+  });
+
+  it('doubles quotes inside SQL literals', () => {
+    expect(restorePlaceholders("INSERT INTO t VALUES ('PII-TERM-1');", values, TargetFormat.SQL).text)
+      .toBe('INSERT INTO t VALUES (\'O\'\'Neil, "Jr" <x> & 50%\');');
+  });
+
+  it('escapes LaTeX special characters', () => {
+    expect(restorePlaceholders('PII-TERM-1', valuesOf([['PII-TERM-1', 'A&B_1 50% ~x']]), TargetFormat.LATEX).text)
+      .toBe('A\\&B\\_1 50\\% \\textasciitilde{}x');
+  });
+
+  it('quotes whole CSV fields and escapes quotes inside quoted ones', () => {
+    const csv = 'name,note\nPII-TERM-1,"see PII-TERM-1"\n';
+    expect(restorePlaceholders(csv, values, TargetFormat.CSV).text)
+      .toBe('name,note\n"O\'Neil, ""Jr"" <x> & 50%","see O\'Neil, ""Jr"" <x> & 50%"\n');
+  });
+
+  it('leaves values that need no quoting alone in CSV', () => {
+    expect(restorePlaceholders('PII-TERM-1,x', valuesOf([['PII-TERM-1', '张三']]), TargetFormat.CSV).text).toBe('张三,x');
+  });
+
+  it('inserts values verbatim into plain formats', () => {
+    expect(restorePlaceholders('- PII-TERM-1', values, TargetFormat.MARKDOWN).text).toBe('- O\'Neil, "Jr" <x> & 50%');
+  });
+
+  it('reports placeholders missing from the output and keeps unknown ones', () => {
+    const both = valuesOf([['PII-TERM-1', 'a'], ['PII-PHONE-1', 'b']]);
+    expect(restorePlaceholders('PII-TERM-1 PII-EMAIL-9', both, TargetFormat.MARKDOWN)).toEqual({
+      text: 'a PII-EMAIL-9',
+      missing: ['PII-PHONE-1'],
+    });
+  });
+});
+
+describe('convertDocument with redaction', () => {
+  it('sends only placeholders and restores the values in the output', async () => {
+    const result = await convertDocument('电话 13812345678', TargetFormat.MARKDOWN, '', {
+      provider: createMockProvider(),
+      redaction: enabled,
+    });
+    expect(result.text).toContain('13812345678');
+    expect(result.redaction).toEqual({
+      entries: [{ placeholder: 'PII-PHONE-1', rule: '电话号码', preview: '138****5678', occurrences: 1 }],
+      missing: [],
+    });
+  });
+
+  it('tells a remote converter the input is masked instead of masking it again', async () => {
+    let sent: { input: string | File; options: RemoteConversionOptions } | null = null;
+    const remote = {
+      ...createMockProvider(),
+      convertRemotely: async (input: string | File, _format: TargetFormat, _instructions: string | undefined, options: RemoteConversionOptions) => {
+        sent = { input, options };
+        return { text: `| v |\n| --- |\n| ${input} |`, validation: { valid: true, repairAttempts: 0 } };
+      },
+    } as ConversionProvider;
+
+    const result = await convertDocument('Acme: 13812345678', TargetFormat.MARKDOWN, '', {
+      provider: remote,
+      redaction: { ...enabled, terms: ['Acme'], patterns: ['PII'] },
+    });
+    expect(sent!.input).toBe('PII-TERM-1: PII-PHONE-1');
+    expect(sent!.options.maskedInput).toBe(true);
+    expect((sent!.options as ConversionOptions).redaction).toBeUndefined();
+    expect(result.text).toBe('| v |\n| --- |\n| Acme: 13812345678 |');
+  });
+});
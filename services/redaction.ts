@@ -0,0 +1,270 @@
+import { RedactionEntry, RedactionOptions, RedactionRuleId, TargetFormat } from "../types";
+
+/**
+ * Local masking of personal data before content is sent to a model. Detected
+ * values are replaced by placeholders such as PII-PHONE-1; the mapping back
+ * to the values stays in memory and is used to restore the converted output.
+ */
+
+interface Detector {
+  label: string;
+  tag: string; // Placeholder infix
+  pattern: RegExp;
+  verify?: (match: string) => boolean; // Checksum that rules out look-alike numbers
+}
+
+interface RedactionRule extends Detector {
+  id: RedactionRuleId;
+}
+
+const digitsOf = (text: string): string => text.replace(/\D/g, '');
+
+// GB 11643: the last character is a weighted checksum over the first 17 digits
+const isValidIdCard = (id: string): boolean => {
+  const weights = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(id[i]), 0);
+  return '10X98765432'[sum % 11] === id[17].toUpperCase();
+};
+
+const passesLuhn = (number: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// ISO 13616: the rearranged account number, read with A=10 .. Z=35, is 1 mod 97
+const isValidIban = (iban: string): boolean => {
+  const compact = iban.replace(/ /g, '');
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    remainder = Number(`${remainder}${value}`) % 97;
+  }
+  return remainder === 1;
+};
+
+/**
+ * Built-in detectors in priority order: where matches overlap, the earlier
+ * rule wins, so an ID card number is not also reported as a bank card.
+ */
+const RULES: RedactionRule[] = [
+  {
+    id: 'email', label: '电子邮箱', tag: 'EMAIL',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  {
+    id: 'idCard', label: '居民身份证号', tag: 'IDCARD',
+    pattern: /(?<![0-9A-Za-z])[1-9]\d{5}(?:18|19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\d{3}[\dXx](?![0-9A-Za-z])/g,
+    verify: isValidIdCard,
+  },
+  {
+    id: 'bankCard', label: '银行卡号', tag: 'BANKCARD',
+    pattern: /(?<![\d-])\d{4}(?:[ -]?\d{4}){2}[ -]?\d{4,7}(?![\d-])/g,
+    verify: match => passesLuhn(digitsOf(match)),
+  },
+  {
+    id: 'iban', label: 'IBAN 账号', tag: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    verify: isValidIban,
+  },
+  {
+    id: 'phone', label: '电话号码', tag: 'PHONE',
+    // Mainland mobiles, landlines with area code, and international numbers written with +
+    pattern: /(?<![\d+])(?:(?:\+?86[ -]?)?1[3-9]\d(?:[ -]?\d{4}){2}|0\d{2,3}-\d{7,8}|\+[1-9]\d{0,2}[ -]?(?:\(\d{1,4}\)[ -]?)?\d{2,4}(?:[ -]?\d{2,4}){1,4})(?!\d)/g,
+    verify: match => digitsOf(match).length >= 8 && digitsOf(match).length <= 15,
+  },
+  {
+    id: 'passport', label: '护照号', tag: 'PASSPORT',
+    pattern: /(?<![0-9A-Za-z])(?:[EG]\d{8}|E[A-HJ-NP-Z]\d{7})(?![0-9A-Za-z])/g,
+  },
+  {
+    id: 'ssn', label: '美国社会安全号', tag: 'SSN',
+    pattern: /(?<![\d-])(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}(?![\d-])/g,
+  },
+  {
+    id: 'ipAddress', label: 'IP 地址', tag: 'IP',
+    pattern: /(?<![\d.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\d.])/g,
+  },
+];
+
+export const REDACTION_RULE_OPTIONS: { id: RedactionRuleId; label: string }[] = RULES.map(({ id, label }) => ({ id, label }));
+
+// IP addresses are off by default: version numbers such as 1.2.0.4 look the same
+export const DEFAULT_REDACTION_OPTIONS: RedactionOptions = {
+  enabled: false,
+  rules: RULES.map(r => r.id).filter(id => id !== 'ipAddress'),
+  patterns: [],
+  terms: [],
+};
+
+const toStringList = (raw: unknown): string[] =>
+  Array.isArray(raw) ? raw.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+/**
+ * Fills in defaults for stored or submitted options. Options without an
+ * "enabled" flag turn masking on, so a bare {} selects the default rules.
+ */
+export const normalizeRedactionOptions = (raw: any): RedactionOptions => ({
+  enabled: typeof raw?.enabled === 'boolean' ? raw.enabled : true,
+  rules: Array.isArray(raw?.rules)
+    ? RULES.map(r => r.id).filter(id => raw.rules.includes(id))
+    : DEFAULT_REDACTION_OPTIONS.rules,
+  patterns: toStringList(raw?.patterns),
+  terms: toStringList(raw?.terms),
+});
+
+/**
+ * Compiles a user-supplied pattern, naming it in the error when it is not a
+ * valid regular expression.
+ */
+export const compileRedactionPattern = (pattern: string): RegExp => {
+  try {
+    return new RegExp(pattern, 'gu');
+  } catch (error: any) {
+    throw new Error(`脱敏规则 /${pattern}/ 无效：${error.message}`);
+  }
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Partly hidden form of a value for audit reports: 138****5678, z***@example.com.
+ */
+export const maskValue = (value: string): string => {
+  const at = value.indexOf('@');
+  if (at > 0) return `${value[0]}***${value.slice(at)}`;
+  const chars = [...value];
+  if (chars.length >= 11) return `${chars.slice(0, 3).join('')}****${chars.slice(-4).join('')}`;
+  if (chars.length >= 3) return `${chars[0]}${'*'.repeat(chars.length - 2)}${chars[chars.length - 1]}`;
+  return '*'.repeat(chars.length);
+};
+
+export interface RedactedText {
+  text: string;
+  values: Map<string, string>; // Placeholder -> original value
+  entries: RedactionEntry[];
+}
+
+/**
+ * Replaces the personal data found by the enabled rules, custom patterns and
+ * dictionary terms with placeholders. Equal values share a placeholder, and
+ * placeholders are numbered in reading order per kind.
+ */
+export const redactText = (text: string, options: RedactionOptions): RedactedText => {
+  const detectors: Detector[] = [
+    ...RULES.filter(rule => options.rules.includes(rule.id)),
+    ...toStringList(options.patterns).map(pattern => ({ label: '自定义规则', tag: 'CUSTOM', pattern: compileRedactionPattern(pattern) })),
+  ];
+  // Longer terms first, so "Acme Holdings" is not masked as "Acme" plus a leftover word
+  const terms = toStringList(options.terms).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  if (terms.length > 0) {
+    detectors.push({ label: '词典', tag: 'TERM', pattern: new RegExp(terms.join('|'), 'giu') });
+  }
+
+  // Matches are collected first; a span already taken by an earlier detector is skipped
+  const taken = new Uint8Array(text.length);
+  const spans: { start: number; end: number; rule: Detector }[] = [];
+  for (const rule of detectors) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (end === start || taken.subarray(start, end).some(Boolean)) continue;
+      if (rule.verify && !rule.verify(match[0])) continue;
+      taken.fill(1, start, end);
+      spans.push({ start, end, rule });
+    }
+  }
+  spans.sort((a, b) => a.start - b.start);
+
+  const byValue = new Map<string, RedactionEntry>();
+  const values = new Map<string, string>();
+  const counters = new Map<string, number>();
+  let result = '';
+  let position = 0;
+  for (const { start, end, rule } of spans) {
+    const value = text.slice(start, end);
+    const key = `${rule.tag}:${value}`;
+    let entry = byValue.get(key);
+    if (!entry) {
+      const n = (counters.get(rule.tag) || 0) + 1;
+      counters.set(rule.tag, n);
+      entry = { placeholder: `PII-${rule.tag}-${n}`, rule: rule.label, preview: maskValue(value), occurrences: 0 };
+      byValue.set(key, entry);
+      values.set(entry.placeholder, value);
+    }
+    entry.occurrences++;
+    result += text.slice(position, start) + entry.placeholder;
+    position = end;
+  }
+  return { text: result + text.slice(position), values, entries: [...byValue.values()] };
+};
+
+const escapeLatex = (value: string): string =>
+  value.replace(/[\\&%$#_{}~^]/g, char => {
+    if (char === '\\') return '\\textbackslash{}';
+    if (char === '~') return '\\textasciitilde{}';
+    if (char === '^') return '\\textasciicircum{}';
+    return `\\${char}`;
+  });
+
+const escapeMarkup = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Writes a restored value the way the output format needs it at the
+ * placeholder's position: inside a JSON string, as markup text, inside a SQL
+ * literal, or as (part of) a CSV field.
+ */
+const encodeValue = (value: string, format: TargetFormat, output: string, offset: number, length: number): string => {
+  switch (format) {
+    case TargetFormat.JSON:
+    case TargetFormat.JSON_SCHEMA:
+    case TargetFormat.XLSX:
+      return JSON.stringify(value).slice(1, -1);
+    case TargetFormat.XML:
+    case TargetFormat.HTML:
+    case TargetFormat.DOCX:
+      return escapeMarkup(value);
+    case TargetFormat.SQL:
+      return value.replace(/'/g, "''");
+    case TargetFormat.LATEX:
+      return escapeLatex(value);
+    case TargetFormat.CSV: {
+      if (!/[",;\t|\r\n]/.test(value)) return value;
+      const escaped = value.replace(/"/g, '""');
+      // A placeholder that is a whole unquoted field gets quotes of its own
+      const before = output[offset - 1];
+      const after = output[offset + length];
+      const wholeField = (before === undefined || /[,;\t|\n]/.test(before)) && (after === undefined || /[,;\t|\r\n]/.test(after));
+      return wholeField ? `"${escaped}"` : escaped;
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Puts the original values back into converted output. Returns the
+ * placeholders that no longer appear, e.g. because the model left the field
+ * out, so their values could not be restored.
+ */
+export const restorePlaceholders = (
+  output: string,
+  values: Map<string, string>,
+  format: TargetFormat
+): { text: string; missing: string[] } => {
+  if (values.size === 0) return { text: output, missing: [] };
+  const found = new Set<string>();
+  const text = output.replace(/PII-[A-Z]+-\d+/g, (placeholder, offset: number) => {
+    const value = values.get(placeholder);
+    if (value === undefined) return placeholder;
+    found.add(placeholder);
+    return encodeValue(value, format, output, offset, placeholder.length);
+  });
+  return { text, missing: [...values.keys()].filter(p => !found.has(p)) };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { TargetFormat } from '../types';
+import { DEFAULT_CSV_OPTIONS } from './csvDialect';
+import { DEFAULT_REDACTION_OPTIONS } from './redaction';
+import { CacheKeySettings, computeCacheKey } from './resultCache';
+
+const settings: CacheKeySettings = {
+  targetFormat: TargetFormat.JSON,
+  instructions: '',
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  temperature: 0.2,
+};
+
+const file = (content: string, name = 'data.csv') => new File([content], name);
+
+const keyOf = (overrides: Partial<CacheKeySettings> = {}, content = 'a,b\n1,2') =>
+  computeCacheKey(file(content), { ...settings, ...overrides });
+
+describe('computeCacheKey', () => {
+  it('depends on the file bytes, not the file name', async () => {
+    const key = await computeCacheKey(file('a,b\n1,2', 'one.csv'), settings);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await computeCacheKey(file('a,b\n1,2', 'two.csv'), settings)).toBe(key);
+    expect(await keyOf({}, 'a,b\n1,3')).not.toBe(key);
+  });
+
+  it('changes with the target format and the model settings', async () => {
+    const key = await keyOf();
+    expect(await keyOf({ targetFormat: TargetFormat.CSV })).not.toBe(key);
+    expect(await keyOf({ provider: 'openai' })).not.toBe(key);
+    expect(await keyOf({ model: 'gemini-2.5-pro' })).not.toBe(key);
+    expect(await keyOf({ temperature: 0.7 })).not.toBe(key);
+  });
+
+  it('ignores whitespace around the instructions', async () => {
+    expect(await keyOf({ instructions: '  只保留前两列\n' })).toBe(await keyOf({ instructions: '只保留前两列' }));
+  });
+
+  it('ignores options of other target formats', async () => {
+    const csv = { ...DEFAULT_CSV_OPTIONS, delimiter: ';' as const };
+    expect(await keyOf({ csv })).toBe(await keyOf());
+    expect(await keyOf({ targetFormat: TargetFormat.CSV, csv }))
+      .not.toBe(await keyOf({ targetFormat: TargetFormat.CSV }));
+  });
+
+  it('includes masking only while it is turned on', async () => {
+    const key = await keyOf();
+    expect(await keyOf({ redaction: { ...DEFAULT_REDACTION_OPTIONS, terms: ['张三'] } })).toBe(key);
+    expect(await keyOf({ redaction: { ...DEFAULT_REDACTION_OPTIONS, enabled: true } })).not.toBe(key);
+  });
+});
@@ -0,0 +1,139 @@
+import { CacheEntry, CsvOptions, ProviderId, RedactionOptions, SqlOptions, TargetFormat, TextEncodingId } from "../types";
+import { withStore } from "./indexedDb";
+import { JsonSchema } from "./jsonSchema";
+import { PROMPT_VERSION } from "./prompt";
+import { normalizeRedactionOptions } from "./redaction";
+
+/**
+ * Converted files kept in IndexedDB under a hash of the file's bytes and the
+ * settings used, so converting the same file again with the same settings
+ * costs no model call. The least recently used entries are dropped first.
+ */
+
+const STORE = 'results';
+const QUOTA_KEY = 'uniconvert.cacheQuotaMb';
+
+export const DEFAULT_CACHE_QUOTA_MB = 50;
+
+/**
+ * Everything besides the file itself that shapes a conversion's output.
+ */
+export interface CacheKeySettings {
+  targetFormat: TargetFormat;
+  instructions: string;
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  schema?: JsonSchema;
+  sql?: SqlOptions;
+  csv?: CsvOptions;
+  encoding?: TextEncodingId;
+  redaction?: RedactionOptions;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data));
+
+// A file is hashed once per session, however often it is converted
+const fileHashes = new WeakMap<Blob, Promise<string>>();
+
+const hashFile = (file: Blob): Promise<string> => {
+  let hash = fileHashes.get(file);
+  if (!hash) {
+    hash = file.arrayBuffer().then(sha256);
+    fileHashes.set(file, hash);
+    hash.catch(() => fileHashes.delete(file));
+  }
+  return hash;
+};
+
+/**
+ * Cache key of a file converted with the given settings. Options that only
+ * apply to other target formats are left out, so changing them does not
+ * miss the cache.
+ */
+export const computeCacheKey = async (file: Blob, settings: CacheKeySettings): Promise<string> => {
+  const { targetFormat } = settings;
+  const parts = [
+    PROMPT_VERSION,
+    await hashFile(file),
+    targetFormat,
+    settings.instructions.trim(),
+    settings.provider,
+    settings.model,
+    settings.temperature,
+    targetFormat === TargetFormat.JSON ? settings.schema ?? null : null,
+    targetFormat === TargetFormat.SQL ? settings.sql ?? null : null,
+    targetFormat === TargetFormat.CSV ? settings.csv ?? null : null,
+    settings.encoding ?? null,
+    settings.redaction?.enabled ? normalizeRedactionOptions(settings.redaction) : null,
+  ];
+  return sha256(new TextEncoder().encode(JSON.stringify(parts)));
+};
+
+export const getCacheQuotaMb = (): number => {
+  const stored = Number(localStorage.getItem(QUOTA_KEY));
+  return stored > 0 ? stored : DEFAULT_CACHE_QUOTA_MB;
+};
+
+export const setCacheQuotaMb = (mb: number) => {
+  localStorage.setItem(QUOTA_KEY, String(mb));
+};
+
+/**
+ * All entries, most recently used first.
+ */
+export const listCache = async (): Promise<CacheEntry[]> => {
+  const entries = await withStore<CacheEntry[]>(STORE, 'readonly', store => store.index('lastUsedAt').getAll());
+  return entries.reverse();
+};
+
+export const deleteCacheEntry = (key: string): Promise<undefined> =>
+  withStore(STORE, 'readwrite', store => store.delete(key));
+
+export const clearCache = (): Promise<undefined> =>
+  withStore(STORE, 'readwrite', store => store.clear());
+
+/**
+ * Deletes the least recently used entries until the total size fits the
+ * quota. Returns the number of entries removed.
+ */
+export const pruneCache = async (quotaBytes = getCacheQuotaMb() * 1024 * 1024): Promise<number> => {
+  const entries = await listCache();
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  let removed = 0;
+  for (let i = entries.length - 1; i >= 0 && total > quotaBytes; i--) {
+    await deleteCacheEntry(entries[i].key);
+    total -= entries[i].size;
+    removed++;
+  }
+  return removed;
+};
+
+/**
+ * Looks up a result and, on a hit, records the use so the entry is kept
+ * longer than unused ones.
+ */
+export const getCachedResult = async (key: string): Promise<CacheEntry | null> => {
+  const entry = await withStore<CacheEntry | undefined>(STORE, 'readonly', store => store.get(key));
+  if (!entry) return null;
+  const used = { ...entry, hits: entry.hits + 1, lastUsedAt: Date.now() };
+  await withStore(STORE, 'readwrite', store => store.put(used));
+  return used;
+};
+
+/**
+ * Stores a result, then trims old entries to stay within the quota.
+ */
+export const putCachedResult = async (entry: Omit<CacheEntry, 'createdAt' | 'lastUsedAt' | 'hits' | 'size'>): Promise<void> => {
+  const size = (entry.output.length + entry.fileName.length + entry.instructions.length) * 2;
+  if (size > getCacheQuotaMb() * 1024 * 1024) {
+    throw new Error("该结果超过缓存存储上限，未缓存。");
+  }
+  const now = Date.now();
+  await withStore(STORE, 'readwrite', store => store.put({ ...entry, createdAt: now, lastUsedAt: now, hits: 0, size }));
+  await pruneCache();
+};
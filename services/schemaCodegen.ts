@@ -0,0 +1,142 @@
+import { JsonSchema } from "./jsonSchema";
+
+/**
+ * Renders a JSON Schema, as produced by inferJsonSchema, as TypeScript
+ * declarations or a Zod module. Nested objects become named types; names
+ * come from the property that holds them.
+ */
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const propertyKey = (key: string): string => (IDENTIFIER.test(key) ? key : JSON.stringify(key));
+
+/**
+ * "order_items" -> "OrderItems". Keys without Latin letters or digits fall
+ * back to the given name.
+ */
+export const toTypeName = (text: string, fallback = 'Root'): string => {
+  const name = text.split(/[^A-Za-z0-9]+/).filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join('');
+  if (!name) return fallback;
+  return /^\d/.test(name) ? `T${name}` : name;
+};
+
+const singular = (name: string): string => {
+  if (/ies$/.test(name)) return name.slice(0, -3) + 'y';
+  if (/(ss|us)$/.test(name) || !/s$/.test(name)) return `${name}Item`;
+  return name.slice(0, -1);
+};
+
+const schemaTypes = (node: JsonSchema): string[] =>
+  Array.isArray(node.type) ? node.type : node.type ? [node.type] : [];
+
+/**
+ * Hands out type names, numbering repeats: Item, Item2, Item3.
+ */
+const createNamer = () => {
+  const used = new Set<string>();
+  return (base: string): string => {
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+    used.add(name);
+    return name;
+  };
+};
+
+// ---------------------------------------------------------------------------
+// TypeScript
+// ---------------------------------------------------------------------------
+
+export const jsonSchemaToTypeScript = (schema: JsonSchema, rootName = 'Root'): string => {
+  const declarations: string[] = [];
+  const claim = createNamer();
+
+  const typeOf = (node: JsonSchema, name: string): string => {
+    if (node.anyOf) return node.anyOf.map(option => typeOf(option, name)).join(' | ');
+    const types = schemaTypes(node);
+    if (types.length === 0) return 'unknown';
+    return types.map(type => {
+      switch (type) {
+        case 'string': return 'string';
+        case 'number':
+        case 'integer': return 'number';
+        case 'boolean': return 'boolean';
+        case 'null': return 'null';
+        case 'array': {
+          const item = node.items ? typeOf(node.items, singular(name)) : 'unknown';
+          return item.includes(' | ') ? `(${item})[]` : `${item}[]`;
+        }
+        case 'object': {
+          const properties = Object.entries(node.properties || {});
+          if (properties.length === 0) return 'Record<string, unknown>';
+          const interfaceName = claim(name);
+          const required = node.required || [];
+          const fields = properties.map(([key, child]) =>
+            `  ${propertyKey(key)}${required.includes(key) ? '' : '?'}: ${typeOf(child, toTypeName(key, `${interfaceName}Field`))};`
+          );
+          declarations.push(`export interface ${interfaceName} {\n${fields.join('\n')}\n}`);
+          return interfaceName;
+        }
+        default: return 'unknown';
+      }
+    }).join(' | ');
+  };
+
+  const rootType = typeOf(schema, rootName);
+  if (rootType !== rootName) declarations.push(`export type ${claim(rootName)} = ${rootType};`);
+  return `${declarations.join('\n\n')}\n`;
+};
+
+// ---------------------------------------------------------------------------
+// Zod
+// ---------------------------------------------------------------------------
+
+/**
+ * Schemas are declared before the schemas that use them, each followed by
+ * its inferred type.
+ */
+export const jsonSchemaToZod = (schema: JsonSchema, rootName = 'Root'): string => {
+  const declarations: string[] = [];
+  const claim = createNamer();
+
+  const declare = (name: string, expression: string) => {
+    declarations.push(`export const ${name}Schema = ${expression};\nexport type ${name} = z.infer<typeof ${name}Schema>;`);
+  };
+
+  const single = (node: JsonSchema, type: string, name: string): string => {
+    switch (type) {
+      case 'string': return 'z.string()';
+      case 'number': return 'z.number()';
+      case 'integer': return 'z.number().int()';
+      case 'boolean': return 'z.boolean()';
+      case 'null': return 'z.null()';
+      case 'array': return `z.array(${node.items ? expressionOf(node.items, singular(name)) : 'z.unknown()'})`;
+      case 'object': {
+        const properties = Object.entries(node.properties || {});
+        if (properties.length === 0) return 'z.record(z.string(), z.unknown())';
+        const objectName = claim(name);
+        const required = node.required || [];
+        const fields = properties.map(([key, child]) =>
+          `  ${propertyKey(key)}: ${expressionOf(child, toTypeName(key, `${objectName}Field`))}${required.includes(key) ? '' : '.optional()'},`
+        );
+        declare(objectName, `z.object({\n${fields.join('\n')}\n})`);
+        return `${objectName}Schema`;
+      }
+      default: return 'z.unknown()';
+    }
+  };
+
+  const expressionOf = (node: JsonSchema, name: string): string => {
+    if (node.anyOf) return `z.union([${node.anyOf.map(option => expressionOf(option, name)).join(', ')}])`;
+    const types = schemaTypes(node);
+    const nonNull = types.filter(t => t !== 'null');
+    if (nonNull.length === 0) return types.length > 0 ? 'z.null()' : 'z.unknown()';
+    const base = nonNull.length === 1
+      ? single(node, nonNull[0], name)
+      : `z.union([${nonNull.map(t => single(node, t, name)).join(', ')}])`;
+    return types.includes('null') ? `${base}.nullable()` : base;
+  };
+
+  const rootExpression = expressionOf(schema, rootName);
+  if (rootExpression !== `${rootName}Schema`) declare(claim(rootName), rootExpression);
+  return `import { z } from "zod";\n\n${declarations.join('\n\n')}\n`;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { checkSqlScript } from './sqlCheck';
+
+const check = async (script: string, dialect: Parameters<typeof checkSqlScript>[1]) => (await checkSqlScript(script, dialect))!;
+
+describe('checkSqlScript', () => {
+  it('runs clean SQLite scripts and counts rows per table', async () => {
+    const report = await check("CREATE TABLE t (a INTEGER, b TEXT);\nINSERT INTO t VALUES (1, 'x;y'), (2, 'z');", 'sqlite');
+    expect(report).toEqual({ statements: 2, tables: [{ name: 't', rows: 2 }], errors: [], unchecked: [], translated: false });
+  });
+
+  it('reports failing statements with their line', async () => {
+    const report = await check('CREATE TABLE t (a INTEGER);\n\nINSERT INTO t (b) VALUES (1);', 'sqlite');
+    expect(report.errors).toEqual([{ statement: 2, line: 3, message: 'table t has no column named b' }]);
+  });
+
+  it('rewrites MySQL quoting, ENUM and SET columns and table options', async () => {
+    const report = await check([
+      'CREATE TABLE `orders` (',
+      "  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,",
+      "  `status` ENUM('new', 'paid', 'it''s, done') NOT NULL DEFAULT 'new',",
+      "  `tags` SET('a','b') DEFAULT NULL",
+      ') ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;',
+      "INSERT INTO `orders` (`status`, `tags`) VALUES ('paid', 'a,b'), ('it\\'s, done', NULL);",
+    ].join('\n'), 'mysql');
+    expect(report.errors).toEqual([]);
+    expect(report.tables).toEqual([{ name: 'orders', rows: 2 }]);
+    expect(report.translated).toBe(true);
+  });
+
+  it('numbers SQL Server IDENTITY columns itself', async () => {
+    const report = await check([
+      'CREATE TABLE [dbo].[people] ([id] INT IDENTITY(1,1) NOT NULL PRIMARY KEY, [name] NVARCHAR(MAX))',
+      'GO',
+      "INSERT INTO [dbo].[people] ([name]) VALUES (N'张三');",
+    ].join('\n'), 'sqlserver');
+    expect(report.errors).toEqual([]);
+    expect(report.tables).toEqual([{ name: 'people', rows: 1 }]);
+  });
+
+  it('drops PostgreSQL casts to multi-word and qualified types', async () => {
+    const report = await check([
+      'CREATE TABLE public.events (id SERIAL PRIMARY KEY, at TIMESTAMP WITH TIME ZONE, score DOUBLE PRECISION, label CHARACTER VARYING(20));',
+      "INSERT INTO public.events (at, score, label) VALUES ('2024-01-01 08:00:00+08'::timestamp with time zone, '1.5'::double precision, 'a'::character varying(20));",
+      "INSERT INTO events (at, score, label) VALUES ('2024-01-02'::timestamp(3) without time zone, 2::float8, 'b'::pg_catalog.text);",
+      "SELECT '2024-01-01'::date AS d FROM events;",
+    ].join('\n'), 'postgresql');
+    expect(report.errors).toEqual([]);
+    expect(report.tables).toEqual([{ name: 'events', rows: 2 }]);
+  });
+
+  it('leaves dialect-only statements unchecked instead of failing them', async () => {
+    const report = await check([
+      "CREATE TYPE mood AS ENUM ('sad', 'happy');",
+      'CREATE SEQUENCE people_id_seq;',
+      'CREATE TABLE people (id INTEGER, name TEXT, feeling mood);',
+      'ALTER TABLE ONLY public.people ADD CONSTRAINT people_pkey PRIMARY KEY (id);',
+      'ALTER TABLE people ADD COLUMN age INTEGER;',
+      "INSERT INTO people VALUES (1, 'Ann', 'happy', 30);",
+      "SELECT pg_catalog.setval('people_id_seq', 1, true);",
+      "COMMENT ON TABLE people IS 'x';",
+    ].join('\n'), 'postgresql');
+    expect(report.errors).toEqual([]);
+    expect(report.unchecked).toEqual([1, 2, 4, 7]);
+    expect(report.tables).toEqual([{ name: 'people', rows: 1 }]);
+  });
+
+  it('still runs those statements as SQLite when SQLite is the dialect', async () => {
+    const report = await check('CREATE SEQUENCE s;', 'sqlite');
+    expect(report.unchecked).toEqual([]);
+    expect(report.errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,240 @@
+import initSqlJs, { SqlJsStatic } from "sql.js";
+import { SqlCheckReport, SqlDialect, SqlStatementError } from "../types";
+
+const MAX_REPORTED_ERRORS = 20;
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Loads the SQLite engine once. Node resolves the WASM file next to the
+ * package; browsers load the copy Vite bundles with the app.
+ */
+const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJs) {
+    sqlJs = typeof window === 'undefined'
+      ? initSqlJs()
+      : import('sql.js/dist/sql-wasm-browser.wasm?url').then(({ default: wasmUrl }) => initSqlJs({ locateFile: () => wasmUrl }));
+    // Let a later call try again, e.g. after the network comes back
+    sqlJs.catch(() => { sqlJs = null; });
+  }
+  return sqlJs;
+};
+
+// PostgreSQL type names that take more than one word, then single-word and schema-qualified ones
+const PG_CAST_RE = /^::\s*(?:(?:timestamp|time)(?:\s*\(\s*\d+\s*\))?\s+with(?:out)?\s+time\s+zone|double\s+precision|character\s+varying|bit\s+varying|\w+(?:\.\w+)?)(\s*\([\d,\s]*\))?(\[\])?(?=[^\w]|$)/i;
+
+interface ScriptStatement {
+  sql: string;
+  line: number;
+}
+
+/**
+ * Splits a script into statements on semicolons outside literals and
+ * comments, rewriting dialect-specific quoting into SQLite's as it goes:
+ * MySQL backticks and backslash escapes, SQL Server brackets and N'' strings,
+ * PostgreSQL :: casts.
+ */
+const tokenizeScript = (script: string, dialect: SqlDialect): { statements: ScriptStatement[]; translated: boolean } => {
+  const statements: ScriptStatement[] = [];
+  let translated = false;
+  let current = '';
+  let startLine = 0; // 0 until the statement's first non-blank character
+  let line = 1;
+  let i = 0;
+
+  const flush = () => {
+    if (current.trim()) statements.push({ sql: current.trim(), line: startLine || line });
+    current = '';
+    startLine = 0;
+  };
+  const rewrite = (text: string) => {
+    current += text;
+    translated = true;
+  };
+  // Reads a quoted run closed by `close`, where a doubled `close` is an escaped one
+  const readQuoted = (close: string, backslashEscapes: boolean): string => {
+    let value = '';
+    i++;
+    while (i < script.length) {
+      const ch = script[i];
+      if (ch === '\n') line++;
+      if (backslashEscapes && ch === '\\' && i + 1 < script.length) {
+        const next = script[i + 1];
+        value += next === 'n' ? '\n' : next === 't' ? '\t' : next === '0' ? '' : next;
+        i += 2;
+        continue;
+      }
+      if (ch === close) {
+        if (script[i + 1] === close) {
+          value += close;
+          i += 2;
+          continue;
+        }
+        i++;
+        return value;
+      }
+      value += ch;
+      i++;
+    }
+    return value;
+  };
+
+  while (i < script.length) {
+    const ch = script[i];
+    // SQL Server batch separator: GO alone on a line
+    const batchEnd = dialect === 'sqlserver' && (i === 0 || script[i - 1] === '\n')
+      ? /^[ \t]*GO[ \t]*(?=\r?\n|$)/i.exec(script.slice(i, i + 64))
+      : null;
+    if (batchEnd) {
+      flush();
+      translated = true;
+      i += batchEnd[0].length;
+      continue;
+    }
+    if (!startLine && !/\s/.test(ch) && ch !== ';') startLine = line;
+
+    if (ch === '\n') {
+      line++;
+      current += ch;
+      i++;
+    } else if (ch === ';') {
+      flush();
+      i++;
+    } else if ((ch === '-' && script[i + 1] === '-') || (dialect === 'mysql' && ch === '#')) {
+      while (i < script.length && script[i] !== '\n') i++;
+      if (!current.trim()) startLine = 0;
+    } else if (ch === '/' && script[i + 1] === '*') {
+      const end = script.indexOf('*/', i + 2);
+      const comment = script.slice(i, end === -1 ? script.length : end + 2);
+      line += comment.split('\n').length - 1;
+      i += comment.length;
+      if (!current.trim()) startLine = 0;
+    } else if (ch === "'") {
+      // SQL Server's N'...' is a plain string to SQLite
+      if (dialect === 'sqlserver' && /(^|[^\w])N$/i.test(current)) {
+        current = current.slice(0, -1);
+        translated = true;
+      }
+      const start = i;
+      const value = readQuoted("'", dialect === 'mysql');
+      const literal = `'${value.replace(/'/g, "''")}'`;
+      if (literal !== script.slice(start, i)) translated = true;
+      current += literal;
+    } else if (ch === '"') {
+      const start = i;
+      readQuoted('"', false);
+      current += script.slice(start, i);
+    } else if ((ch === '`' && dialect === 'mysql') || (ch === '[' && dialect === 'sqlserver')) {
+      rewrite(`"${readQuoted(ch === '`' ? '`' : ']', false).replace(/"/g, '""')}"`);
+    } else if (ch === ':' && script[i + 1] === ':' && dialect === 'postgresql') {
+      // Drop casts such as ::date, ::numeric(10,2) or ::timestamp with time zone
+      const cast = PG_CAST_RE.exec(script.slice(i));
+      if (cast) {
+        translated = true;
+        i += cast[0].length;
+      } else {
+        current += ch;
+        i++;
+      }
+    } else {
+      current += ch;
+      i++;
+    }
+  }
+  flush();
+  return { statements, translated };
+};
+
+// Statements with no SQLite equivalent that do not affect the data
+const SKIPPED_STATEMENT_RE = /^(SET|USE|START\s+TRANSACTION|BEGIN|COMMIT|ROLLBACK|CREATE\s+SCHEMA|CREATE\s+DATABASE|COMMENT\s+ON|GRANT|REVOKE|(UN)?LOCK\s+TABLES?)\b/i;
+
+// Dialect-only statements SQLite cannot run in any form: types, sequences,
+// routines, and ALTER TABLE beyond adding, renaming or dropping columns.
+// They are left unchecked instead of being reported as errors.
+const UNCHECKED_STATEMENT_RE = new RegExp([
+  /^CREATE\s+(OR\s+REPLACE\s+)?(TYPE|DOMAIN|EXTENSION|SEQUENCE|FUNCTION|PROCEDURE)\b/,
+  /^ALTER\s+(SEQUENCE|TYPE)\b/,
+  /^ALTER\s+TABLE\s+(IF\s+EXISTS\s+)?(ONLY\s+)?("[^"]*"|[\w.])+\s+(?!ADD\s+(?!(CONSTRAINT|PRIMARY|FOREIGN|UNIQUE|INDEX|KEY|CHECK)\b)|RENAME\b|DROP\s+COLUMN\b)/,
+  /^(DO|EXEC|EXECUTE|DECLARE)\b/,
+  /^SELECT\s+(pg_catalog\.)?setval\s*\(/,
+].map(re => re.source).join('|'), 'i');
+
+/**
+ * Rewrites DDL that SQLite does not understand. Applied to non-SQLite
+ * dialects only; returns null for statements to skip.
+ */
+const adaptStatement = (sql: string, dialect: SqlDialect): string | null => {
+  if (SKIPPED_STATEMENT_RE.test(sql)) return null;
+  let out = sql
+    // Schema-qualified targets: SQLite only knows main/temp
+    .replace(/\b(TABLE(?:\s+IF\s+NOT\s+EXISTS)?|INTO|FROM|UPDATE)\s+("[^"]*"|\w+)\s*\.\s*(?=["\w])/gi, '$1 ');
+  if (/^CREATE\s+TABLE\b/i.test(out)) {
+    out = out
+      // MySQL ENUM('a','b') and SET('a','b') columns hold text
+      .replace(/\b(ENUM|SET)\s*\(\s*'(?:[^']|'')*'(?:\s*,\s*'(?:[^']|'')*')*\s*\)/gi, 'TEXT')
+      // Only INTEGER PRIMARY KEY columns number themselves in SQLite
+      .replace(/\b(TINY|SMALL|MEDIUM|BIG)?INT(EGER)?\b(\s*\(\s*\d+\s*\))?(?=[^,]*\b(AUTO_INCREMENT|IDENTITY)\b)/gi, 'INTEGER')
+      .replace(/\bAUTO_INCREMENT\b(\s*=\s*\d+)?/gi, '')
+      .replace(/\bUNSIGNED\b/gi, '')
+      .replace(/\b(CHARACTER\s+SET|CHARSET|COLLATE)\s*=?\s*\w+/gi, '')
+      .replace(/\bGENERATED\s+(ALWAYS|BY\s+DEFAULT)\s+AS\s+IDENTITY\b/gi, '')
+      .replace(/(?<!")\bIDENTITY\b(?!")(\s*\(\s*\d+\s*,\s*\d+\s*\))?/gi, '')
+      // SQLite type names only take numeric sizes, as in NVARCHAR(MAX)
+      .replace(/\(\s*MAX\s*\)/gi, '')
+      // MySQL table options after the column list
+      .replace(/\)\s*(ENGINE|DEFAULT|ROW_FORMAT|COMMENT)\b[^)]*$/i, ')');
+  }
+  return out;
+};
+
+export const formatSqlErrors = (errors: SqlStatementError[]): string =>
+  errors.map(e => `- 第 ${e.statement} 条语句 (第 ${e.line} 行): ${e.message}`).join('\n');
+
+/**
+ * Runs a script in a fresh in-memory SQLite database and reports each
+ * failing statement. Other dialects are rewritten for SQLite first, so a
+ * clean run means the script is syntactically sound and its inserts match
+ * its tables, not that every dialect feature was exercised. Statements with
+ * no SQLite counterpart are listed as unchecked rather than failed.
+ * Returns null when the engine cannot be loaded.
+ */
+export const checkSqlScript = async (script: string, dialect: SqlDialect): Promise<SqlCheckReport | null> => {
+  let SQL: SqlJsStatic;
+  try {
+    SQL = await loadSqlJs();
+  } catch (error) {
+    console.warn('SQLite engine unavailable, skipping SQL check:', error);
+    return null;
+  }
+
+  const { statements, translated } = tokenizeScript(script, dialect);
+  const db = new SQL.Database();
+  const errors: SqlStatementError[] = [];
+  const unchecked: number[] = [];
+  let adaptedAny = false;
+  try {
+    statements.forEach(({ sql, line }, index) => {
+      if (dialect !== 'sqlite' && UNCHECKED_STATEMENT_RE.test(sql)) {
+        unchecked.push(index + 1);
+        return;
+      }
+      const adapted = dialect === 'sqlite' ? sql : adaptStatement(sql, dialect);
+      if (adapted !== sql) adaptedAny = true;
+      if (adapted === null) return;
+      try {
+        db.run(adapted);
+      } catch (error: any) {
+        if (errors.length < MAX_REPORTED_ERRORS) errors.push({ statement: index + 1, line, message: error.message || String(error) });
+      }
+    });
+
+    const tableNames = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY rowid");
+    const tables = (tableNames[0]?.values || []).map(([name]) => ({
+      name: String(name),
+      rows: Number(db.exec(`SELECT COUNT(*) FROM "${String(name).replace(/"/g, '""')}"`)[0].values[0][0]),
+    }));
+    return { statements: statements.length, tables, errors, unchecked, translated: translated || adaptedAny };
+  } finally {
+    db.close();
+  }
+};
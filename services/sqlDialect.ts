@@ -0,0 +1,141 @@
+import { SqlDialect, SqlOptions } from "../types";
+
+export const DEFAULT_SQL_OPTIONS: SqlOptions = {
+  dialect: 'postgresql',
+  tableName: 'data',
+  createTable: true,
+  batchSize: 100,
+};
+
+// SQL Server accepts at most 1000 rows in one VALUES list
+export const MAX_SQL_BATCH_SIZE = 1000;
+
+export const SQL_DIALECT_OPTIONS: { id: SqlDialect; label: string }[] = [
+  { id: 'postgresql', label: 'PostgreSQL' },
+  { id: 'mysql', label: 'MySQL' },
+  { id: 'sqlite', label: 'SQLite' },
+  { id: 'sqlserver', label: 'SQL Server' },
+];
+
+export const dialectLabel = (dialect: SqlDialect): string =>
+  SQL_DIALECT_OPTIONS.find(d => d.id === dialect)!.label;
+
+/**
+ * Fills in defaults for SQL options from storage, presets or the API and
+ * clamps them to usable values.
+ */
+export const normalizeSqlOptions = (raw: any): SqlOptions => {
+  const batchSize = Math.floor(Number(raw?.batchSize));
+  return {
+    dialect: SQL_DIALECT_OPTIONS.some(d => d.id === raw?.dialect) ? raw.dialect : DEFAULT_SQL_OPTIONS.dialect,
+    tableName: typeof raw?.tableName === 'string' && raw.tableName.trim() ? raw.tableName.trim() : DEFAULT_SQL_OPTIONS.tableName,
+    createTable: typeof raw?.createTable === 'boolean' ? raw.createTable : DEFAULT_SQL_OPTIONS.createTable,
+    batchSize: batchSize >= 1 ? Math.min(batchSize, MAX_SQL_BATCH_SIZE) : DEFAULT_SQL_OPTIONS.batchSize,
+  };
+};
+
+export const quoteIdentifier = (name: string, dialect: SqlDialect): string => {
+  switch (dialect) {
+    case 'mysql': return `\`${name.replace(/`/g, '``')}\``;
+    case 'sqlserver': return `[${name.replace(/]/g, ']]')}]`;
+    default: return `"${name.replace(/"/g, '""')}"`;
+  }
+};
+
+/**
+ * Quotes a possibly schema-qualified table name such as "sales.orders".
+ */
+export const quoteTableName = (name: string, dialect: SqlDialect): string =>
+  name.split('.').map(part => quoteIdentifier(part, dialect)).join('.');
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_RE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const INT32_MAX = 2 ** 31 - 1;
+
+type ColumnKind = 'integer' | 'bigint' | 'real' | 'boolean' | 'date' | 'datetime' | 'text';
+
+const COLUMN_TYPES: Record<SqlDialect, Record<ColumnKind, string>> = {
+  postgresql: { integer: 'INTEGER', bigint: 'BIGINT', real: 'DOUBLE PRECISION', boolean: 'BOOLEAN', date: 'DATE', datetime: 'TIMESTAMP', text: 'TEXT' },
+  mysql: { integer: 'INT', bigint: 'BIGINT', real: 'DOUBLE', boolean: 'BOOLEAN', date: 'DATE', datetime: 'DATETIME', text: 'TEXT' },
+  // SQLite has no date or boolean storage class; ISO text and 0/1 are the convention
+  sqlite: { integer: 'INTEGER', bigint: 'INTEGER', real: 'REAL', boolean: 'INTEGER', date: 'TEXT', datetime: 'TEXT', text: 'TEXT' },
+  sqlserver: { integer: 'INT', bigint: 'BIGINT', real: 'FLOAT', boolean: 'BIT', date: 'DATE', datetime: 'DATETIME2', text: 'NVARCHAR(MAX)' },
+};
+
+const inferColumnKind = (values: unknown[]): ColumnKind => {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '');
+  if (present.length === 0) return 'text';
+  if (present.every(v => typeof v === 'boolean')) return 'boolean';
+  if (present.every(v => typeof v === 'number' && Number.isInteger(v))) {
+    return present.every(v => Math.abs(v as number) <= INT32_MAX) ? 'integer' : 'bigint';
+  }
+  if (present.every(v => typeof v === 'number')) return 'real';
+  if (present.every(v => typeof v === 'string' && DATE_RE.test(v))) return 'date';
+  if (present.every(v => typeof v === 'string' && (DATE_RE.test(v) || DATETIME_RE.test(v)))) return 'datetime';
+  return 'text';
+};
+
+export const inferColumnType = (values: unknown[], dialect: SqlDialect): string =>
+  COLUMN_TYPES[dialect][inferColumnKind(values)];
+
+export const sqlLiteral = (value: unknown, dialect: SqlDialect): string => {
+  if (value === null || value === undefined || value === '') return 'NULL';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'NULL';
+  if (typeof value === 'boolean') {
+    return dialect === 'sqlserver' || dialect === 'sqlite' ? (value ? '1' : '0') : (value ? 'TRUE' : 'FALSE');
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // MySQL treats backslashes in string literals as escapes by default
+  const escaped = (dialect === 'mysql' ? text.replace(/\\/g, '\\\\') : text).replace(/'/g, "''");
+  return dialect === 'sqlserver' ? `N'${escaped}'` : `'${escaped}'`;
+};
+
+/**
+ * Builds a CREATE TABLE (optional) plus batched INSERT script for a table.
+ */
+export const buildSqlScript = (
+  columns: string[],
+  rows: Record<string, unknown>[],
+  options: SqlOptions
+): string => {
+  const { dialect } = options;
+  const table = quoteTableName(options.tableName, dialect);
+  const columnList = columns.map(c => quoteIdentifier(c, dialect)).join(', ');
+  const statements: string[] = [];
+
+  if (options.createTable) {
+    const defs = columns.map(c => `  ${quoteIdentifier(c, dialect)} ${inferColumnType(rows.map(r => r[c]), dialect)}`).join(',\n');
+    statements.push(`CREATE TABLE ${table} (\n${defs}\n);`);
+  }
+  for (let i = 0; i < rows.length; i += options.batchSize) {
+    const values = rows.slice(i, i + options.batchSize)
+      .map(row => `(${columns.map(c => sqlLiteral(row[c], dialect)).join(', ')})`);
+    statements.push(values.length === 1
+      ? `INSERT INTO ${table} (${columnList}) VALUES ${values[0]};`
+      : `INSERT INTO ${table} (${columnList}) VALUES\n  ${values.join(',\n  ')};`);
+  }
+  return statements.join('\n');
+};
+
+/**
+ * Spells the options out for the model, which writes SQL for non-tabular
+ * sources itself.
+ */
+export const describeSqlOptions = (options: SqlOptions): string => {
+  const { dialect } = options;
+  const lines = [
+    `Write the SQL for ${dialectLabel(dialect)}, using only syntax that dialect accepts.`,
+    `Insert the data into the table ${quoteTableName(options.tableName, dialect)}; quote identifiers as ${quoteIdentifier('name', dialect)}.`,
+    options.createTable
+      ? `Start with a CREATE TABLE statement whose column types are inferred from the data (${Object.values(COLUMN_TYPES[dialect]).filter((t, i, all) => all.indexOf(t) === i).join(', ')}).`
+      : 'Do NOT emit CREATE TABLE or any other DDL; the table already exists.',
+    options.batchSize > 1
+      ? `Group rows into multi-row INSERT ... VALUES statements of at most ${options.batchSize} rows each.`
+      : 'Write one INSERT statement per row.',
+  ];
+  if (dialect === 'sqlserver') lines.push("Prefix string literals with N, write booleans as 1/0, and do not use GO separators.");
+  if (dialect === 'sqlite') lines.push('Write booleans as 1/0 and dates as ISO 8601 text.');
+  if (dialect === 'mysql') lines.push('Escape backslashes in string literals.');
+  lines.push('Output plain SQL statements terminated by semicolons; no transaction control, SET statements or comments.');
+  return lines.join('\n');
+};
@@ -0,0 +1,138 @@
+import { TextEncodingId } from "../types";
+
+/**
+ * Encoding detection for uploaded text files. Spreadsheets exported by
+ * Chinese Excel are usually GB18030/GBK or Big5 rather than UTF-8.
+ */
+
+export const TEXT_ENCODINGS: { id: TextEncodingId; label: string }[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'gb18030', label: 'GB18030 / GBK (简体中文)' },
+  { id: 'big5', label: 'Big5 (繁体中文)' },
+  { id: 'shift_jis', label: 'Shift_JIS (日文)' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+  { id: 'windows-1252', label: 'Windows-1252 (西欧)' },
+];
+
+export const encodingLabel = (encoding: TextEncodingId): string =>
+  TEXT_ENCODINGS.find(e => e.id === encoding)?.label || encoding;
+
+// Detection looks at the start of the file only
+const SAMPLE_BYTES = 256 * 1024;
+
+// Frequent Chinese characters in both simplified and traditional form. Text
+// decoded with the right legacy encoding is full of them; a wrong guess
+// produces rare characters instead.
+const COMMON_HANZI = new Set(
+  '\u7684\u4e00\u662f\u4e0d\u4e86\u4eba\u6211\u5728\u6709\u4ed6\u8fd9\u4e2d\u5927\u6765\u4e0a\u56fd\u4e2a\u5230\u8bf4\u4eec' +
+  '\u4e3a\u5b50\u548c\u4f60\u5730\u51fa\u9053\u4e5f\u65f6\u5e74\u5f97\u5c31\u90a3\u8981\u4e0b\u4ee5\u751f\u4f1a\u81ea\u7740' +
+  '\u53bb\u4e4b\u8fc7\u5bb6\u5b66\u5bf9\u53ef\u5979\u91cc\u540e\u5c0f\u4e48\u5fc3\u591a\u5929\u800c\u80fd\u597d\u90fd\u7136' +
+  '\u6ca1\u65e5\u4e8e\u8d77\u8fd8\u53d1\u6210\u4e8b\u53ea\u4f5c\u5f53\u60f3\u770b\u6587\u65e0\u5f00\u624b\u5341\u7528\u4e3b' +
+  '\u884c\u65b9\u53c8\u5982\u524d\u6240\u672c\u89c1\u7ecf\u5934\u9762\u516c\u540c\u4e09\u5df2\u8001\u4ece\u52a8\u4e24\u957f' +
+  '\u77e5\u6c11\u6837\u73b0\u5206\u5c06\u5916\u4f46\u8eab\u4e9b\u4e0e\u9ad8\u610f\u8fdb\u628a\u6cd5\u6b64\u5b9e\u56de\u4e8c' +
+  '\u7406\u7f8e\u70b9\u6708\u660e\u5176\u79cd\u58f0\u5168\u5de5\u5df1\u8bdd\u513f\u8005\u5411\u60c5\u90e8\u6b63\u540d\u5b9a' +
+  '\u5973\u95ee\u529b\u673a\u7ed9\u7b49\u51e0\u5f88\u4e1a\u6700\u95f4\u65b0\u4ec0\u6253\u4fbf\u4f4d\u56e0\u91cd\u88ab\u8d70' +
+  '\u7535\u56db\u7b2c\u95e8\u76f8\u6b21\u4e1c\u653f\u6d77\u53e3\u4f7f\u6559\u897f\u518d\u5e73\u771f\u542c\u4e16\u6c14\u4fe1' +
+  '\u5317\u5c11\u5173\u5e76\u5185\u52a0\u5316\u7531\u5374\u4ee3\u519b\u4ea7\u5165\u5148\u5c71\u4e94\u592a\u6c34\u4e07\u5e02' +
+  '\u773c\u4f53\u522b\u5904\u603b\u624d\u573a\u5e08\u4e66\u6bd4\u4f4f\u5458\u4e5d\u7b11\u6027\u901a\u76ee\u534e\u62a5\u7acb' +
+  '\u9a6c\u547d\u5f20\u6d3b\u96be\u795e\u6570\u4ef6\u5b89\u8868\u539f\u8f66\u767d\u5e94\u8def\u671f\u53eb\u6b7b\u5e38\u63d0' +
+  '\u611f\u91d1\u4f55\u66f4\u53cd\u5408\u653e\u505a\u7cfb\u8ba1\u6216\u53f8\u5229\u53d7\u5149\u738b\u679c\u4eb2\u754c\u53ca' +
+  '\u4eca\u4eac\u52a1\u5236\u89e3\u5404\u4efb\u81f3\u6e05\u7269\u53f0\u8c61\u8bb0\u8fb9\u5171\u98ce\u6218\u5e72\u63a5\u5b83' +
+  '\u8bb8\u516b\u7279\u89c9\u671b\u76f4\u670d\u6bdb\u6797\u9898\u5efa\u5357\u5ea6\u7edf\u8272\u5b57\u8bf7\u4ea4\u7231\u8ba9' +
+  '\u8ba4\u7b97\u8bba\u767e\u5403\u4e49\u79d1\u600e\u5143\u793e\u672f\u7ed3\u516d\u529f\u6307\u601d\u975e\u6d41\u6bcf\u9752' +
+  '\u7ba1\u592b\u8fde\u8fdc\u8d44\u961f\u8ddf\u5e26\u82b1\u5feb\u6761\u9662\u53d8\u8054\u8a00\u6743\u5f80\u5c55\u8be5\u9886' +
+  '\u4f20\u8fd1\u7559\u7ea2\u6cbb\u51b3\u5468\u4fdd\u8fbe\u529e\u8fd0\u6b66\u534a\u5019\u4e03\u5fc5\u57ce\u7236\u5f3a\u6b65' +
+  '\u5b8c\u9769\u6df1\u533a\u5373\u6c42\u54c1\u58eb\u8f6c\u91cf\u7a7a\u751a\u4f17\u6280\u8f7b\u7a0b\u544a\u6c5f\u8bed\u82f1' +
+  '\u57fa\u6d3e\u6ee1\u5f0f\u674e\u606f\u5199\u5462\u8bc6\u6781\u4ee4\u9ec4\u5fb7\u6536\u8138\u94b1\u515a\u5012\u672a\u6301' +
+  '\u97f3\u8dd1\u59d3\u989d\u5740\u4ef7\u683c\u53f7\u7801\u7701\u53bf\u9500\u552e\u5355\u5ba2\u6237\u9019\u4f86\u5011\u500b' +
+  '\u570b\u8aaa\u6642\u6703\u5c0d\u5b78\u5f8c\u9ebc\u767c\u904e\u7576\u9084\u7d93\u982d\u898b\u9593\u6771\u52d5\u5169\u9577' +
+  '\u6a23\u73fe\u5c07\u8207\u9032\u9ede\u8072\u7a2e\u5f9e\u5be6\u8a71\u5152\u554f\u6a5f\u7d66\u5e7e\u696d\u96fb\u9580\u8eca' +
+  '\u958b\u95dc\u7121\u70ba\u7522\u8ecd\u5167\u61c9\u865f\u908a\u8655\u7e3d\u5834\u66f8\u54e1\u83ef\u5831\u5f35\u96e3\u6578' +
+  '\u9ad4\u5225\u5e2b\u6b61\u8a8d\u8b93\u8ad6\u7fa9\u842c\u807d\u6c23\u89aa\u5c0e\u9322\u9ee8\u8f49\u8f15\u904b\u689d\u806f' +
+  '\u6b0a\u6b72\u5718\u9060\u968a\u5e36\u8b8a\u9054\u8fa6\u5340\u5c64\u8996\u8a08\u5283\u7db2\u969b\u9801\u64da\u50b3\u984d' +
+  '\u50f9\u78bc\u7e23\u92b7\u55ae\u6236',
+);
+
+const LEGACY_CANDIDATES: TextEncodingId[] = ['gb18030', 'big5', 'shift_jis'];
+
+const hasPrefix = (bytes: Uint8Array, prefix: number[]) => prefix.every((b, i) => bytes[i] === b);
+
+/**
+ * Spots BOM-less UTF-16 by the zero high bytes of ASCII characters.
+ */
+const detectUtf16 = (bytes: Uint8Array): TextEncodingId | null => {
+  const length = Math.min(bytes.length, 4096) & ~1;
+  if (length < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+  return null;
+};
+
+const isUtf8 = (bytes: Uint8Array): boolean => {
+  try {
+    // stream: a multi-byte character cut off by the sample limit is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * How plausible a decoding is: common characters and kana count for it,
+ * replacement characters, private-use code points, rare CJK extensions and
+ * C1 controls against it.
+ */
+const scoreDecoding = (text: string): number => {
+  let score = 0;
+  for (const ch of text) {
+    if (COMMON_HANZI.has(ch)) score += 3;
+    else if (/[\u3040-\u30ff]/.test(ch)) score += 1;
+    else if (ch === '\ufffd') score -= 10;
+    else if (/[\ue000-\uf8ff\u3400-\u4dbf\u0080-\u009f\uff61-\uff9f]/.test(ch) || ch.length > 1) score -= 5;
+  }
+  return score;
+};
+
+/**
+ * Guesses the encoding of some bytes: BOM first, then strict UTF-8, then the
+ * legacy CJK encoding whose decoding looks most like real text.
+ */
+export const detectEncoding = (bytes: Uint8Array): TextEncodingId => {
+  if (hasPrefix(bytes, [0xef, 0xbb, 0xbf])) return 'utf-8';
+  if (hasPrefix(bytes, [0xff, 0xfe])) return 'utf-16le';
+  if (hasPrefix(bytes, [0xfe, 0xff])) return 'utf-16be';
+  const sample = bytes.subarray(0, SAMPLE_BYTES);
+  const utf16 = detectUtf16(sample);
+  if (utf16) return utf16;
+  if (isUtf8(sample)) return 'utf-8';
+
+  let best: TextEncodingId = 'windows-1252';
+  let bestScore = 0;
+  for (const encoding of LEGACY_CANDIDATES) {
+    const score = scoreDecoding(new TextDecoder(encoding).decode(sample));
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Decodes bytes with the given encoding, or the detected one when omitted.
+ * A byte order mark is dropped.
+ */
+export const decodeText = (bytes: Uint8Array, encoding?: TextEncodingId): string =>
+  new TextDecoder(encoding || detectEncoding(bytes)).decode(bytes);
+
+export const detectFileEncoding = async (file: Blob): Promise<TextEncodingId> =>
+  detectEncoding(new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer()));
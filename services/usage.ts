@@ -0,0 +1,92 @@
+import { ProviderId, TokenUsage } from "../types";
+import { PromptRequest } from "./providers/types";
+
+/**
+ * Token accounting and cost estimates. Prices are in USD per million tokens.
+ */
+
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Matched by longest prefix, so dated or preview variants share the base price
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+const BUDGET_KEY = 'uniconvert.budgetUsd';
+// Roughly what Gemini charges for one image or PDF page
+const INLINE_DATA_TOKENS = 258;
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+export const addUsage = (a: TokenUsage, b?: TokenUsage): TokenUsage =>
+  b ? { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens } : a;
+
+/**
+ * Rough token count for backends without a counting endpoint: about one
+ * token per CJK character and one per four characters otherwise.
+ */
+export const estimateTextTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u30ff\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+};
+
+export const estimateRequestTokens = (request: PromptRequest): number =>
+  request.turns.reduce(
+    (sum, turn) => sum + turn.parts.reduce((n, part) => n + ('text' in part ? estimateTextTokens(part.text) : INLINE_DATA_TOKENS), 0),
+    estimateTextTokens(request.systemInstruction)
+  );
+
+/**
+ * Price of a model, or null when unknown (e.g. self-hosted models). The
+ * offline mock is free.
+ */
+const getModelPricing = (provider: ProviderId, model: string): ModelPricing | null => {
+  if (provider === 'mock') return { input: 0, output: 0 };
+  const key = Object.keys(MODEL_PRICING)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? MODEL_PRICING[key] : null;
+};
+
+/**
+ * Cost in USD, or null when the model's price is unknown.
+ */
+export const estimateCost = (usage: TokenUsage, provider: ProviderId, model: string): number | null => {
+  const pricing = getModelPricing(provider, model);
+  if (!pricing) return null;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+};
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M`
+    : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k`
+    : String(tokens);
+
+export const formatCost = (cost: number | null): string => {
+  if (cost === null) return '价格未知';
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+/**
+ * Session spending cap in USD, or null when none is set.
+ */
+export const getBudgetUsd = (): number | null => {
+  const stored = Number(localStorage.getItem(BUDGET_KEY));
+  return stored > 0 ? stored : null;
+};
+
+export const setBudgetUsd = (usd: number | null) => {
+  if (usd && usd > 0) localStorage.setItem(BUDGET_KEY, String(usd));
+  else localStorage.removeItem(BUDGET_KEY);
+};
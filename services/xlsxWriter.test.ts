@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { extractDocument } from './documentExtract';
+import { buildXlsx, parseWorkbook } from './xlsxWriter';
+import { readZip } from './zip';
+
+const SHEET = 'xl/worksheets/sheet1.xml';
+
+const sheetXml = async (json: string): Promise<string> => {
+  const parts = await readZip(await buildXlsx(json), path => path === SHEET);
+  return new TextDecoder().decode(parts.get(SHEET));
+};
+
+// Text of the cell at the given reference
+const cell = (xml: string, ref: string): string => xml.match(new RegExp(`<c r="${ref}"[^>]*>.*?</c>`))?.[0] ?? '';
+
+describe('parseWorkbook', () => {
+  it('reads sheets and collects columns in first-seen order', () => {
+    expect(parseWorkbook('{"人员": [{"a": 1}, {"b": 2, "a": 3}]}')).toEqual([
+      { name: '人员', columns: ['a', 'b'], rows: [[1, undefined], [3, 2]] },
+    ]);
+    expect(parseWorkbook('[{"a": 1}]')[0].name).toBe('Sheet1');
+  });
+
+  it('rejects JSON that is not a workbook', () => {
+    expect(() => parseWorkbook('{"s": [1]}')).toThrow('工作表 "s" 应为行对象数组');
+    expect(() => parseWorkbook('3')).toThrow('工作簿应为');
+  });
+});
+
+describe('buildXlsx', () => {
+  it('types columns of numbers, numeric text and dates', async () => {
+    const xml = await sheetXml(JSON.stringify([
+      { amount: '12.50', count: 3, day: '2024-02-29', at: '2024-02-29T08:30:00' },
+      { amount: '-1e3', count: 4, day: '2024-03-01', at: '2024-03-01 09:00' },
+    ]));
+    expect(cell(xml, 'A2')).toBe('<c r="A2"><v>12.5</v></c>');
+    expect(cell(xml, 'A3')).toBe('<c r="A3"><v>-1000</v></c>');
+    expect(cell(xml, 'B2')).toBe('<c r="B2"><v>3</v></c>');
+    expect(cell(xml, 'C2')).toBe('<c r="C2" s="2"><v>45351</v></c>');
+    expect(cell(xml, 'D2')).toMatch(/^<c r="D2" s="3"><v>45351\.354166/);
+  });
+
+  it('keeps identifiers that a number would corrupt as text', async () => {
+    const xml = await sheetXml(JSON.stringify([
+      { id: '11010519491231002X', card: '6222020200000000007', code: '010', max: '123456789012345' },
+      { id: '110105194912310021', card: '4111111111111111', code: '020', max: '0.12345678901234' },
+    ]));
+    expect(cell(xml, 'A3')).toContain('<t xml:space="preserve">110105194912310021</t>');
+    expect(cell(xml, 'B2')).toContain('<t xml:space="preserve">6222020200000000007</t>');
+    expect(cell(xml, 'C2')).toContain('<t xml:space="preserve">010</t>');
+    expect(cell(xml, 'D2')).toBe('<c r="D2"><v>123456789012345</v></c>');
+  });
+
+  it('can be read back by the document extractor', async () => {
+    const bytes = await buildXlsx(JSON.stringify({ 客户: [{ 姓名: '张三', 卡号: '6222020200000000007', 余额: 12.5 }] }));
+    const text = await extractDocument(new File([bytes], 'out.xlsx'));
+    expect(text).toContain('客户');
+    expect(text).toContain('| 张三 | 6222020200000000007 | 12.5 |');
+  });
+});
@@ -0,0 +1,248 @@
+import { buildCoreXml } from "./docxWriter";
+import { createZip } from "./zip";
+
+/**
+ * Builds a genuine Office Open XML (.xlsx) workbook from the JSON the model
+ * produces for the XLSX target: an object mapping sheet names to arrays of
+ * row objects. Every sheet gets a bold, frozen header row; columns whose
+ * values are all numbers or all ISO dates are written as typed cells.
+ */
+
+export interface WorkbookSheet {
+  name: string;
+  columns: string[];
+  rows: unknown[][]; // One value per column
+}
+
+type ColumnKind = 'number' | 'date' | 'datetime' | 'text';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Excel's limits on sheet names and cell text
+const MAX_SHEET_NAME = 31;
+const MAX_CELL_TEXT = 32767;
+
+// Leading zeros mark identifiers such as postcodes, which must stay text
+const NUMERIC_TEXT = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+// Excel keeps 15 significant digits; longer ones, such as ID card or bank card numbers, would lose their last digits
+const MAX_NUMBER_DIGITS = 15;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const SS_NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const R_NS = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Indexes into cellXfs of the styles part
+const HEADER_STYLE = 1;
+const DATE_STYLE = 2;
+const DATETIME_STYLE = 3;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// ---------------------------------------------------------------------------
+// Workbook JSON
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses workbook JSON into sheets. A top-level array is accepted as a
+ * single sheet. Throws with a readable message when the shape is wrong.
+ */
+export const parseWorkbook = (text: string): WorkbookSheet[] => {
+  const data = JSON.parse(text);
+  const entries: [string, unknown][] | null = Array.isArray(data)
+    ? [['Sheet1', data]]
+    : data !== null && typeof data === 'object' ? Object.entries(data) : null;
+  if (!entries || entries.length === 0) throw new Error("工作簿应为以工作表名为键、行对象数组为值的 JSON 对象");
+
+  return entries.map(([name, rows]) => {
+    if (!Array.isArray(rows) || rows.some(r => r === null || typeof r !== 'object' || Array.isArray(r))) {
+      throw new Error(`工作表 "${name}" 应为行对象数组`);
+    }
+    const columns: string[] = [];
+    for (const row of rows) {
+      for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key);
+    }
+    return { name, columns, rows: rows.map(row => columns.map(c => row[c])) };
+  });
+};
+
+const isBlank = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+/**
+ * Excel serial number of an ISO date or date-time string, in wall-clock time.
+ */
+const toDateSerial = (text: string): number | null => {
+  const match = ISO_DATE.exec(text);
+  if (!match) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0'] = match;
+  const ms = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+  const date = new Date(ms);
+  // Reject dates that Date.UTC silently rolls over, e.g. 2024-02-30
+  if (date.getUTCMonth() !== Number(mo) - 1 || date.getUTCDate() !== Number(d)) return null;
+  return (ms - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+const isNumericText = (text: string): boolean =>
+  NUMERIC_TEXT.test(text) && text.replace(/[eE].*$/, '').replace(/\D/g, '').replace(/^0+/, '').length <= MAX_NUMBER_DIGITS;
+
+/**
+ * A column is typed when every non-empty value is a number (or numeric
+ * text that fits in a double), or every one is an ISO date; anything else
+ * stays text.
+ */
+const columnKind = (values: unknown[]): ColumnKind => {
+  const present = values.filter(v => !isBlank(v));
+  if (present.length === 0) return 'text';
+  if (present.every(v => (typeof v === 'number' && Number.isFinite(v)) || (typeof v === 'string' && isNumericText(v.trim())))) {
+    return 'number';
+  }
+  if (present.every(v => typeof v === 'string' && toDateSerial(v.trim()) !== null)) {
+    return present.some(v => /\d[T ]\d/.test(v as string)) ? 'datetime' : 'date';
+  }
+  return 'text';
+};
+
+const cellText = (value: unknown): string =>
+  typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// ---------------------------------------------------------------------------
+// Sheet XML
+// ---------------------------------------------------------------------------
+
+const columnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  return letters;
+};
+
+// Full-width characters take about two character widths
+const displayWidth = (text: string): number =>
+  [...text].reduce((w, ch) => w + (/[\u1100-\uFFEF]/.test(ch) ? 2 : 1), 0);
+
+const columnWidth = (sheet: WorkbookSheet, index: number, kind: ColumnKind): number => {
+  if (kind === 'date') return Math.max(12, displayWidth(sheet.columns[index]) + 2);
+  if (kind === 'datetime') return Math.max(20, displayWidth(sheet.columns[index]) + 2);
+  const widest = sheet.rows.slice(0, 200).reduce((w, row) => isBlank(row[index]) ? w : Math.max(w, displayWidth(cellText(row[index]))), displayWidth(sheet.columns[index]));
+  return Math.min(60, Math.max(8, widest + 2));
+};
+
+const stringCell = (ref: string, text: string, style = 0): string =>
+  `<c r="${ref}"${style ? ` s="${style}"` : ''} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text.slice(0, MAX_CELL_TEXT))}</t></is></c>`;
+
+const renderCell = (ref: string, value: unknown, kind: ColumnKind): string => {
+  if (isBlank(value)) return '';
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+  if (typeof value === 'string' && kind === 'number') return `<c r="${ref}"><v>${Number(value.trim())}</v></c>`;
+  if (typeof value === 'string' && (kind === 'date' || kind === 'datetime')) {
+    return `<c r="${ref}" s="${kind === 'date' ? DATE_STYLE : DATETIME_STYLE}"><v>${toDateSerial(value.trim())}</v></c>`;
+  }
+  return stringCell(ref, cellText(value));
+};
+
+const buildSheetXml = (sheet: WorkbookSheet, selected: boolean): string => {
+  const kinds = sheet.columns.map((_, i) => columnKind(sheet.rows.map(row => row[i])));
+  const letters = sheet.columns.map((_, i) => columnLetter(i));
+  const header = `<row r="1">${sheet.columns.map((c, i) => stringCell(`${letters[i]}1`, c, HEADER_STYLE)).join('')}</row>`;
+  const body = sheet.rows.map((row, r) =>
+    `<row r="${r + 2}">${row.map((value, i) => renderCell(`${letters[i]}${r + 2}`, value, kinds[i])).join('')}</row>`
+  ).join('');
+  const hasColumns = sheet.columns.length > 0;
+  const pane = hasColumns ? '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/>' : '';
+  const cols = hasColumns
+    ? `<cols>${kinds.map((kind, i) => `<col min="${i + 1}" max="${i + 1}" width="${columnWidth(sheet, i, kind)}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  return `${XML_HEADER}<worksheet ${SS_NS}>` +
+    `<sheetViews><sheetView${selected ? ' tabSelected="1"' : ''} workbookViewId="0">${pane}</sheetView></sheetViews>` +
+    `<sheetFormatPr defaultRowHeight="15"/>${cols}<sheetData>${hasColumns ? header + body : ''}</sheetData>` +
+    '</worksheet>';
+};
+
+// ---------------------------------------------------------------------------
+// Package parts
+// ---------------------------------------------------------------------------
+
+/**
+ * Makes sheet names valid for Excel: no []:*?/\ characters, at most 31
+ * characters, and unique regardless of case.
+ */
+const toSheetNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((raw, i) => {
+    const base = raw.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').replace(/^'+|'+$/g, '').trim().slice(0, MAX_SHEET_NAME) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const buildWorkbookXml = (names: string[]): string =>
+  `${XML_HEADER}<workbook ${SS_NS} ${R_NS}><bookViews><workbookView/></bookViews><sheets>` +
+  names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+  '</sheets></workbook>';
+
+const buildWorkbookRelsXml = (count: number): string =>
+  `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  Array.from({ length: count }, (_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_TYPE}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+  `<Relationship Id="rId${count + 1}" Type="${REL_TYPE}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+const FONT = '<sz val="11"/><name val="Calibri"/><family val="2"/><scheme val="minor"/>';
+
+const STYLES_XML = `${XML_HEADER}<styleSheet ${SS_NS}>` +
+  '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+  `<fonts count="2"><font>${FONT}</font><font><b/>${FONT}</font></fonts>` +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+const buildContentTypesXml = (count: number): string =>
+  `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  Array.from({ length: count }, (_, i) =>
+    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  ).join('') +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="xl/workbook.xml"/>` +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+  '</Relationships>';
+
+/**
+ * Converts workbook JSON into the bytes of a .xlsx package.
+ */
+export const buildXlsx = async (json: string, title = 'Workbook'): Promise<Uint8Array> => {
+  const sheets = parseWorkbook(json);
+  const names = toSheetNames(sheets.map(s => s.name));
+
+  return createZip([
+    { path: '[Content_Types].xml', data: buildContentTypesXml(sheets.length) },
+    { path: '_rels/.rels', data: ROOT_RELS_XML },
+    { path: 'xl/workbook.xml', data: buildWorkbookXml(names) },
+    { path: 'xl/_rels/workbook.xml.rels', data: buildWorkbookRelsXml(sheets.length) },
+    { path: 'xl/styles.xml', data: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, data: buildSheetXml(sheet, i === 0) })),
+    { path: 'docProps/core.xml', data: buildCoreXml(title) },
+  ]);
+};
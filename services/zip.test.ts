@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { extractDocument } from './documentExtract';
+import { createZip, readZip } from './zip';
+
+const PATH = 'xl/worksheets/sheet1.xml';
+
+const archive = () => createZip([{ path: PATH, data: '<sheetData>' + '<row/>'.repeat(200) + '</sheetData>' }]);
+
+// Rewrites the first byte of the first entry's deflated data as a block of the reserved type
+const corrupt = (zip: Uint8Array): Uint8Array => {
+  const copy = zip.slice();
+  const view = new DataView(copy.buffer);
+  copy[30 + view.getUint16(26, true) + view.getUint16(28, true)] = 0x07;
+  return copy;
+};
+
+describe('readZip', () => {
+  it('reads back what createZip wrote', async () => {
+    const entries = await readZip(await archive(), () => true);
+    expect(new TextDecoder().decode(entries.get(PATH))).toContain('<row/><row/>');
+  });
+
+  it('rejects a corrupted deflate entry', async () => {
+    await expect(readZip(corrupt(await archive()), () => true)).rejects.toThrow();
+  });
+
+  it('rejects a truncated archive', async () => {
+    const zip = await archive();
+    await expect(readZip(zip.subarray(0, zip.length - 30), () => true)).rejects.toThrow('不是有效的 ZIP 文件');
+  });
+});
+
+describe('extractDocument', () => {
+  it('wraps the error of a corrupted workbook', async () => {
+    const file = new File([corrupt(await archive())], 'broken.xlsx');
+    await expect(extractDocument(file)).rejects.toThrow(/^无法读取 broken\.xlsx：/);
+  });
+});
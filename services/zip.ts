@@ -0,0 +1,180 @@
+/**
+ * Minimal ZIP archive writer and reader. Entries are deflated with the
+ * platform's CompressionStream when available and stored otherwise; reading
+ * inflates through DecompressionStream.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: string | Uint8Array;
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Runs bytes through a CompressionStream/DecompressionStream with the given format.
+ */
+export const transformBytes = async (
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter();
+  // Corrupt input rejects the write as well as the read; awaiting both keeps
+  // the writer's rejection from going unhandled
+  const write = writer.write(data as Uint8Array<ArrayBuffer>).then(() => writer.close());
+  const readAll = async () => {
+    const chunks: Uint8Array[] = [];
+    const reader = stream.readable.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+    return chunks;
+  };
+  const [, chunks] = await Promise.all([write, readAll()]);
+  return concatBytes(chunks);
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const total = chunks.reduce((sum, c) => sum + c.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Builds a ZIP archive from the given entries. File names are stored as UTF-8.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const canDeflate = typeof CompressionStream !== 'undefined';
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const raw = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(raw);
+    const deflated = canDeflate ? await transformBytes(raw, new CompressionStream('deflate-raw')) : null;
+    const useDeflate = !!deflated && deflated.length < raw.length;
+    const body = useDeflate ? deflated! : raw;
+    const method = useDeflate ? 8 : 0;
+    const { time, date } = toDosDateTime(entry.modified || new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localParts.push(new Uint8Array(local.buffer), name, body);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, body.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + body.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, p) => sum + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concatBytes([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+};
+
+/**
+ * Reads the entries of a ZIP archive whose paths pass the filter. Stored and
+ * deflated entries are supported; ZIP64 and encrypted archives are not.
+ */
+export const readZip = async (
+  data: Uint8Array,
+  include: (path: string) => boolean = () => true
+): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  // The end of central directory record sits before an optional comment of up to 64KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("不是有效的 ZIP 文件");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error("不支持 ZIP64 格式的文件");
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== 0x02014b50) throw new Error("ZIP 文件目录已损坏");
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || !include(path)) continue;
+    if (flags & 1) throw new Error("不支持加密的文件");
+    // Sizes come from the central directory; the local header may defer them to a data descriptor
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const body = data.subarray(start, start + compressedSize);
+    if (method === 0) entries.set(path, body);
+    else if (method === 8) entries.set(path, await transformBytes(body, new DecompressionStream('deflate-raw')));
+    else throw new Error(`不支持的 ZIP 压缩方式 (${method})`);
+  }
+  return entries;
+};
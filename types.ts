@@ -9,11 +9,135 @@ export enum TargetFormat {
   SQL = 'SQL',
   YAML = 'YAML',
   DOCX = 'DOCX (Word文档)',
+  XLSX = 'XLSX (Excel工作簿)',
+  TYPESCRIPT = 'TypeScript 类型',
+  JSON_SCHEMA = 'JSON Schema',
+  ZOD = 'Zod Schema',
   PLAIN_TEXT = '纯文本',
   MERMAID = 'Mermaid 图表',
 }
 
-export type ConversionStatus = 'idle' | 'processing' | 'success' | 'error';
+export type ConversionStatus = 'idle' | 'processing' | 'success' | 'error' | 'cancelled';
+
+export interface SchemaFieldError {
+  path: string; // e.g. $.items[0].price
+  message: string;
+}
+
+export type TextEncodingId = 'utf-8' | 'gb18030' | 'big5' | 'shift_jis' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvOptions {
+  delimiter: ',' | ';' | '\t' | '|';
+  quoteStyle: 'minimal' | 'all' | 'nonnumeric'; // minimal: only fields that need it
+  lineEnding: 'lf' | 'crlf';
+  bom: boolean; // Prefix downloads with a UTF-8 BOM so Excel detects the encoding
+}
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite' | 'sqlserver';
+
+export interface SqlOptions {
+  dialect: SqlDialect;
+  tableName: string;
+  createTable: boolean; // Emit CREATE TABLE with inferred column types before the inserts
+  batchSize: number; // Rows per INSERT statement
+}
+
+export interface SqlStatementError {
+  statement: number; // 1-based position in the script
+  line: number; // 1-based line the statement starts on
+  message: string;
+}
+
+/**
+ * Outcome of running a SQL script in an in-browser SQLite database.
+ */
+export interface SqlCheckReport {
+  statements: number;
+  tables: { name: string; rows: number }[];
+  errors: SqlStatementError[];
+  unchecked: number[]; // 1-based numbers of dialect-only statements SQLite could not run
+  translated: boolean; // Dialect-specific syntax was rewritten for SQLite before running
+}
+
+export interface CodeDiagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+/**
+ * Outcome of type-checking generated TypeScript or Zod code.
+ */
+export interface CodeCheckReport {
+  checker: string; // e.g. "TypeScript 5.8.3"
+  errors: CodeDiagnostic[];
+}
+
+export type RedactionRuleId = 'email' | 'idCard' | 'bankCard' | 'iban' | 'phone' | 'passport' | 'ssn' | 'ipAddress';
+
+export interface RedactionOptions {
+  enabled: boolean;
+  rules: RedactionRuleId[]; // Built-in detectors to run
+  patterns: string[]; // Extra regular expressions, e.g. for employee numbers
+  terms: string[]; // Literal values such as names or company names, matched case-insensitively
+}
+
+/**
+ * One masked value. The value itself stays inside the conversion call; the
+ * report only carries a partly hidden preview.
+ */
+export interface RedactionEntry {
+  placeholder: string; // e.g. PII-PHONE-1
+  rule: string; // Label of the detector that found it
+  preview: string; // e.g. 138****5678
+  occurrences: number;
+}
+
+/**
+ * Audit record of the masking applied to one input.
+ */
+export interface RedactionReport {
+  entries: RedactionEntry[];
+  missing: string[]; // Placeholders absent from the output, so their values could not be restored
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  error?: string; // Parser error of the final output when still invalid
+  fieldErrors?: SchemaFieldError[]; // JSON Schema violations, when a schema was supplied
+  sqlCheck?: SqlCheckReport; // SQL output only, when the SQLite engine could be loaded
+  codeCheck?: CodeCheckReport; // TypeScript and Zod output only, when the compiler could be loaded
+  checkSkipped?: string; // Why the SQL or type check could not run, in full or for some statements
+  repairAttempts: number; // Number of times the model was re-prompted to fix its output
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // Includes thinking tokens, which are billed as output
+}
+
+export interface ConversionResult {
+  text: string;
+  validation: ValidationResult;
+  usage?: TokenUsage; // Summed over repairs and chunks; absent for local conversions
+  redaction?: RedactionReport; // Set when personal data was masked before conversion
+}
+
+export interface ChunkProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * An earlier result of a batch item, kept when the item is converted again.
+ */
+export interface ResultVersion {
+  result: string;
+  validation?: ValidationResult;
+  targetFormat: TargetFormat;
+  instructions: string;
+  completedAt: number;
+}
 
 export interface BatchFileItem {
   id: string;
@@ -21,6 +145,73 @@ export interface BatchFileItem {
   status: ConversionStatus;
   result?: string;
   error?: string;
+  validation?: ValidationResult;
+  chunkProgress?: ChunkProgress; // Set when a long document is converted in several parts
+  attempts?: number; // Attempts made so far, including the one in flight
+  retryAt?: number; // Epoch ms of the next scheduled retry after a retryable failure
+  // Settings of the last finished attempt, recorded for downloads and the archive manifest
+  targetFormat?: TargetFormat;
+  instructions?: string;
+  completedAt?: number;
+  // Per-file settings that take precedence over the global ones
+  formatOverride?: TargetFormat;
+  instructionsOverride?: string;
+  encodingOverride?: TextEncodingId; // Text files only; detected when unset
+  detectedEncoding?: TextEncodingId;
+  versions?: ResultVersion[]; // Earlier results, oldest first
+  // Pre-flight estimate and the tokens actually billed for the last successful attempt
+  estimate?: TokenUsage;
+  usage?: TokenUsage;
+  cost?: number | null; // USD for usage; null when the model's price is unknown
+  redaction?: RedactionReport; // Masking applied to the last successful attempt
+  cachedAt?: number; // Set when the result came from the result cache: when it was first converted
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+export interface ProviderSettings {
+  id: ProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoint only
+  apiKey: string; // OpenAI-compatible endpoint only; Gemini uses the key injected at build time
+}
+
+/**
+ * A finished conversion stored in the local history.
+ */
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  inputText?: string; // Text mode input
+  inputFile?: Blob; // File mode input
+  inputName?: string;
+  targetFormat: TargetFormat;
+  instructions: string;
+  provider: ProviderId;
+  model: string;
+  output: string;
+  validation?: ValidationResult;
+  size: number; // Approximate bytes used, for the storage quota
+}
+
+/**
+ * A converted file stored in the result cache, keyed by a hash of its bytes
+ * and every setting that shapes the output.
+ */
+export interface CacheEntry {
+  key: string; // Hex SHA-256
+  fileName: string; // Name the file had when it was first converted
+  targetFormat: TargetFormat;
+  instructions: string;
+  provider: ProviderId;
+  model: string;
+  output: string;
+  validation: ValidationResult;
+  redaction?: RedactionReport;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number; // Conversions answered from this entry
+  size: number; // Approximate bytes used, for the storage quota
 }
 
 export interface ConversionState {
@@ -33,13 +224,42 @@ export interface ConversionState {
   
   targetFormat: TargetFormat;
   status: ConversionStatus; // Overall status (processing if the queue is running)
+  concurrency: number; // Files converted in parallel in batch mode
   
   // Text mode result
   textResult: string;
+  textValidation: ValidationResult | null;
+  textRedaction: RedactionReport | null;
   
   error: string | null; // Global error message
   additionalInstructions: string;
+  jsonSchema: string; // Optional JSON Schema text guiding JSON output
+  sqlOptions: SqlOptions; // SQL output only
+  csvOptions: CsvOptions; // CSV output only
+  redaction: RedactionOptions; // Masking of personal data before anything is sent
   customFilename: string;
+  provider: ProviderSettings;
+  temperature: number;
+}
+
+/**
+ * Named bundle of conversion settings. API keys are deliberately not part of
+ * a preset so exported files can be shared.
+ */
+export interface ConversionPreset {
+  id: string;
+  name: string;
+  targetFormat: TargetFormat;
+  instructions: string;
+  filenamePattern: string;
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoint only
+  temperature: number;
+  jsonSchema?: string;
+  sqlOptions?: SqlOptions;
+  csvOptions?: CsvOptions;
+  redaction?: RedactionOptions;
 }
 
 export const SUPPORTED_FILE_TYPES = [
@@ -54,5 +274,9 @@ export const SUPPORTED_FILE_TYPES = [
   'application/json',
   'text/markdown',
   'text/x-yaml',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/epub+zip'
 ];
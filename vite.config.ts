@@ -4,15 +4,22 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Behind the bundled server the key stays there and never reaches the bundle
+    const useApiProxy = env.USE_API_PROXY === 'true';
+    const clientKey = useApiProxy ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': env.API_PROXY_TARGET || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientKey),
+        'process.env.USE_API_PROXY': JSON.stringify(String(useApiProxy))
       },
       resolve: {
         alias: {